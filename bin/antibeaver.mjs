@@ -0,0 +1,17 @@
+#!/usr/bin/env node
+/**
+ * Antibeaver CLI launcher
+ *
+ * Node refuses to strip types from files under node_modules, so an installed
+ * package can't run src/cli.ts directly. tsx loads it instead.
+ */
+
+import { register } from 'tsx/esm/api';
+
+register();
+const { runCli } = await import('../src/cli.ts');
+
+process.exitCode = runCli(process.argv.slice(2), {
+  out: line => console.log(line),
+  err: line => console.error(line),
+});
@@ -0,0 +1,208 @@
+/**
+ * Antibeaver Chunking - Token-budgeted synthesis
+ * A backlog too big for one prompt is condensed step by step, then merged
+ */
+
+import { escapeContent, formatSubmitInstructions, formatThoughtLine, generateSynthesisPrompt, synthesisVariables } from './core.ts';
+import type { BufferedThought, BuiltPrompt, SynthesisPromptOptions } from './core.ts';
+import { DEFAULT_SYNTHESIS_TEMPLATE, renderTemplate } from './templates.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type ChunkOrder = 'time' | 'priority';
+
+export interface SynthesisBudget {
+  /** Estimated prompt size above which synthesis is split into steps */
+  maxPromptTokens: number;
+  /** Group thoughts into steps oldest first, or most urgent first */
+  chunkBy: ChunkOrder;
+}
+
+export const DEFAULT_SYNTHESIS_BUDGET: SynthesisBudget = {
+  maxPromptTokens: 8000,
+  chunkBy: 'time',
+};
+
+const PRIORITY_RANK: Record<string, number> = { P0: 0, P1: 1, P2: 2 };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ESTIMATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Rough token count: UTF-8 bytes / 4. Close for English, conservative for
+ * everything else; no tokenizer dependency.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(new TextEncoder().encode(text).length / 4);
+}
+
+export function resolveSynthesisBudget(config: Partial<SynthesisBudget> = {}): SynthesisBudget {
+  const resolved = { ...DEFAULT_SYNTHESIS_BUDGET, ...config };
+  if (!(resolved.maxPromptTokens > 0)) resolved.maxPromptTokens = DEFAULT_SYNTHESIS_BUDGET.maxPromptTokens;
+  if (resolved.chunkBy !== 'priority') resolved.chunkBy = 'time';
+  return resolved;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PLANNING
+// ═══════════════════════════════════════════════════════════════════════════
+
+function byTime(a: BufferedThought, b: BufferedThought): number {
+  return a.created_at.localeCompare(b.created_at) || a.id - b.id;
+}
+
+/**
+ * Greedily pack non-critical thoughts into steps that each fit the budget.
+ * A thought too large for a step on its own gets a step to itself and is
+ * truncated in that step's prompt.
+ */
+export function planChunks(thoughts: BufferedThought[], budget: SynthesisBudget): BufferedThought[][] {
+  const ordered = [...thoughts].sort(budget.chunkBy === 'priority'
+    ? (a, b) => (PRIORITY_RANK[a.priority] ?? 1) - (PRIORITY_RANK[b.priority] ?? 1) || byTime(a, b)
+    : byTime);
+  const room = stepRoom(budget);
+
+  const chunks: BufferedThought[][] = [];
+  let current: BufferedThought[] = [];
+  let used = 0;
+  for (const t of ordered) {
+    const cost = estimateTokens(formatThoughtLine(t, current.length, true)) + 1;
+    if (current.length > 0 && used + cost > room) {
+      chunks.push(current);
+      current = [];
+      used = 0;
+    }
+    current.push(t);
+    used += cost;
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * The single prompt when it fits `maxPromptTokens`; otherwise the first
+ * condensing step and the plan for the rest. P0 thoughts never go into a
+ * step: they are carried verbatim into the merge prompt.
+ */
+export function buildSynthesisPrompt(
+  thoughts: BufferedThought[],
+  synthesisId: number,
+  budget: SynthesisBudget,
+  promptOptions: SynthesisPromptOptions = {}
+): BuiltPrompt {
+  const whole = generateSynthesisPrompt(thoughts, synthesisId, promptOptions);
+  if (estimateTokens(whole) <= budget.maxPromptTokens) return { prompt: whole };
+
+  const chunks = planChunks(thoughts.filter(t => t.priority !== 'P0'), planningBudget(thoughts, synthesisId, budget, promptOptions));
+  // Nothing but P0: verbatim beats the budget
+  if (chunks.length === 0) return { prompt: whole };
+
+  return {
+    prompt: generateChunkPrompt(chunks[0], 1, chunks.length, synthesisId, budget),
+    chunks: chunks.map(chunk => chunk.map(t => t.id)),
+  };
+}
+
+/**
+ * The budget left once the sections that come back in the merge are paid
+ * for: template wording, channel history, peers' thoughts, released output.
+ * Never below a quarter of the whole, so a long history can't reduce steps
+ * to one thought each.
+ */
+function planningBudget(
+  thoughts: BufferedThought[],
+  synthesisId: number,
+  budget: SynthesisBudget,
+  promptOptions: SynthesisPromptOptions
+): SynthesisBudget {
+  const fixed = estimateTokens(renderTemplate(promptOptions.template ?? DEFAULT_SYNTHESIS_TEMPLATE, {
+    ...synthesisVariables(thoughts, synthesisId, promptOptions),
+    thoughts: '',
+  }));
+  return { ...budget, maxPromptTokens: Math.max(budget.maxPromptTokens - fixed, Math.ceil(budget.maxPromptTokens / 4)) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROMPTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Tokens left for thought lines once the step's own wording is paid for */
+function stepRoom(budget: SynthesisBudget): number {
+  const overhead = estimateTokens(generateChunkPrompt([], 99, 99, 999999, { ...budget, maxPromptTokens: Infinity }));
+  return Math.max(1, budget.maxPromptTokens - overhead);
+}
+
+export function generateChunkPrompt(
+  thoughts: BufferedThought[],
+  step: number,
+  totalSteps: number,
+  synthesisId: number,
+  budget: SynthesisBudget
+): string {
+  const room = Number.isFinite(budget.maxPromptTokens) ? stepRoom(budget) : Infinity;
+  const formatted = thoughts.map((t, i) => {
+    const line = formatThoughtLine(t, i, true);
+    if (estimateTokens(line) <= room) return line;
+    // One huge thought: keep its start, say how much was cut
+    const keep = Math.max(0, room * 4 - 200);
+    return formatThoughtLine(t, i, true, `${t.content.slice(0, keep)}… [truncated ${t.content.length - keep} chars]`);
+  }).join('\n');
+
+  return `**SYSTEM: SYNTHESIS STEP ${step} of ${totalSteps}**
+
+Your buffer is too large to review at once. These are ${thoughts.length} of the messages you drafted while congested:
+
+${formatted}
+
+**TASK:** Condense them into brief notes: decisions, open questions, anything still true. Do not send anything to the channel.
+
+**THEN:** Call \`submit_synthesis\` with synthesisId ${synthesisId}, chunk ${step}, and your notes as output.`;
+}
+
+/**
+ * The last step: critical thoughts verbatim, plus the notes from every
+ * condensing step, reviewed together into one message. Channel history,
+ * peers' thoughts and earlier agents' output belong here, where the final
+ * message is decided. A configured template is rendered with the notes and
+ * critical thoughts as `{{thoughts}}`; the built-in one has its own merge wording.
+ */
+export function generateMergePrompt(
+  thoughts: BufferedThought[],
+  summaries: string[],
+  synthesisId: number,
+  options: SynthesisPromptOptions = {}
+): string {
+  const critical = thoughts.filter(t => t.priority === 'P0').sort(byTime);
+  const verbatim = critical.map((t, i) => formatThoughtLine(t, i, true)).join('\n');
+  const notes = summaries.map((s, i) => `Step ${i + 1}: "${escapeContent(s)}"`).join('\n');
+
+  if (options.template !== undefined && options.template !== DEFAULT_SYNTHESIS_TEMPLATE) {
+    const criticalPart = critical.length > 0 ? `**Critical thoughts (verbatim):**\n${verbatim}\n\n` : '';
+    return renderTemplate(options.template, {
+      ...synthesisVariables(thoughts, synthesisId, options),
+      thoughts: `${criticalPart}**Your notes from ${summaries.length} condensing step(s):**\n${notes}`,
+      // (×N) marks live on thought lines, and only the critical ones are left
+      collapsedNote: '',
+    });
+  }
+
+  const criticalSection = critical.length > 0
+    ? `\n**Critical thoughts (verbatim):**\n${verbatim}\n`
+    : '';
+
+  return `**SYSTEM: NETWORK RECOVERED**
+
+While congested, you drafted ${thoughts.length} messages, too many to review at once, so you condensed them in ${summaries.length} step(s).
+${criticalSection}
+**Your notes:**
+${notes}${options.channelHistory ?? ''}${options.peerThoughts ?? ''}${options.releasedOutputs ?? ''}
+
+**TASK:** Review against current channel state.
+- Discard obsolete/superseded points
+- Preserve critical thoughts unless clearly obsolete
+- Synthesize remaining into ONE coherent message
+- Do not apologize or mention delays${formatSubmitInstructions(synthesisId, options.outputMode)}`;
+}
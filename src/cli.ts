@@ -0,0 +1,309 @@
+#!/usr/bin/env -S node --experimental-strip-types --no-warnings
+/**
+ * Antibeaver CLI
+ *
+ * Operates directly on governance.db, so it keeps working when the gateway's
+ * Node loop is wedged. Flags written here are picked up by the running plugin.
+ *
+ * Usage:
+ *   antibeaver status
+ *   antibeaver list [--agent <id>]
+ *   antibeaver flush --agent <id> | --all
+ *   antibeaver purge [--agent <id>] --yes
+ *   antibeaver simulate --latency <ms>
+ *   antibeaver buffer on|off
+ *   antibeaver halt [--agent <id> | --channel <name>] [--reason <text>]
+ *   antibeaver resume [--agent <id> | --channel <name> | --all]
+ *
+ * Options:
+ *   --db <path>   Database file or directory (default: ~/.openclaw/antibeaver/governance.db)
+ *   --by <name>   Who is acting, for the audit trail (default: $USER)
+ */
+
+import { parseArgs } from 'node:util';
+import { pathToFileURL } from 'node:url';
+import * as fs from 'fs';
+import * as os from 'os';
+import {
+  ChannelHealth, CONTROL_KEYS, applyHalt, changedControlFlags, describeHaltScope, encodeControlValue,
+  formatStatusReport, parseDbTime, stateFromControlRecords, thresholdsFromControlRecords, validateAgentId, validateLatency,
+} from './core.ts';
+import type { HaltScope, SystemState } from './core.ts';
+import {
+  initDatabase, resolveDbPath, getAuditLog, getControlRows, getLastSynthesisAt, getWaitingHumanMessages, getPendingSummary, getRecentMetrics,
+  insertAudit, listPendingThoughts, purgePending, requestDrain, setControlValue,
+} from './db.ts';
+import type { DB } from './db.ts';
+import { LOOP_DETECTED } from './loops.ts';
+import { toHumanWaiting } from './humans.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface CliIO {
+  out(line: string): void;
+  err(line: string): void;
+}
+
+interface CliOptions {
+  agent?: string;
+  channel?: string;
+  all?: boolean;
+  yes?: boolean;
+  latency?: string;
+  reason?: string;
+  by: string;
+}
+
+const USAGE = `Usage: antibeaver <command> [options]
+
+Commands:
+  status                         Executive summary
+  list [--agent <id>]            Show pending thoughts
+  flush --agent <id> | --all     Ask the plugin to synthesize now
+  purge [--agent <id>] --yes     Discard pending thoughts without synthesis
+  simulate --latency <ms>        Simulate latency (0 turns it off)
+  buffer on|off                  Force buffering on or off
+  halt [--reason <text>]         Kill switch (--agent <id> or --channel <name> to scope it)
+  resume                         Lift the kill switch (--agent, --channel, or --all for every halt)
+
+Options:
+  --db <path>    Database file or directory (default: ~/.openclaw/antibeaver/governance.db)
+  --by <name>    Who is acting, recorded with each change (default: $USER)`;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HELPERS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** The CLI prints the same text as the chat commands, minus the markdown */
+function plain(text: string): string {
+  return text.replace(/\*\*/g, '').replace(/`/g, '');
+}
+
+function haltScope(opts: CliOptions): HaltScope {
+  if (opts.agent) return { kind: 'agent', id: opts.agent };
+  if (opts.channel) return { kind: 'channel', id: opts.channel };
+  return { kind: 'global' };
+}
+
+/** Persist only the flags that differ, so unrelated revisions aren't bumped */
+function writeControl(db: DB, next: SystemState, opts: CliOptions): void {
+  const current = stateFromControlRecords(getControlRows(db));
+  for (const flag of changedControlFlags(current, next)) {
+    setControlValue(db, CONTROL_KEYS[flag], encodeControlValue(flag, next), opts.by, opts.reason);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COMMANDS
+// ═══════════════════════════════════════════════════════════════════════════
+
+function status(db: DB, io: CliIO): number {
+  const rows = getControlRows(db);
+  const state = stateFromControlRecords(rows);
+  // As the plugin configured them, so this agrees with /buffer
+  const thresholds = thresholdsFromControlRecords(rows);
+
+  // Rebuild the health picture from the last minute of recorded samples
+  const health = new ChannelHealth(thresholds);
+  for (const row of getRecentMetrics(db, 60000)) {
+    const dest = row.channel ? { channel: row.channel, target: row.target ?? undefined } : undefined;
+    const ts = parseDbTime(row.recorded_at);
+    health.record(row.latency_ms, dest, ts);
+    if (row.queue_depth !== null) health.recordQueueDepth(row.queue_depth, dest, ts);
+  }
+
+  io.out(plain(formatStatusReport({
+    status: health.evaluate(undefined, state),
+    state,
+    thresholds,
+    channels: health.snapshot(state),
+    agents: getPendingSummary(db),
+    lastSynthesisAt: getLastSynthesisAt(db),
+    loops: getAuditLog(db, 5, LOOP_DETECTED).map(row => ({ at: row.created_at, detail: row.reason ?? '' })),
+    humans: getWaitingHumanMessages(db).map(toHumanWaiting),
+  })));
+  return 0;
+}
+
+function list(db: DB, io: CliIO, opts: CliOptions): number {
+  const thoughts = listPendingThoughts(db, opts.agent);
+  if (thoughts.length === 0) {
+    io.out('No pending thoughts.');
+    return 0;
+  }
+  for (const t of thoughts) {
+    const dest = t.target ? `${t.channel} → ${t.target}` : t.channel;
+    io.out(`#${t.id}  ${t.agent_id}  ${t.priority}  ${t.created_at}  ${dest}`);
+    io.out(`    ${t.content.replace(/\n/g, ' ').substring(0, 200)}`);
+  }
+  return 0;
+}
+
+function flush(db: DB, io: CliIO, opts: CliOptions): number {
+  const agentId = opts.all ? 'all' : opts.agent;
+  if (!agentId) {
+    io.err('flush needs --agent <id> or --all');
+    return 2;
+  }
+  requestDrain(db, agentId, opts.by);
+  io.out(`Drain requested for ${agentId}. The plugin will synthesize on its next poll.`);
+  return 0;
+}
+
+function purge(db: DB, io: CliIO, opts: CliOptions): number {
+  const scope = opts.agent ?? 'all agents';
+  if (!opts.yes) {
+    const count = listPendingThoughts(db, opts.agent).length;
+    io.err(`This discards ${count} pending thought(s) for ${scope} without synthesis. Re-run with --yes.`);
+    return 2;
+  }
+  const count = purgePending(db, opts.agent, opts.by, opts.reason ?? 'purged from CLI');
+  io.out(`Discarded ${count} pending thought(s) for ${scope}.`);
+  return 0;
+}
+
+function simulate(db: DB, io: CliIO, opts: CliOptions): number {
+  const ms = validateLatency(Number(opts.latency));
+  setControlValue(db, CONTROL_KEYS.simulatedLatencyMs, String(ms), opts.by, opts.reason);
+  io.out(ms > 0 ? `Simulating ${ms}ms latency.` : 'Simulation off.');
+  return 0;
+}
+
+function buffer(db: DB, io: CliIO, opts: CliOptions, mode: string | undefined): number {
+  if (mode !== 'on' && mode !== 'off') {
+    io.err('buffer needs on or off');
+    return 2;
+  }
+  setControlValue(db, CONTROL_KEYS.globalForcedBuffering, mode === 'on' ? '1' : '0', opts.by, opts.reason);
+  io.out(mode === 'on' ? 'Forced buffering ENABLED.' : 'Forced buffering DISABLED.');
+  return 0;
+}
+
+function halt(db: DB, io: CliIO, opts: CliOptions): number {
+  const scope = haltScope(opts);
+  writeControl(db, applyHalt(stateFromControlRecords(getControlRows(db)), scope, true), opts);
+  insertAudit(db, 'halt', describeHaltScope(scope), opts.by, opts.reason);
+  io.out(scope.kind === 'global'
+    ? `SYSTEM HALTED by ${opts.by}.`
+    : `Halted ${describeHaltScope(scope)} by ${opts.by}.`);
+  return 0;
+}
+
+function resume(db: DB, io: CliIO, opts: CliOptions): number {
+  const current = stateFromControlRecords(getControlRows(db));
+  if (opts.all) {
+    writeControl(db, { ...current, systemHalted: false, haltedAgents: [], haltedChannels: [] }, opts);
+    insertAudit(db, 'resume', 'everything', opts.by, opts.reason);
+    io.out(`All halts lifted by ${opts.by}.`);
+    return 0;
+  }
+
+  const scope = haltScope(opts);
+  writeControl(db, applyHalt(current, scope, false), opts);
+  insertAudit(db, 'resume', describeHaltScope(scope), opts.by, opts.reason);
+  io.out(scope.kind === 'global'
+    ? `Halt lifted by ${opts.by}.`
+    : `Resumed ${describeHaltScope(scope)} by ${opts.by}.`);
+  return 0;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ENTRY
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function runCli(argv: string[], io: CliIO): number {
+  let parsed;
+  try {
+    parsed = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        db: { type: 'string' },
+        by: { type: 'string' },
+        agent: { type: 'string' },
+        channel: { type: 'string' },
+        all: { type: 'boolean' },
+        yes: { type: 'boolean' },
+        latency: { type: 'string' },
+        reason: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (err) {
+    io.err(`${(err as Error).message}\n\n${USAGE}`);
+    return 2;
+  }
+
+  const { values, positionals } = parsed;
+  const [command, arg] = positionals;
+  if (!command || values.help) {
+    io.out(USAGE);
+    return command ? 0 : 2;
+  }
+
+  if (values.agent !== undefined && !validateAgentId(values.agent)) {
+    io.err(`Invalid agent ID: ${values.agent}`);
+    return 2;
+  }
+  if (values.channel !== undefined && !validateAgentId(values.channel)) {
+    io.err(`Invalid channel name: ${values.channel}`);
+    return 2;
+  }
+
+  const opts: CliOptions = {
+    agent: values.agent?.trim(),
+    channel: values.channel?.trim().toLowerCase(),
+    all: values.all,
+    yes: values.yes,
+    latency: values.latency,
+    reason: values.reason,
+    by: values.by ?? `cli:${process.env.USER ?? os.userInfo().username}`,
+  };
+
+  let db: DB;
+  try {
+    db = initDatabase(resolveDbPath(values.db ?? process.env.ANTIBEAVER_DB));
+  } catch (err) {
+    io.err(`Cannot open governance.db: ${err}`);
+    return 1;
+  }
+
+  try {
+    switch (command) {
+      case 'status': return status(db, io);
+      case 'list': return list(db, io, opts);
+      case 'flush': return flush(db, io, opts);
+      case 'purge': return purge(db, io, opts);
+      case 'simulate': return simulate(db, io, opts);
+      case 'buffer': return buffer(db, io, opts, arg);
+      case 'halt': return halt(db, io, opts);
+      case 'resume': return resume(db, io, opts);
+      default:
+        io.err(`Unknown command: ${command}\n\n${USAGE}`);
+        return 2;
+    }
+  } finally {
+    db.close();
+  }
+}
+
+// Run when executed directly (including through the npm bin symlink), not when imported
+function invokedPath(): string {
+  if (!process.argv[1]) return '';
+  try {
+    return pathToFileURL(fs.realpathSync(process.argv[1])).href;
+  } catch {
+    // argv[1] need not exist when something else imports this module
+    return '';
+  }
+}
+
+const invokedAs = invokedPath();
+if (import.meta.url === invokedAs) {
+  process.exitCode = runCli(process.argv.slice(2), {
+    out: line => console.log(line),
+    err: line => console.error(line),
+  });
+}
@@ -0,0 +1,227 @@
+/**
+ * Antibeaver Coordinator - Turn-taking when many agents drain at once
+ * One agent per channel at a time, most urgent first, each seeing what went before
+ */
+
+import { escapeContent } from './core.ts';
+import type { BufferedThought } from './core.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface DrainCandidate {
+  agentId: string;
+  p0: number;
+  /** created_at of the agent's oldest pending thought */
+  oldest: string;
+  channels: string[];
+}
+
+export interface CoordinatorConfig {
+  enabled: boolean;
+  /** Agent IDs in the order they should speak when P0 counts tie; unlisted agents go last */
+  roleOrder: string[];
+  /** Longest wait for an agent's submit_synthesis before the channel passes to the next agent */
+  turnGapMs: number;
+}
+
+export interface CoordinatorDeps {
+  /** Pending thoughts per agent, to plan the order and the channels each turn holds */
+  getPending(agentId: string): BufferedThought[];
+  /** Hand the agent its synthesis prompt; resolves to the thoughts handed over (0 = nothing to wait for) */
+  drain(agentId: string, force: boolean): Promise<number>;
+  logger?: { info(msg: string): void; warn(msg: string): void };
+}
+
+/** What an agent sent when its turn ended, for the agents after it */
+export interface ReleasedOutput {
+  agentId: string;
+  channels: string[];
+  output: string;
+}
+
+export const DEFAULT_COORDINATOR: CoordinatorConfig = {
+  enabled: true,
+  roleOrder: [],
+  turnGapMs: 30000,
+};
+
+export function resolveCoordinator(config: Partial<CoordinatorConfig> = {}): CoordinatorConfig {
+  const resolved = { ...DEFAULT_COORDINATOR, ...config };
+  if (!Array.isArray(resolved.roleOrder)) resolved.roleOrder = [];
+  if (!(resolved.turnGapMs >= 0)) resolved.turnGapMs = DEFAULT_COORDINATOR.turnGapMs;
+  return resolved;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// ORDER
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function toCandidate(agentId: string, pending: BufferedThought[]): DrainCandidate | null {
+  if (pending.length === 0) return null;
+  return {
+    agentId,
+    p0: pending.filter(t => t.priority === 'P0').length,
+    oldest: pending.map(t => t.created_at).sort()[0],
+    channels: [...new Set(pending.map(t => t.channel))].sort(),
+  };
+}
+
+/** Most P0 thoughts first, then `roleOrder`, then whoever has waited longest */
+export function planDrainOrder(candidates: DrainCandidate[], roleOrder: string[] = []): DrainCandidate[] {
+  const rank = (agentId: string) => {
+    const index = roleOrder.indexOf(agentId);
+    return index < 0 ? roleOrder.length : index;
+  };
+  return [...candidates].sort((a, b) =>
+    b.p0 - a.p0
+    || rank(a.agentId) - rank(b.agentId)
+    || a.oldest.localeCompare(b.oldest)
+    || a.agentId.localeCompare(b.agentId));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COORDINATOR
+// ═══════════════════════════════════════════════════════════════════════════
+
+interface Turn {
+  candidate: DrainCandidate;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Runs a drain round. An agent's turn holds every channel it has thoughts
+ * for; it ends when the agent acknowledges (submit_synthesis) or after
+ * `turnGapMs`. Agents with no channel in common take turns side by side,
+ * but nobody overtakes an earlier agent on a shared channel.
+ */
+export class DrainCoordinator {
+  private deps: CoordinatorDeps;
+  private config: CoordinatorConfig;
+  private queue: DrainCandidate[] = [];
+  private force = false;
+  private active = new Map<string, Turn>();
+  private released: ReleasedOutput[] = [];
+
+  constructor(deps: CoordinatorDeps, config: CoordinatorConfig) {
+    this.deps = deps;
+    this.config = config;
+  }
+
+  /**
+   * Queue agents for a round, or add them to the running one. Returns the
+   * agents newly queued, in turn order.
+   */
+  start(agents: string[], force = false): string[] {
+    if (!this.isRunning()) {
+      this.released = [];
+      this.force = false;
+    }
+    this.force ||= force;
+
+    const known = new Set([...this.queue.map(c => c.agentId), ...this.active.keys()]);
+    const candidates = agents
+      .filter(agentId => !known.has(agentId))
+      .map(agentId => toCandidate(agentId, this.deps.getPending(agentId)))
+      .filter((c): c is DrainCandidate => c !== null);
+    const ordered = planDrainOrder(candidates, this.config.roleOrder);
+    this.queue.push(...ordered);
+    this.pump();
+    return ordered.map(c => c.agentId);
+  }
+
+  /** The agent's synthesis is in: record what it sent and pass its channels on */
+  acknowledge(agentId: string, output: string): boolean {
+    const turn = this.active.get(agentId);
+    if (!turn) return false;
+    this.released.push({ agentId, channels: turn.candidate.channels, output });
+    this.endTurn(agentId);
+    return true;
+  }
+
+  /** What agents before this one released on the channels it is about to speak in */
+  releasedFor(agentId: string): ReleasedOutput[] {
+    const mine = this.active.get(agentId)?.candidate.channels ?? [];
+    return this.released.filter(r => r.agentId !== agentId && r.channels.some(c => mine.includes(c)));
+  }
+
+  /** Agents holding the floor, then agents waiting, in order */
+  getOrder(): { active: string[]; waiting: string[] } {
+    return { active: [...this.active.keys()], waiting: this.queue.map(c => c.agentId) };
+  }
+
+  isRunning(): boolean {
+    return this.queue.length > 0 || this.active.size > 0;
+  }
+
+  cancel(): void {
+    for (const turn of this.active.values()) if (turn.timer) clearTimeout(turn.timer);
+    this.active.clear();
+    this.queue = [];
+  }
+
+  private pump(): void {
+    const held = new Set([...this.active.values()].flatMap(turn => turn.candidate.channels));
+    const waiting: DrainCandidate[] = [];
+    for (const candidate of this.queue) {
+      const blocked = candidate.channels.some(c => held.has(c));
+      // Blocked or not, later agents on these channels wait behind this one
+      for (const c of candidate.channels) held.add(c);
+      if (blocked) {
+        waiting.push(candidate);
+      } else {
+        this.active.set(candidate.agentId, { candidate, timer: null });
+        void this.beginTurn(candidate);
+      }
+    }
+    this.queue = waiting;
+  }
+
+  private async beginTurn(candidate: DrainCandidate): Promise<void> {
+    const { agentId } = candidate;
+    let handed = 0;
+    try {
+      handed = await this.deps.drain(agentId, this.force);
+    } catch (err) {
+      this.deps.logger?.warn(`[antibeaver] Turn for ${agentId} failed: ${err}`);
+    }
+
+    const turn = this.active.get(agentId);
+    // Acknowledged or cancelled while the prompt was on its way
+    if (!turn || turn.candidate !== candidate) return;
+    if (handed === 0) {
+      this.endTurn(agentId);
+      return;
+    }
+
+    this.deps.logger?.info(`[antibeaver] ${agentId} has the floor on ${candidate.channels.join(', ')}`);
+    turn.timer = setTimeout(() => {
+      this.deps.logger?.info(`[antibeaver] ${agentId} did not report back within ${this.config.turnGapMs}ms; passing its turn on`);
+      this.endTurn(agentId);
+    }, this.config.turnGapMs);
+    turn.timer.unref?.();
+  }
+
+  private endTurn(agentId: string): void {
+    const turn = this.active.get(agentId);
+    if (!turn) return;
+    if (turn.timer) clearTimeout(turn.timer);
+    this.active.delete(agentId);
+    this.pump();
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROMPT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Prompt section for `{{released}}`: empty with nothing released, otherwise
+ * starting with a blank line like the other notes.
+ */
+export function formatReleasedOutputs(released: ReleasedOutput[]): string {
+  if (released.length === 0) return '';
+  const lines = released.map(r => `- ${r.agentId} [${escapeContent(r.channels.join(', '))}]: "${escapeContent(r.output)}"`);
+  return `\n\n**Already sent since recovery, by agents before you; build on it, don't repeat it:**\n${lines.join('\n')}`;
+}
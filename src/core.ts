@@ -3,6 +3,11 @@
  * Extracted for testability
  */
 
+import { DEFAULT_SYNTHESIS_TEMPLATE, renderTemplate } from './templates.ts';
+import type { TemplateVariables } from './templates.ts';
+import { formatBucketLevel } from './ratelimit.ts';
+import type { BucketLevel } from './ratelimit.ts';
+
 // ═══════════════════════════════════════════════════════════════════════════
 // TYPES
 // ═══════════════════════════════════════════════════════════════════════════
@@ -15,24 +20,218 @@ export interface BufferedThought {
   content: string;
   priority: 'P0' | 'P1' | 'P2';
   created_at: string;
+  /**
+   * pending → synthesizing → synthesized | discarded; back to pending if synthesis times out.
+   * Taken out of the buffer early: dropped, collapsed, superseded, retracted, expired,
+   * or discarded by a purge. Every move is logged in `thought_transitions`.
+   */
   status: string;
+  synthesis_event_id?: number | null;
+  /** Near-duplicates folded into this thought instead of being stored */
+  duplicate_count?: number;
+  /** Why an intercepted send was held back, e.g. `rate_limited`; null for buffer_thought */
+  buffer_reason?: string | null;
+}
+
+/** A synthesis prompt, plus the step plan when the backlog was too big for one */
+export interface BuiltPrompt {
+  prompt: string;
+  /** Thought IDs per condensing step; absent for a single-prompt synthesis */
+  chunks?: number[][];
 }
 
+/** `channelHistory` is a formatted prompt section, fetched before the synthesis began */
+export type PromptBuilder = (eventId: number, thoughts: BufferedThought[], channelHistory?: string) => string | BuiltPrompt;
+
+/** Thoughts moved to `synthesizing` under one synthesis event */
+export interface SynthesisBatch {
+  eventId: number;
+  agentId: string;
+  thoughts: BufferedThought[];
+  /** The first prompt: the whole synthesis, or step 1 of `chunks` */
+  prompt: string;
+  chunks?: number[][];
+}
+
+/** What the agent reports back through `submit_synthesis` */
+export interface SynthesisSubmission {
+  synthesisId: number;
+  output: string;
+  kept: number[];
+  discarded: number[];
+  /** Set when `output` is the notes for one condensing step, not the final message */
+  chunk?: number;
+  /** How `output` was read: a parsed JSON envelope, or free text */
+  format?: SynthesisOutputMode;
+  /** Why each discarded thought was dropped, from the JSON envelope */
+  reasons?: Record<number, string>;
+}
+
+/** Minutes a pending thought of each priority may wait; 0 = forever */
+export type ThoughtTtl = Record<'P0' | 'P1' | 'P2', number>;
+
+/** Free text, or a JSON envelope naming kept and discarded thoughts */
+export type SynthesisOutputMode = 'text' | 'json';
+
 export interface LatencySample {
   ts: number;
   latencyMs: number;
 }
 
+/** Summary of a tracker's window. All zero when the window is empty. */
+export interface LatencyStats {
+  samples: number;
+  meanMs: number;
+  /** Exponentially weighted, so recent samples count for more */
+  ewmaMs: number;
+  p50Ms: number;
+  p95Ms: number;
+  p99Ms: number;
+  maxMs: number;
+  /** Least-squares trend over the window, in ms of latency per second */
+  slopeMsPerSec: number;
+}
+
+export interface PredictionConfig {
+  enabled: boolean;
+  /** How far ahead to project the trend */
+  horizonMs: number;
+  /** Below this many samples a trend is noise */
+  minSamples: number;
+  /** EWMA smoothing factor in (0, 1]; higher follows recent samples more closely */
+  alpha: number;
+}
+
+export interface LatencyPrediction {
+  projectedMs: number;
+  ewmaMs: number;
+  slopeMsPerSec: number;
+  horizonMs: number;
+}
+
+export type GovernanceMode = 'HEALTHY' | 'DEGRADED' | 'CRITICAL';
+
+export interface GovernanceThresholds {
+  degradedMs: number;
+  criticalMs: number;
+  drainMs: number;
+  recoveryHoldMs: number;
+  /** Outbound queue depth, judged alongside latency */
+  queueDegradedDepth: number;
+  queueCriticalDepth: number;
+  /** Recovery also needs the queue at or below this depth */
+  queueDrainDepth: number;
+}
+
 export interface BufferStatus {
   buffering: boolean;
   reason: string;
   latencyMs: number;
+  mode: GovernanceMode;
+  modeSince: number;
+  timeInStateMs: number;
+  /** Latest reported queue depth, if any */
+  queueDepth?: number;
+  /** The oldest unacknowledged operator message, when that is what holds the send */
+  humanWaitingId?: number;
+}
+
+export interface Destination {
+  channel: string;
+  target?: string;
+}
+
+export interface ChannelHealthRow {
+  channel: string;
+  target: string;
+  mode: GovernanceMode;
+  buffering: boolean;
+  reason: string;
+  avgLatencyMs: number;
+  p50LatencyMs: number;
+  p95LatencyMs: number;
+  p99LatencyMs: number;
+  maxLatencyMs: number;
+  trendMsPerSec: number;
+  /** Latest reported depth; null if nobody reports it for this channel */
+  queueDepth: number | null;
+  queueTrendPerMin: number;
+  samples: number;
+  timeInStateMs: number;
+}
+
+export interface AgentPendingSummary {
+  agentId: string;
+  count: number;
+  p0: number;
+}
+
+/** An operator message no agent has acknowledged; see `human_messages` */
+export interface HumanWaiting extends Destination {
+  id: number;
+  senderId: string;
+  content: string;
+  receivedAt: string;
+}
+
+export interface StatusReport {
+  status: BufferStatus;
+  state: SystemState;
+  thresholds: GovernanceThresholds;
+  channels: ChannelHealthRow[];
+  agents: AgentPendingSummary[];
+  lastSynthesisAt: string | null;
+  /** Token buckets in use; only the running plugin has them */
+  rateLimits?: BucketLevel[];
+  /** Recent `loop_detected` audit entries, newest first */
+  loops?: { at: string; detail: string }[];
+  /** Unacknowledged operator messages, oldest first */
+  humans?: HumanWaiting[];
 }
 
+export interface AgentContext {
+  agentId?: string;
+  sessionKey?: string;
+  messageChannel?: string;
+}
+
+export interface AgentIdentityConfig {
+  defaultAgentId: string;
+  /** Session key or channel → agent ID, for runtimes that don't expose the ID */
+  agentMap: Record<string, string>;
+}
+
+export type ControlFlag = 'globalForcedBuffering' | 'simulatedLatencyMs' | 'systemHalted' | 'haltedAgents' | 'haltedChannels';
+
+export interface ControlAudit {
+  setBy: string;
+  setAt: string;
+  reason: string | null;
+}
+
+/**
+ * Operator controls. Persisted one row per flag in `control_state`, so a
+ * restart never silently lifts a halt.
+ */
 export interface SystemState {
   globalForcedBuffering: boolean;
   simulatedLatencyMs: number;
   systemHalted: boolean;
+  /** Scoped halts; absent means none */
+  haltedAgents?: string[];
+  haltedChannels?: string[];
+  /** Who last changed each flag, when and why */
+  audit?: Partial<Record<ControlFlag, ControlAudit>>;
+}
+
+export type HaltScope =
+  | { kind: 'global' }
+  | { kind: 'agent'; id: string }
+  | { kind: 'channel'; id: string };
+
+export interface HaltTransition {
+  scope: HaltScope;
+  halted: boolean;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
@@ -47,10 +246,10 @@ export class LatencyTracker {
     this.maxSamples = maxSamples;
   }
 
-  record(latencyMs: number): void {
+  record(latencyMs: number, ts = Date.now()): void {
     // Clamp negative values to 0
     const clamped = Math.max(0, latencyMs);
-    this.samples.push({ ts: Date.now(), latencyMs: clamped });
+    this.samples.push({ ts, latencyMs: clamped });
     if (this.samples.length > this.maxSamples) {
       this.samples.shift();
     }
@@ -70,6 +269,55 @@ export class LatencyTracker {
     return Math.max(...recent.map(s => s.latencyMs));
   }
 
+  /** Most recent sample in the window, if any */
+  getLatest(windowMs = 60000): number | undefined {
+    return this.recent(windowMs).at(-1)?.latencyMs;
+  }
+
+  /** Nearest-rank percentile, `p` in [0, 100] */
+  getPercentile(p: number, windowMs = 60000, fallback = 0): number {
+    const sorted = this.recent(windowMs).map(s => s.latencyMs).sort((a, b) => a - b);
+    if (sorted.length === 0) return fallback;
+    const rank = Math.ceil((Math.min(100, Math.max(0, p)) / 100) * sorted.length);
+    return sorted[Math.max(0, rank - 1)];
+  }
+
+  getEwma(windowMs = 60000, alpha = DEFAULT_PREDICTION.alpha, fallback = 0): number {
+    const recent = this.recent(windowMs);
+    if (recent.length === 0) return fallback;
+    return recent.slice(1).reduce((ewma, s) => alpha * s.latencyMs + (1 - alpha) * ewma, recent[0].latencyMs);
+  }
+
+  /** Least-squares slope in ms per second; 0 with fewer than two distinct timestamps */
+  getSlope(windowMs = 60000): number {
+    const recent = this.recent(windowMs);
+    if (recent.length < 2) return 0;
+    const t0 = recent[0].ts;
+    const xs = recent.map(s => (s.ts - t0) / 1000);
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = recent.reduce((sum, s) => sum + s.latencyMs, 0) / recent.length;
+    let num = 0;
+    let den = 0;
+    recent.forEach((s, i) => {
+      num += (xs[i] - meanX) * (s.latencyMs - meanY);
+      den += (xs[i] - meanX) ** 2;
+    });
+    return den === 0 ? 0 : num / den;
+  }
+
+  getStats(windowMs = 60000, alpha = DEFAULT_PREDICTION.alpha): LatencyStats {
+    return {
+      samples: this.recent(windowMs).length,
+      meanMs: this.getAverage(windowMs),
+      ewmaMs: this.getEwma(windowMs, alpha),
+      p50Ms: this.getPercentile(50, windowMs),
+      p95Ms: this.getPercentile(95, windowMs),
+      p99Ms: this.getPercentile(99, windowMs),
+      maxMs: this.getMax(windowMs),
+      slopeMsPerSec: this.getSlope(windowMs),
+    };
+  }
+
   getSampleCount(): number {
     return this.samples.length;
   }
@@ -85,48 +333,440 @@ export class LatencyTracker {
       this.samples.shift();
     }
   }
+
+  /** Samples inside the window, oldest first */
+  private recent(windowMs: number): LatencySample[] {
+    const now = Date.now();
+    return this.samples.filter(s => now - s.ts < windowMs).sort((a, b) => a.ts - b.ts);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PREDICTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_PREDICTION: PredictionConfig = {
+  enabled: false,
+  horizonMs: 30000,
+  minSamples: 5,
+  alpha: 0.3
+};
+
+export function resolvePrediction(config: Partial<PredictionConfig> = {}): PredictionConfig {
+  const resolved = { ...DEFAULT_PREDICTION, ...config };
+  if (!(resolved.alpha > 0 && resolved.alpha <= 1)) resolved.alpha = DEFAULT_PREDICTION.alpha;
+  resolved.horizonMs = Math.max(0, resolved.horizonMs);
+  resolved.minSamples = Math.max(2, resolved.minSamples);
+  return resolved;
+}
+
+/**
+ * Project latency `horizonMs` ahead: the EWMA plus the window's trend.
+ * Null when disabled, short on samples, or not trending upward.
+ */
+export function predictLatency(tracker: LatencyTracker, config: PredictionConfig, windowMs = 60000): LatencyPrediction | null {
+  if (!config.enabled) return null;
+  const stats = tracker.getStats(windowMs, config.alpha);
+  if (stats.samples < config.minSamples || stats.slopeMsPerSec <= 0) return null;
+  return {
+    projectedMs: stats.ewmaMs + stats.slopeMsPerSec * (config.horizonMs / 1000),
+    ewmaMs: stats.ewmaMs,
+    slopeMsPerSec: stats.slopeMsPerSec,
+    horizonMs: config.horizonMs
+  };
+}
+
+export function describePrediction(prediction: LatencyPrediction, limitMs: number): string {
+  return `predicted ${Math.round(prediction.projectedMs)}ms within ${Math.round(prediction.horizonMs / 1000)}s > ${limitMs}ms`
+    + ` (trend +${Math.round(prediction.slopeMsPerSec)}ms/s, ewma ${Math.round(prediction.ewmaMs)}ms)`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// GOVERNANCE STATE MACHINE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_THRESHOLDS: GovernanceThresholds = {
+  degradedMs: 5000,
+  criticalMs: 30000,
+  drainMs: 3000,
+  recoveryHoldMs: 30000,
+  queueDegradedDepth: 20,
+  queueCriticalDepth: 40,
+  queueDrainDepth: 5
+};
+
+const modeSeverity: Record<GovernanceMode, number> = { HEALTHY: 0, DEGRADED: 1, CRITICAL: 2 };
+
+export function resolveThresholds(threshold: number | Partial<GovernanceThresholds>): GovernanceThresholds {
+  const partial = typeof threshold === 'number' ? { degradedMs: threshold } : threshold;
+  const resolved = { ...DEFAULT_THRESHOLDS, ...partial };
+  // Critical can never sit below degraded, drain never above it
+  resolved.criticalMs = Math.max(resolved.criticalMs, resolved.degradedMs);
+  resolved.drainMs = Math.min(resolved.drainMs, resolved.degradedMs);
+  resolved.queueCriticalDepth = Math.max(resolved.queueCriticalDepth, resolved.queueDegradedDepth);
+  resolved.queueDrainDepth = Math.min(resolved.queueDrainDepth, resolved.queueDegradedDepth);
+  return resolved;
+}
+
+/**
+ * Stateless classification of a single latency reading.
+ */
+export function classifyLatency(latencyMs: number, thresholds: GovernanceThresholds): GovernanceMode {
+  if (latencyMs > thresholds.criticalMs) return 'CRITICAL';
+  if (latencyMs > thresholds.degradedMs) return 'DEGRADED';
+  return 'HEALTHY';
+}
+
+export function classifyQueueDepth(depth: number, thresholds: GovernanceThresholds): GovernanceMode {
+  if (depth > thresholds.queueCriticalDepth) return 'CRITICAL';
+  if (depth > thresholds.queueDegradedDepth) return 'DEGRADED';
+  return 'HEALTHY';
+}
+
+function worstMode(a: GovernanceMode, b: GovernanceMode): GovernanceMode {
+  return modeSeverity[a] >= modeSeverity[b] ? a : b;
+}
+
+/**
+ * HEALTHY → DEGRADED → CRITICAL with hysteresis.
+ *
+ * Escalation is immediate. De-escalation is not: CRITICAL steps down to
+ * DEGRADED once latency is back under the degraded threshold, and nothing
+ * returns to HEALTHY until latency has stayed below the drain threshold for
+ * `recoveryHoldMs`. One good sample is not a recovery. Queue depth is judged
+ * the same way; whichever of the two is worse sets the mode.
+ */
+export class GovernanceStateMachine {
+  private mode: GovernanceMode = 'HEALTHY';
+  private since: number;
+  private belowDrainSince: number | null = null;
+  private thresholds: GovernanceThresholds;
+
+  constructor(thresholds: Partial<GovernanceThresholds> = {}, now = Date.now()) {
+    this.thresholds = resolveThresholds(thresholds);
+    this.since = now;
+  }
+
+  evaluate(latencyMs: number, now = Date.now(), queueDepth = 0): GovernanceMode {
+    const { drainMs, degradedMs, recoveryHoldMs, queueDegradedDepth, queueDrainDepth } = this.thresholds;
+    const observed = worstMode(classifyLatency(latencyMs, this.thresholds), classifyQueueDepth(queueDepth, this.thresholds));
+
+    if (modeSeverity[observed] > modeSeverity[this.mode]) {
+      this.transition(observed, now);
+      return this.mode;
+    }
+
+    if (this.mode === 'HEALTHY') return this.mode;
+
+    // The hold towards HEALTHY starts from DEGRADED, never from CRITICAL
+    if (this.mode === 'CRITICAL' && latencyMs <= degradedMs && queueDepth <= queueDegradedDepth) {
+      this.transition('DEGRADED', now);
+    }
+
+    if (latencyMs < drainMs && queueDepth <= queueDrainDepth) {
+      this.belowDrainSince ??= now;
+      if (now - this.belowDrainSince >= recoveryHoldMs) {
+        this.transition('HEALTHY', now);
+      }
+      return this.mode;
+    }
+
+    this.belowDrainSince = null;
+    return this.mode;
+  }
+
+  getMode(): GovernanceMode {
+    return this.mode;
+  }
+
+  getSince(): number {
+    return this.since;
+  }
+
+  getTimeInState(now = Date.now()): number {
+    return Math.max(0, now - this.since);
+  }
+
+  getThresholds(): GovernanceThresholds {
+    return { ...this.thresholds };
+  }
+
+  reset(now = Date.now()): void {
+    this.transition('HEALTHY', now);
+  }
+
+  private transition(mode: GovernanceMode, now: number): void {
+    this.belowDrainSince = null;
+    if (mode === this.mode) return;
+    this.mode = mode;
+    this.since = now;
+  }
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
 // BUFFER LOGIC
 // ═══════════════════════════════════════════════════════════════════════════
 
+/**
+ * Decide whether agents should buffer. Pass a `governor` to get hysteresis;
+ * without one each call is classified on its own. With `prediction` enabled,
+ * a rising trend projected past the degraded threshold enters DEGRADED early.
+ * `queueDepth` is the latest outbound queue depth, if anyone reports it.
+ */
 export function shouldBuffer(
   tracker: LatencyTracker,
-  threshold: number,
-  state: SystemState
+  threshold: number | Partial<GovernanceThresholds>,
+  state: SystemState,
+  governor?: GovernanceStateMachine,
+  prediction?: PredictionConfig,
+  queueDepth?: number
 ): BufferStatus {
   const { globalForcedBuffering, simulatedLatencyMs, systemHalted } = state;
+  const thresholds = resolveThresholds(threshold);
+  const now = Date.now();
+
+  const simulated = simulatedLatencyMs > thresholds.degradedMs;
+  const observedMs = simulated ? simulatedLatencyMs : tracker.getMax(60000, simulatedLatencyMs);
+  const forecast = prediction && !simulated ? predictLatency(tracker, prediction) : null;
+  const predicted = forecast !== null && observedMs <= thresholds.degradedMs && forecast.projectedMs > thresholds.degradedMs;
+  // A forecast can raise DEGRADED early but never escalate to CRITICAL on its own
+  const judgedMs = predicted ? Math.min(forecast.projectedMs, thresholds.criticalMs) : observedMs;
+  const depth = queueDepth ?? 0;
+  const mode = governor
+    ? governor.evaluate(judgedMs, now, depth)
+    : worstMode(classifyLatency(judgedMs, thresholds), classifyQueueDepth(depth, thresholds));
+  const modeSince = governor ? governor.getSince() : now;
+  const base = { mode, modeSince, timeInStateMs: now - modeSince, ...(queueDepth !== undefined ? { queueDepth } : {}) };
 
   if (systemHalted) {
-    return { buffering: true, reason: 'SYSTEM HALTED', latencyMs: 0 };
+    return { ...base, buffering: true, reason: 'SYSTEM HALTED', latencyMs: 0 };
   }
 
   if (globalForcedBuffering) {
-    return { buffering: true, reason: 'manual override', latencyMs: tracker.getAverage(60000, simulatedLatencyMs) };
+    return { ...base, buffering: true, reason: 'manual override', latencyMs: tracker.getAverage(60000, simulatedLatencyMs) };
+  }
+
+  if (mode === 'HEALTHY') {
+    return { ...base, buffering: false, reason: 'healthy', latencyMs: tracker.getAverage(60000, simulatedLatencyMs) };
+  }
+
+  const limit = mode === 'CRITICAL' && observedMs > thresholds.criticalMs
+    ? `${thresholds.criticalMs}ms (critical)`
+    : `${thresholds.degradedMs}ms`;
+
+  if (simulated) {
+    return { ...base, buffering: true, reason: `simulated ${simulatedLatencyMs}ms > ${limit}`, latencyMs: simulatedLatencyMs };
+  }
+
+  if (observedMs > thresholds.degradedMs) {
+    return { ...base, buffering: true, reason: `latency ${Math.round(observedMs)}ms > ${limit}`, latencyMs: observedMs };
+  }
+
+  if (depth > thresholds.queueDegradedDepth) {
+    const depthLimit = depth > thresholds.queueCriticalDepth
+      ? `${thresholds.queueCriticalDepth} (critical)`
+      : `${thresholds.queueDegradedDepth}`;
+    return { ...base, buffering: true, reason: `queue depth ${depth} > ${depthLimit}`, latencyMs: observedMs };
+  }
+
+  if (predicted) {
+    return { ...base, buffering: true, reason: describePrediction(forecast, thresholds.degradedMs), latencyMs: observedMs };
+  }
+
+  // Below threshold but still inside the hysteresis band
+  return {
+    ...base,
+    buffering: true,
+    reason: queueDepth !== undefined
+      ? `recovering: ${Math.round(observedMs)}ms, queue ${depth}, holding ${mode} until < ${thresholds.drainMs}ms and queue ≤ ${thresholds.queueDrainDepth} for ${thresholds.recoveryHoldMs}ms`
+      : `recovering: ${Math.round(observedMs)}ms, holding ${mode} until < ${thresholds.drainMs}ms for ${thresholds.recoveryHoldMs}ms`,
+    latencyMs: observedMs
+  };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CHANNEL HEALTH
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Key for samples recorded without a channel */
+export const ANY_CHANNEL = '*';
+
+interface HealthEntry {
+  channel: string;
+  target: string;
+  tracker: LatencyTracker;
+  /** Queue depth samples; the tracker doesn't care that they aren't milliseconds */
+  depth: LatencyTracker;
+  governor: GovernanceStateMachine;
+}
+
+function compareSeverity(a: BufferStatus, b: BufferStatus): number {
+  if (a.buffering !== b.buffering) return a.buffering ? 1 : -1;
+  const modeDiff = modeSeverity[a.mode] - modeSeverity[b.mode];
+  if (modeDiff !== 0) return modeDiff;
+  return a.latencyMs - b.latencyMs;
+}
+
+/**
+ * One latency window and state machine per channel, and per channel+target
+ * for samples tagged with a target. A destination is judged by the worst of
+ * its target and its channel-wide samples; destinations nobody has reported
+ * on fall back to the untagged (`*`) window.
+ */
+export class ChannelHealth {
+  private entries = new Map<string, HealthEntry>();
+  private thresholds: GovernanceThresholds;
+  private maxSamples: number;
+  private prediction: PredictionConfig;
+
+  constructor(thresholds: Partial<GovernanceThresholds> = {}, maxSamples = 100, prediction: Partial<PredictionConfig> = {}) {
+    this.thresholds = resolveThresholds(thresholds);
+    this.maxSamples = maxSamples;
+    this.prediction = resolvePrediction(prediction);
+    this.entry(ANY_CHANNEL, '');
+  }
+
+  record(latencyMs: number, dest?: Destination, ts = Date.now()): void {
+    const channel = normalizeChannel(dest?.channel);
+    const target = channel === ANY_CHANNEL ? '' : dest?.target?.trim() ?? '';
+    this.entry(channel, target).tracker.record(latencyMs, ts);
+  }
+
+  recordQueueDepth(depth: number, dest?: Destination, ts = Date.now()): void {
+    const channel = normalizeChannel(dest?.channel);
+    const target = channel === ANY_CHANNEL ? '' : dest?.target?.trim() ?? '';
+    this.entry(channel, target).depth.record(depth, ts);
+  }
+
+  /** Tracker for a channel (or channel+target), if it has ever reported */
+  getTracker(channel: string, target = ''): LatencyTracker | undefined {
+    return this.entries.get(healthKey(normalizeChannel(channel), target.trim()))?.tracker;
+  }
+
+  evaluate(dest: Destination | undefined, state: SystemState, agentId?: string): BufferStatus {
+    const statuses = this.entriesFor(dest).map(e => this.evaluateEntry(e, state));
+    const worst = statuses.reduce((w, s) => (compareSeverity(s, w) > 0 ? s : w));
+    // Scoped halts hold this agent or channel whatever the network is doing
+    const halt = state.systemHalted ? null : haltReason(state, agentId, dest?.channel);
+    return halt ? { ...worst, buffering: true, reason: halt } : worst;
+  }
+
+  snapshot(state: SystemState): ChannelHealthRow[] {
+    return [...this.entries.values()]
+      .filter(e => e.channel !== ANY_CHANNEL || e.tracker.getSampleCount() > 0 || e.depth.getSampleCount() > 0)
+      .map(e => {
+        const status = this.evaluateEntry(e, state);
+        const stats = e.tracker.getStats(60000, this.prediction.alpha);
+        const queueDepth = currentQueueDepth(e);
+        return {
+          channel: e.channel,
+          target: e.target,
+          mode: status.mode,
+          buffering: status.buffering,
+          reason: status.reason,
+          avgLatencyMs: Math.round(stats.meanMs),
+          p50LatencyMs: Math.round(stats.p50Ms),
+          p95LatencyMs: Math.round(stats.p95Ms),
+          p99LatencyMs: Math.round(stats.p99Ms),
+          maxLatencyMs: Math.round(stats.maxMs),
+          trendMsPerSec: Math.round(stats.slopeMsPerSec),
+          queueDepth: queueDepth ?? null,
+          queueTrendPerMin: queueDepth === undefined ? 0 : Math.round(e.depth.getSlope() * 60),
+          samples: e.tracker.getSampleCount(),
+          timeInStateMs: status.timeInStateMs
+        };
+      })
+      .sort((a, b) => a.channel.localeCompare(b.channel) || a.target.localeCompare(b.target));
+  }
+
+  private entriesFor(dest: Destination | undefined): HealthEntry[] {
+    if (!dest) return [...this.entries.values()];
+
+    const channel = normalizeChannel(dest.channel);
+    const target = dest.target?.trim() ?? '';
+    const matched = [healthKey(channel, target), healthKey(channel, '')]
+      .filter((key, i, keys) => keys.indexOf(key) === i)
+      .map(key => this.entries.get(key))
+      .filter((e): e is HealthEntry => e !== undefined);
+
+    return matched.length > 0 ? matched : [this.entry(ANY_CHANNEL, '')];
   }
 
-  if (simulatedLatencyMs > threshold) {
-    return { buffering: true, reason: `simulated ${simulatedLatencyMs}ms`, latencyMs: simulatedLatencyMs };
+  private evaluateEntry(entry: HealthEntry, state: SystemState): BufferStatus {
+    return shouldBuffer(entry.tracker, this.thresholds, state, entry.governor, this.prediction, currentQueueDepth(entry));
   }
 
-  const maxLatency = tracker.getMax(60000, simulatedLatencyMs);
-  if (maxLatency > threshold) {
-    return { buffering: true, reason: `latency ${Math.round(maxLatency)}ms > ${threshold}ms`, latencyMs: maxLatency };
+  private entry(channel: string, target: string): HealthEntry {
+    const key = healthKey(channel, target);
+    let entry = this.entries.get(key);
+    if (!entry) {
+      entry = {
+        channel,
+        target,
+        tracker: new LatencyTracker(this.maxSamples),
+        depth: new LatencyTracker(this.maxSamples),
+        governor: new GovernanceStateMachine(this.thresholds)
+      };
+      this.entries.set(key, entry);
+    }
+    return entry;
   }
+}
+
+/** Depth is a gauge: the latest report in the window, not the worst */
+function currentQueueDepth(entry: HealthEntry): number | undefined {
+  return entry.depth.getLatest();
+}
+
+function normalizeChannel(channel: string | undefined): string {
+  const trimmed = channel?.trim().toLowerCase();
+  return trimmed ? trimmed : ANY_CHANNEL;
+}
 
-  return { buffering: false, reason: 'healthy', latencyMs: tracker.getAverage(60000, simulatedLatencyMs) };
+function healthKey(channel: string, target: string): string {
+  return target ? `${channel}\u0000${target}` : channel;
 }
 
 // ═══════════════════════════════════════════════════════════════════════════
 // SYNTHESIS PROMPT
 // ═══════════════════════════════════════════════════════════════════════════
 
-export function generateSynthesisPrompt(thoughts: BufferedThought[]): string {
+export interface SynthesisPromptOptions {
+  /** A validated template; see `resolveTemplates` */
+  template?: string;
+  /** Reference point for `{{outageDuration}}` */
+  now?: number;
+  /** Ask for a JSON envelope instead of free text */
+  outputMode?: SynthesisOutputMode;
+  /** Recent channel messages, already formatted; see `formatChannelHistory` */
+  channelHistory?: string;
+  /** Other agents' pending thoughts, already formatted; see `formatPeerThoughts` */
+  peerThoughts?: string;
+  /** What agents earlier in the drain order sent; see `formatReleasedOutputs` */
+  releasedOutputs?: string;
+}
+
+/**
+ * With a `synthesisId` the prompt is part of a two-phase flush: thoughts are
+ * listed with their IDs and the agent is asked to report back.
+ */
+export function generateSynthesisPrompt(
+  thoughts: BufferedThought[],
+  synthesisId?: number,
+  options: SynthesisPromptOptions = {}
+): string {
   if (thoughts.length === 0) {
     return '**SYSTEM: No buffered thoughts to synthesize.**';
   }
+  return renderTemplate(options.template ?? DEFAULT_SYNTHESIS_TEMPLATE, synthesisVariables(thoughts, synthesisId, options));
+}
 
+/** Every template variable for a non-empty batch; `{{thoughts}}` lists them all */
+export function synthesisVariables(
+  thoughts: BufferedThought[],
+  synthesisId?: number,
+  options: SynthesisPromptOptions = {}
+): TemplateVariables {
   // Sort by priority (P0 first) then by time
   const priorityOrder: Record<string, number> = { P0: 0, P1: 1, P2: 2 };
   const sorted = [...thoughts].sort((a, b) => {
@@ -135,32 +775,60 @@ export function generateSynthesisPrompt(thoughts: BufferedThought[]): string {
     return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
   });
 
-  const formatted = sorted.map((t, i) => {
-    const tag = t.priority === 'P0' ? ' [CRITICAL]' : t.priority === 'P2' ? ' [low]' : '';
-    // Escape content for safe embedding
-    const escaped = escapeContent(t.content);
-    return `${i + 1}. [${t.created_at}]${tag} "${escaped}"`;
-  }).join('\n');
+  const formatted = sorted.map((t, i) => formatThoughtLine(t, i, synthesisId !== undefined)).join('\n');
 
   const p0Count = sorted.filter(t => t.priority === 'P0').length;
   const criticalNote = p0Count > 0 
     ? `\n\n**Note:** ${p0Count} CRITICAL thought(s) — preserve unless clearly obsolete.`
     : '';
+  const collapsed = sorted.reduce((sum, t) => sum + (t.duplicate_count ?? 0), 0);
+  const collapsedNote = collapsed > 0
+    ? `\n\n**Note:** ${collapsed} near-duplicate(s) collapsed; (×N) marks a thought drafted N times.`
+    : '';
+  const oldest = Math.min(...sorted.map(t => parseDbTime(t.created_at)).filter(Number.isFinite));
+  const channels = new Set(sorted.map(t => t.channel));
+
+  return {
+    thoughts: formatted,
+    count: String(thoughts.length + collapsed),
+    thoughtCount: String(thoughts.length),
+    p0Count: String(p0Count),
+    p0Note: criticalNote,
+    collapsedNote,
+    outageDuration: Number.isFinite(oldest) ? formatDuration((options.now ?? Date.now()) - oldest) : 'unknown',
+    agentId: sorted[0].agent_id,
+    channel: channels.size === 1 ? sorted[0].channel : 'several channels',
+    channelHistory: options.channelHistory ?? '',
+    peerThoughts: options.peerThoughts ?? '',
+    released: options.releasedOutputs ?? '',
+    submit: synthesisId !== undefined ? formatSubmitInstructions(synthesisId, options.outputMode) : '',
+  };
+}
 
-  return `**SYSTEM: NETWORK RECOVERED**
+/** One numbered prompt line; `content` overrides the thought's text, e.g. when truncated */
+export function formatThoughtLine(t: BufferedThought, index: number, showId: boolean, content = t.content): string {
+  const tag = t.priority === 'P0' ? ' [CRITICAL]' : t.priority === 'P2' ? ' [low]' : '';
+  // Escape content for safe embedding
+  const escaped = escapeContent(content);
+  const ref = showId ? ` #${t.id}` : '';
+  const repeats = t.duplicate_count ? ` (×${t.duplicate_count + 1})` : '';
+  return `${index + 1}.${ref} [${t.created_at}]${tag} "${escaped}"${repeats}`;
+}
 
-While congested, you drafted ${thoughts.length} messages:
+export function formatSubmitInstructions(synthesisId: number, mode: SynthesisOutputMode = 'text'): string {
+  if (mode === 'json') {
+    return `
 
-${formatted}
-${criticalNote}
+**THEN:** Call \`submit_synthesis\` with synthesisId ${synthesisId} and, as output, only this JSON (no prose, no code fence):
+{"message": "<the message you sent>", "kept_ids": [<#IDs folded into it>], "discarded_ids": [{"id": <#ID>, "reason": "<why it was dropped>"}]}
+Account for every #ID. Thoughts not reported back are returned to the buffer.`;
+  }
+  return `
 
-**TASK:** Review against current channel state.
-- Discard obsolete/superseded thoughts
-- Synthesize remaining into ONE coherent message
-- Do not apologize or mention delays`;
+**THEN:** Call \`submit_synthesis\` with synthesisId ${synthesisId}, the message you sent, and the #IDs you kept and discarded. Thoughts not reported back are returned to the buffer.`;
 }
 
-function escapeContent(content: string): string {
+export function escapeContent(content: string): string {
   // Escape quotes and newlines for safe embedding in prompt
   return content
     .replace(/\\/g, '\\\\')
@@ -168,6 +836,299 @@ function escapeContent(content: string): string {
     .replace(/\n/g, '\\n');
 }
 
+// ═══════════════════════════════════════════════════════════════════════════
+// CONTROL STATE
+// ═══════════════════════════════════════════════════════════════════════════
+
+export const DEFAULT_SYSTEM_STATE: SystemState = {
+  globalForcedBuffering: false,
+  simulatedLatencyMs: 0,
+  systemHalted: false
+};
+
+/** Keys in the `control_state` table */
+export const CONTROL_KEYS: Record<ControlFlag, string> = {
+  globalForcedBuffering: 'forced_buffering',
+  simulatedLatencyMs: 'simulated_latency_ms',
+  systemHalted: 'halted',
+  haltedAgents: 'halted_agents',
+  haltedChannels: 'halted_channels'
+};
+
+export interface ControlRecord {
+  key: string;
+  value: string;
+  set_by: string | null;
+  reason: string | null;
+  updated_at: string;
+}
+
+/** Not a flag: the plugin's configured thresholds, so the CLI judges health the same way */
+export const THRESHOLDS_KEY = 'thresholds';
+
+/** The thresholds the plugin last persisted, or the defaults */
+export function thresholdsFromControlRecords(rows: ControlRecord[]): GovernanceThresholds {
+  const row = rows.find(r => r.key === THRESHOLDS_KEY);
+  if (!row) return DEFAULT_THRESHOLDS;
+  try {
+    const parsed: unknown = JSON.parse(row.value);
+    return parsed && typeof parsed === 'object' ? resolveThresholds(parsed as Partial<GovernanceThresholds>) : DEFAULT_THRESHOLDS;
+  } catch {
+    return DEFAULT_THRESHOLDS;
+  }
+}
+
+export function encodeControlValue(flag: ControlFlag, state: SystemState): string {
+  const value = state[flag];
+  if (flag === 'haltedAgents' || flag === 'haltedChannels') return JSON.stringify([...(state[flag] ?? [])].sort());
+  return typeof value === 'boolean' ? (value ? '1' : '0') : String(value);
+}
+
+function decodeList(value: string): string[] {
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed.filter((v): v is string => typeof v === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Apply one persisted control row. Unknown keys are ignored so older
+ * plugins tolerate newer writers.
+ */
+export function applyControlRecord(state: SystemState, row: ControlRecord): SystemState {
+  const flag = (Object.keys(CONTROL_KEYS) as ControlFlag[]).find(f => CONTROL_KEYS[f] === row.key);
+  if (!flag) return state;
+
+  const value = flag === 'simulatedLatencyMs' ? validateLatency(Number(row.value))
+    : flag === 'haltedAgents' || flag === 'haltedChannels' ? decodeList(row.value)
+    : row.value === '1';
+  const audit: ControlAudit = { setBy: row.set_by ?? 'unknown', setAt: row.updated_at, reason: row.reason };
+  return { ...state, [flag]: value, audit: { ...state.audit, [flag]: audit } };
+}
+
+export function stateFromControlRecords(rows: ControlRecord[]): SystemState {
+  return rows.reduce(applyControlRecord, { ...DEFAULT_SYSTEM_STATE });
+}
+
+/** Flags whose value differs between two states */
+export function changedControlFlags(before: SystemState, after: SystemState): ControlFlag[] {
+  return (Object.keys(CONTROL_KEYS) as ControlFlag[])
+    .filter(f => encodeControlValue(f, before) !== encodeControlValue(f, after));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HALT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Parse `/halt` and `/resume` arguments: `[agent <id> | channel <name>] [reason]`.
+ * Returns null when a scope is named without a valid ID.
+ */
+export function parseHaltArgs(args: string): { scope: HaltScope; reason?: string } | null {
+  const words = args.trim().split(/\s+/).filter(Boolean);
+  const kind = words[0]?.toLowerCase();
+
+  if (kind === 'agent' || kind === 'channel') {
+    const id = validateAgentId(words[1]);
+    if (!id) return null;
+    return { scope: { kind, id: kind === 'channel' ? normalizeChannel(id) : id }, reason: words.slice(2).join(' ') || undefined };
+  }
+  return { scope: { kind: 'global' }, reason: words.join(' ') || undefined };
+}
+
+/** The state with one scope halted or resumed. Channels are stored the way `ChannelHealth` keys them. */
+export function applyHalt(state: SystemState, scope: HaltScope, halted: boolean): SystemState {
+  if (scope.kind === 'global') return { ...state, systemHalted: halted };
+
+  const field = scope.kind === 'agent' ? 'haltedAgents' : 'haltedChannels';
+  const key = (id: string) => (scope.kind === 'channel' ? normalizeChannel(id) : id);
+  const id = key(scope.id);
+  const others = (state[field] ?? []).filter(other => key(other) !== id);
+  return { ...state, [field]: halted ? [...others, id] : others };
+}
+
+/** Which scopes became halted or resumed between two states */
+export function haltTransitions(before: SystemState, after: SystemState): HaltTransition[] {
+  const transitions: HaltTransition[] = [];
+  if (before.systemHalted !== after.systemHalted) {
+    transitions.push({ scope: { kind: 'global' }, halted: after.systemHalted });
+  }
+  for (const kind of ['agent', 'channel'] as const) {
+    const field = kind === 'agent' ? 'haltedAgents' : 'haltedChannels';
+    const was = before[field] ?? [];
+    const now = after[field] ?? [];
+    for (const id of now) if (!was.includes(id)) transitions.push({ scope: { kind, id }, halted: true });
+    for (const id of was) if (!now.includes(id)) transitions.push({ scope: { kind, id }, halted: false });
+  }
+  return transitions;
+}
+
+/** Why this agent or channel is halted, or null if it isn't */
+export function haltReason(state: SystemState, agentId?: string, channel?: string): string | null {
+  if (state.systemHalted) return 'SYSTEM HALTED';
+  if (agentId && state.haltedAgents?.includes(agentId)) return `halted: agent ${agentId}`;
+  if (channel && state.haltedChannels?.some(c => normalizeChannel(c) === normalizeChannel(channel))) {
+    return `halted: channel ${normalizeChannel(channel)}`;
+  }
+  return null;
+}
+
+export function describeHaltScope(scope: HaltScope): string {
+  return scope.kind === 'global' ? 'all agents' : `${scope.kind} ${scope.id}`;
+}
+
+/** The `[SYSTEM HALT]` / `[SYSTEM RESUME]` notice broadcast to channels */
+export function formatHaltNotice(transition: HaltTransition, actor: string, reason?: string | null): string {
+  const tag = transition.halted ? '[SYSTEM HALT]' : '[SYSTEM RESUME]';
+  const verb = transition.halted ? 'suspended' : 'resumed';
+  const what = transition.scope.kind === 'global' ? 'All agent output' : `Output for ${describeHaltScope(transition.scope)}`;
+  return `${tag} ${what} ${verb} by ${actor}.${reason ? ` Reason: ${reason}` : ''}`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// AGENT IDENTITY
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Resolve the calling agent: explicit context ID, then the configured
+ * mapping, then the `agent:<id>:...` session key convention, then the default.
+ */
+export function resolveAgentId(ctx: AgentContext | undefined, config: AgentIdentityConfig): string {
+  const direct = validateAgentId(ctx?.agentId);
+  if (direct) return direct;
+
+  const sessionKey = ctx?.sessionKey;
+  if (sessionKey) {
+    const mapped = validateAgentId(config.agentMap[sessionKey]);
+    if (mapped) return mapped;
+    const parsed = validateAgentId(/^agent:([^:]+):/.exec(sessionKey)?.[1]);
+    if (parsed) return parsed;
+  }
+
+  if (ctx?.messageChannel) {
+    const mapped = validateAgentId(config.agentMap[ctx.messageChannel]);
+    if (mapped) return mapped;
+  }
+
+  return config.defaultAgentId;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FORMATTING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * SQLite `datetime('now')` is UTC without a zone marker; ISO strings pass through.
+ */
+export function parseDbTime(value: string): number {
+  const iso = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? `${value.replace(' ', 'T')}Z` : value;
+  return Date.parse(iso);
+}
+
+export function formatHealthRow(row: ChannelHealthRow): string {
+  const icon = row.mode === 'CRITICAL' ? '🚨' : row.buffering ? '⏸️' : '▶️';
+  const name = row.target ? `${row.channel} → ${row.target}` : row.channel;
+  const trend = row.trendMsPerSec !== 0 ? `, trend ${row.trendMsPerSec > 0 ? '+' : ''}${row.trendMsPerSec}ms/s` : '';
+  const queueTrend = row.queueTrendPerMin !== 0 ? ` (${row.queueTrendPerMin > 0 ? '+' : ''}${row.queueTrendPerMin}/min)` : '';
+  const queue = row.queueDepth !== null ? `, queue ${row.queueDepth}${queueTrend}` : '';
+  return `  • **${name}**: ${icon} ${row.mode} ${formatDuration(row.timeInStateMs)} — avg ${row.avgLatencyMs}ms, p95 ${row.p95LatencyMs}ms, max ${row.maxLatencyMs}ms${trend}${queue} (${row.samples} samples)`;
+}
+
+function formatControlLines(state: SystemState, now: number): string {
+  const active: [ControlFlag, string][] = [];
+  if (state.systemHalted) active.push(['systemHalted', 'Halt']);
+  if (state.globalForcedBuffering) active.push(['globalForcedBuffering', 'Forced buffering']);
+  if (state.haltedAgents?.length) active.push(['haltedAgents', `Halted agents: ${state.haltedAgents.join(', ')}`]);
+  if (state.haltedChannels?.length) active.push(['haltedChannels', `Halted channels: ${state.haltedChannels.join(', ')}`]);
+  if (state.simulatedLatencyMs > 0) active.push(['simulatedLatencyMs', `Simulating ${state.simulatedLatencyMs}ms`]);
+  if (active.length === 0) return '';
+
+  const lines = active.map(([flag, label]) => {
+    const audit = state.audit?.[flag];
+    if (!audit) return `  • ${label}`;
+    const why = audit.reason ? ` — ${audit.reason}` : '';
+    return `  • ${label}: set by ${audit.setBy} ${formatDuration(now - parseDbTime(audit.setAt))} ago${why}`;
+  });
+  return `\n**Controls:**\n${lines.join('\n')}\n`;
+}
+
+/**
+ * The status summary shared by `/buffer` and `antibeaver status`.
+ */
+export function formatStatusReport(report: StatusReport, now = Date.now()): string {
+  const { status, state, thresholds, channels, agents } = report;
+  const halted = state.systemHalted;
+  const total = agents.reduce((sum, a) => sum + a.count, 0);
+
+  const healthLines = channels.map(formatHealthRow);
+  const rateLines = report.rateLimits?.map(formatBucketLevel);
+  const humans = report.humans ?? [];
+  const humanLines = humans.map(h => {
+    const where = h.target ? `${h.channel} ${h.target}` : h.channel;
+    const content = h.content.length > 80 ? `${h.content.slice(0, 80)}…` : h.content;
+    return `  • #${h.id} ${h.senderId} on ${where}: "${content}"`;
+  });
+  const humanWaiting = humans.length > 0
+    ? `\n**🙋 Human waiting since ${humans[0].receivedAt} (${formatDuration(now - parseDbTime(humans[0].receivedAt))}):**\n${humanLines.join('\n')}\n`
+    : '';
+  const loopLines = (report.loops ?? []).map(l => `  • ${formatDuration(now - parseDbTime(l.at))} ago — ${l.detail}`);
+  const agentLines = agents.map(a => {
+    const high = a.p0 > 0 ? ` (${a.p0} high priority)` : '';
+    return `  • **${a.agentId}**: ${a.count} thoughts${high}`;
+  });
+
+  const lastSynthesis = report.lastSynthesisAt
+    ? `${formatDuration(now - parseDbTime(report.lastSynthesisAt))} ago`
+    : 'never';
+
+  return `📊 **Antibeaver Status**
+
+**Mode:** ${halted ? '🚨 HALTED' : status.buffering ? '⏸️ BUFFERING' : '▶️ NORMAL'}
+**State:** ${status.mode} for ${formatDuration(status.timeInStateMs)}
+**Reason:** ${status.reason}
+${humanWaiting}${formatControlLines(state, now)}
+**Queue Health:**
+  • Degraded: > ${thresholds.degradedMs}ms
+  • Critical: > ${thresholds.criticalMs}ms
+  • Drain: < ${thresholds.drainMs}ms for ${formatDuration(thresholds.recoveryHoldMs)}
+  • Queue depth: > ${thresholds.queueDegradedDepth} degraded, > ${thresholds.queueCriticalDepth} critical, ≤ ${thresholds.queueDrainDepth} to drain
+
+**Channel Health:**
+${healthLines.length > 0 ? healthLines.join('\n') : '  (no samples)'}
+${rateLines ? `\n**Rate Limits:**\n${rateLines.length > 0 ? rateLines.join('\n') : '  (no sends yet)'}\n` : ''}${loopLines.length > 0 ? `\n**Loops Detected:**\n${loopLines.join('\n')}\n` : ''}
+**Pending (${total} total):**
+${agentLines.length > 0 ? agentLines.join('\n') : '  (none)'}
+
+**Last synthesis:** ${lastSynthesis}`;
+}
+
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  const hours = Math.floor(minutes / 60);
+  return `${hours}h ${minutes % 60}m`;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LIFECYCLE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Low-priority chatter goes stale within the hour; nothing else expires unless configured */
+export const DEFAULT_TTL_MINUTES: ThoughtTtl = { P0: 0, P1: 0, P2: 60 };
+
+export function resolveTtl(config: Partial<ThoughtTtl> = {}): ThoughtTtl {
+  const resolved = { ...DEFAULT_TTL_MINUTES, ...config };
+  for (const priority of ['P0', 'P1', 'P2'] as const) {
+    const minutes = resolved[priority];
+    resolved[priority] = typeof minutes === 'number' && Number.isFinite(minutes) && minutes > 0 ? minutes : 0;
+  }
+  return resolved;
+}
+
 // ═══════════════════════════════════════════════════════════════════════════
 // VALIDATION
 // ═══════════════════════════════════════════════════════════════════════════
@@ -192,3 +1153,44 @@ export function validateLatency(latencyMs: unknown): number {
   if (!Number.isFinite(latencyMs)) return 0;
   return Math.max(0, Math.round(latencyMs));
 }
+
+/** Queue depth is optional: null when absent or not a number, otherwise a non-negative integer */
+export function validateQueueDepth(depth: unknown): number | null {
+  if (typeof depth !== 'number' || !Number.isFinite(depth)) return null;
+  return Math.max(0, Math.round(depth));
+}
+
+/**
+ * Validate `submit_synthesis` params. Returns an error message or the submission.
+ */
+export function validateSubmission(params: unknown): SynthesisSubmission | string {
+  const p = (params ?? {}) as Record<string, unknown>;
+  const synthesisId = Number(p.synthesisId);
+  if (!Number.isInteger(synthesisId) || synthesisId <= 0) return 'synthesisId must be a positive integer';
+
+  const output = validateThought(p.output);
+  if (output === null) return 'output must be a non-empty string';
+
+  const ids = (value: unknown): number[] | null => {
+    if (value === undefined) return [];
+    if (!Array.isArray(value)) return null;
+    const nums = value.map(Number);
+    return nums.every(n => Number.isInteger(n) && n > 0) ? nums : null;
+  };
+  const kept = ids(p.kept);
+  const discarded = ids(p.discarded);
+  if (!kept || !discarded) return 'kept and discarded must be arrays of thought IDs';
+  if (kept.some(id => discarded.includes(id))) return 'a thought cannot be both kept and discarded';
+
+  if (p.chunk === undefined) return { synthesisId, output, kept, discarded };
+  const chunk = Number(p.chunk);
+  if (!Number.isInteger(chunk) || chunk <= 0) return 'chunk must be a positive integer';
+  return { synthesisId, output, kept, discarded, chunk };
+}
+
+export function validateAgentId(agentId: unknown): string | null {
+  if (typeof agentId !== 'string') return null;
+  const trimmed = agentId.trim();
+  if (!/^[A-Za-z0-9_.-]{1,64}$/.test(trimmed)) return null;
+  return trimmed;
+}
@@ -0,0 +1,780 @@
+/**
+ * Antibeaver Database - governance.db schema and queries
+ * Shared by the plugin and the standalone CLI
+ */
+
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import type { AgentPendingSummary, BufferedThought, PromptBuilder, SynthesisBatch, SynthesisSubmission, ThoughtTtl } from './core.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type DB = Database.Database;
+
+export interface ControlRow {
+  key: string;
+  value: string;
+  set_by: string | null;
+  reason: string | null;
+  revision: number;
+  updated_at: string;
+}
+
+/** An operator's inbound message; agents stay buffered until one acknowledges it */
+export interface HumanMessageRow {
+  id: number;
+  sender_id: string;
+  channel: string;
+  target: string;
+  content: string;
+  priority: 'P0';
+  received_at: string;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+}
+
+export interface DrainRequest {
+  id: number;
+  agent_id: string;
+  requested_by: string | null;
+  requested_at: string;
+}
+
+export interface AuditRow {
+  id: number;
+  action: string;
+  scope: string;
+  actor: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface SynthesisEventRow {
+  id: number;
+  agent_id: string;
+  thoughts_count: number;
+  prompt: string | null;
+  final_output: string | null;
+  /** awaiting → completed, or failed/expired with its thoughts back to pending */
+  status: string;
+  kept_ids: string | null;
+  discarded_ids: string | null;
+  /** JSON thought ID arrays, one per condensing step; null if not split */
+  chunks: string | null;
+  /** JSON array of the agent's notes, one per finished step */
+  summaries: string | null;
+  /** 'json' when the reply parsed as an envelope, 'text' otherwise */
+  output_format: string | null;
+  /** JSON object of discarded thought ID → the agent's reason */
+  discard_reasons: string | null;
+  triggered_at: string;
+  completed_at: string | null;
+}
+
+/** Where a split synthesis stands after a step's notes come in */
+export interface ChunkProgress {
+  eventId: number;
+  /** Steps finished, including the one just submitted */
+  done: number;
+  total: number;
+  chunks: number[][];
+  summaries: string[];
+  /** Every thought still in the event */
+  thoughts: BufferedThought[];
+}
+
+/** One status change of one thought */
+export interface TransitionRow {
+  id: number;
+  thought_id: number;
+  /** null when the thought was first buffered */
+  from_status: string | null;
+  to_status: string;
+  /** Agent ID, operator, or 'antibeaver' for automatic moves */
+  actor: string;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface ExpiredSynthesis {
+  eventId: number;
+  agentId: string;
+  count: number;
+}
+
+export interface MetricRow {
+  latency_ms: number;
+  channel: string | null;
+  target: string | null;
+  queue_depth: number | null;
+  /** 1 for heartbeat probes, 0 for real traffic */
+  synthetic: number;
+  recorded_at: string;
+}
+
+export const DEFAULT_DB_PATH = '~/.openclaw/antibeaver/governance.db';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEMA
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Accepts either the database file or the directory holding it, with `~`.
+ */
+export function resolveDbPath(dbPath: string = DEFAULT_DB_PATH): string {
+  const expanded = dbPath.startsWith('~') ? path.join(os.homedir(), dbPath.slice(1)) : dbPath;
+  return expanded.endsWith('.db') ? expanded : path.join(expanded, 'governance.db');
+}
+
+export function initDatabase(dbPath: string): DB {
+  if (dbPath !== ':memory:') fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+
+  const database = new Database(dbPath);
+  database.pragma('journal_mode = WAL');
+  database.pragma('synchronous = NORMAL');
+  // The CLI and the plugin share this file; wait for each other briefly instead of failing
+  database.pragma('busy_timeout = 2000');
+
+  database.exec(`
+    CREATE TABLE IF NOT EXISTS buffered_thoughts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      agent_id TEXT NOT NULL,
+      channel TEXT NOT NULL,
+      target TEXT DEFAULT '',
+      content TEXT NOT NULL,
+      priority TEXT DEFAULT 'P1' CHECK(priority IN ('P0', 'P1', 'P2')),
+      created_at TEXT NOT NULL DEFAULT (datetime('now')),
+      status TEXT DEFAULT 'pending',
+      synthesis_event_id INTEGER,
+      duplicate_count INTEGER DEFAULT 0,
+      buffer_reason TEXT
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_pending
+      ON buffered_thoughts(agent_id, status)
+      WHERE status = 'pending';
+
+    CREATE TABLE IF NOT EXISTS network_metrics (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      latency_ms INTEGER NOT NULL,
+      queue_depth INTEGER,
+      channel TEXT,
+      target TEXT,
+      synthetic INTEGER DEFAULT 0,
+      recorded_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS synthesis_events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      agent_id TEXT NOT NULL,
+      thoughts_count INTEGER,
+      prompt TEXT,
+      final_output TEXT,
+      status TEXT DEFAULT 'completed',
+      kept_ids TEXT,
+      discarded_ids TEXT,
+      chunks TEXT,
+      summaries TEXT,
+      output_format TEXT,
+      discard_reasons TEXT,
+      triggered_at TEXT NOT NULL DEFAULT (datetime('now')),
+      completed_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS control_state (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      set_by TEXT,
+      reason TEXT,
+      revision INTEGER NOT NULL DEFAULT 1,
+      updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS drain_requests (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      agent_id TEXT NOT NULL,
+      requested_by TEXT,
+      requested_at TEXT NOT NULL DEFAULT (datetime('now')),
+      handled_at TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS thought_transitions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      thought_id INTEGER NOT NULL,
+      from_status TEXT,
+      to_status TEXT NOT NULL,
+      actor TEXT NOT NULL,
+      reason TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_transitions_thought
+      ON thought_transitions(thought_id);
+
+    CREATE TABLE IF NOT EXISTS human_messages (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sender_id TEXT NOT NULL,
+      channel TEXT NOT NULL,
+      target TEXT DEFAULT '',
+      content TEXT NOT NULL,
+      priority TEXT DEFAULT 'P0',
+      received_at TEXT NOT NULL DEFAULT (datetime('now')),
+      acknowledged_at TEXT,
+      acknowledged_by TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      action TEXT NOT NULL,
+      scope TEXT NOT NULL,
+      actor TEXT NOT NULL,
+      reason TEXT,
+      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    );
+  `);
+
+  // Columns added after 0.2.1
+  ensureColumn(database, 'network_metrics', 'channel', 'TEXT');
+  ensureColumn(database, 'network_metrics', 'target', 'TEXT');
+  ensureColumn(database, 'network_metrics', 'synthetic', 'INTEGER DEFAULT 0');
+  ensureColumn(database, 'buffered_thoughts', 'synthesis_event_id', 'INTEGER');
+  ensureColumn(database, 'buffered_thoughts', 'duplicate_count', 'INTEGER DEFAULT 0');
+  ensureColumn(database, 'buffered_thoughts', 'buffer_reason', 'TEXT');
+  // Events written before two-phase synthesis stored the prompt as final_output
+  ensureColumn(database, 'synthesis_events', 'prompt', 'TEXT');
+  ensureColumn(database, 'synthesis_events', 'status', "TEXT DEFAULT 'completed'");
+  ensureColumn(database, 'synthesis_events', 'kept_ids', 'TEXT');
+  ensureColumn(database, 'synthesis_events', 'discarded_ids', 'TEXT');
+  ensureColumn(database, 'synthesis_events', 'completed_at', 'TEXT');
+  ensureColumn(database, 'synthesis_events', 'chunks', 'TEXT');
+  ensureColumn(database, 'synthesis_events', 'summaries', 'TEXT');
+  ensureColumn(database, 'synthesis_events', 'output_format', 'TEXT');
+  ensureColumn(database, 'synthesis_events', 'discard_reasons', 'TEXT');
+
+  return database;
+}
+
+function ensureColumn(database: DB, table: string, column: string, definition: string): void {
+  const columns = database.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    database.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// THOUGHTS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function getPendingThoughts(db: DB | null, agentId: string): BufferedThought[] {
+  if (!db) return [];
+  return db.prepare(`
+    SELECT * FROM buffered_thoughts
+    WHERE agent_id = ? AND status = 'pending'
+    ORDER BY priority ASC, created_at ASC
+  `).all(agentId) as BufferedThought[];
+}
+
+export function getAllPendingAgents(db: DB | null): string[] {
+  if (!db) return [];
+  return (db.prepare(`
+    SELECT DISTINCT agent_id FROM buffered_thoughts WHERE status = 'pending'
+  `).all() as { agent_id: string }[]).map(r => r.agent_id);
+}
+
+/** Agents with pending thoughts buffered for this `buffer_reason` */
+export function getPendingAgentsByReason(db: DB | null, reason: string): string[] {
+  if (!db) return [];
+  return (db.prepare(`
+    SELECT DISTINCT agent_id FROM buffered_thoughts WHERE status = 'pending' AND buffer_reason = ?
+  `).all(reason) as { agent_id: string }[]).map(r => r.agent_id);
+}
+
+export function getPendingCount(db: DB | null, agentId?: string): number {
+  if (!db) return 0;
+  if (agentId) {
+    return (db.prepare(`
+      SELECT COUNT(*) as count FROM buffered_thoughts
+      WHERE agent_id = ? AND status = 'pending'
+    `).get(agentId) as { count: number }).count;
+  }
+  return (db.prepare(`
+    SELECT COUNT(*) as count FROM buffered_thoughts WHERE status = 'pending'
+  `).get() as { count: number }).count;
+}
+
+export function getPendingSummary(db: DB | null): AgentPendingSummary[] {
+  if (!db) return [];
+  return (db.prepare(`
+    SELECT agent_id, COUNT(*) as count, SUM(priority = 'P0') as p0
+    FROM buffered_thoughts WHERE status = 'pending'
+    GROUP BY agent_id ORDER BY agent_id
+  `).all() as { agent_id: string; count: number; p0: number }[])
+    .map(r => ({ agentId: r.agent_id, count: r.count, p0: r.p0 }));
+}
+
+export function listPendingThoughts(db: DB | null, agentId?: string): BufferedThought[] {
+  if (!db) return [];
+  if (agentId) return getPendingThoughts(db, agentId);
+  return db.prepare(`
+    SELECT * FROM buffered_thoughts WHERE status = 'pending'
+    ORDER BY agent_id ASC, priority ASC, created_at ASC
+  `).all() as BufferedThought[];
+}
+
+export function getThought(db: DB | null, id: number): BufferedThought | null {
+  if (!db) return null;
+  return (db.prepare(`SELECT * FROM buffered_thoughts WHERE id = ?`).get(id) as BufferedThought | undefined) ?? null;
+}
+
+/** `reason` says why an intercepted send was held back; null when the agent chose to buffer */
+export function insertThought(
+  db: DB | null,
+  agentId: string,
+  channel: string,
+  target: string,
+  content: string,
+  priority: string,
+  reason: string | null = null
+): number {
+  if (!db) return -1;
+  return db.transaction(() => {
+    const id = db.prepare(`
+      INSERT INTO buffered_thoughts (agent_id, channel, target, content, priority, buffer_reason)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `).run(agentId, channel, target || '', content, priority || 'P1', reason).lastInsertRowid as number;
+    logTransition(db, id, null, 'pending', agentId, reason);
+    return id;
+  })();
+}
+
+/**
+ * Take specific pending thoughts out of the buffer, e.g. to make room on
+ * overflow or on an operator's `/buffer drop`. Returns the number changed.
+ */
+export function dropThoughts(
+  db: DB | null,
+  ids: number[],
+  status: 'dropped' | 'collapsed' | 'superseded' | 'retracted',
+  actor = 'antibeaver',
+  reason: string | null = null
+): number {
+  if (!db) return 0;
+  return moveThoughts(db, ids, ['pending'], status, actor, reason).length;
+}
+
+/**
+ * Count a near-duplicate against a pending thought instead of storing it. The
+ * survivor keeps its wording and takes the higher of the two priorities; the
+ * duplicate's wording is kept in a pending → pending transition. Returns false
+ * if it is no longer pending.
+ */
+export function collapseThought(
+  db: DB | null,
+  id: number,
+  priority: 'P0' | 'P1' | 'P2',
+  content: string,
+  actor = 'antibeaver'
+): boolean {
+  if (!db) return false;
+  const rank = (['P0', 'P1', 'P2'] as const).includes(priority) ? priority : 'P1';
+  // 'P0' < 'P1' < 'P2', so MIN picks the more urgent
+  const extraSet = `, duplicate_count = COALESCE(duplicate_count, 0) + 1, priority = MIN(priority, '${rank}')`;
+  return moveThoughts(db, [id], ['pending'], 'pending', actor, `collapsed duplicate: "${content}"`, extraSet).length > 0;
+}
+
+/**
+ * Discard pending thoughts without synthesis. Returns the number discarded.
+ */
+export function purgePending(db: DB | null, agentId?: string, actor = 'antibeaver', reason: string | null = 'purged'): number {
+  if (!db) return 0;
+  const ids = listPendingThoughts(db, agentId).map(t => t.id);
+  return moveThoughts(db, ids, ['pending'], 'discarded', actor, reason).length;
+}
+
+/**
+ * The agent takes back one of its own pending thoughts. Returns the thought,
+ * or an error message.
+ */
+export function retractThought(db: DB | null, agentId: string, id: number, reason: string | null = null): BufferedThought | string {
+  if (!db) return 'storage unavailable';
+  return db.transaction(() => {
+    const error = checkOwnPending(getThought(db, id), agentId, id);
+    if (error) return error;
+    moveThoughts(db, [id], ['pending'], 'retracted', agentId, reason);
+    return getThought(db, id)!;
+  })();
+}
+
+/**
+ * Rewrite one of the agent's own pending thoughts in place, keeping its ID
+ * and place in the buffer. Logged as a pending → pending transition.
+ */
+export function amendThought(
+  db: DB | null,
+  agentId: string,
+  id: number,
+  changes: { content?: string; priority?: 'P0' | 'P1' | 'P2' }
+): BufferedThought | string {
+  if (!db) return 'storage unavailable';
+  return db.transaction(() => {
+    const thought = getThought(db, id);
+    const error = checkOwnPending(thought, agentId, id);
+    if (error) return error;
+    db.prepare(`UPDATE buffered_thoughts SET content = ?, priority = ? WHERE id = ?`)
+      .run(changes.content ?? thought!.content, changes.priority ?? thought!.priority, id);
+    const what = [changes.content !== undefined ? 'content' : null, changes.priority ? `priority ${thought!.priority} → ${changes.priority}` : null]
+      .filter(Boolean).join(', ');
+    logTransition(db, id, 'pending', 'pending', agentId, `amended ${what}`);
+    return getThought(db, id)!;
+  })();
+}
+
+function checkOwnPending(thought: BufferedThought | null, agentId: string, id: number): string | null {
+  // Another agent's ID reads the same as a missing one; nothing to learn by probing
+  if (!thought || thought.agent_id !== agentId) return `Thought #${id} not found`;
+  if (thought.status === 'synthesizing') return `Thought #${id} is already in synthesis #${thought.synthesis_event_id}`;
+  if (thought.status !== 'pending') return `Thought #${id} is already ${thought.status}`;
+  return null;
+}
+
+/**
+ * Expire pending thoughts older than their priority's TTL (0 = never).
+ * Returns the expired thoughts.
+ */
+export function expireThoughts(db: DB | null, ttlMinutes: ThoughtTtl): BufferedThought[] {
+  if (!db) return [];
+  return db.transaction(() => {
+    const expired: BufferedThought[] = [];
+    for (const priority of ['P0', 'P1', 'P2'] as const) {
+      const minutes = ttlMinutes[priority];
+      if (!(minutes > 0)) continue;
+      const stale = db.prepare(`
+        SELECT * FROM buffered_thoughts
+        WHERE status = 'pending' AND priority = ? AND created_at <= datetime('now', ?)
+      `).all(priority, `-${Math.round(minutes * 60)} seconds`) as BufferedThought[];
+      moveThoughts(db, stale.map(t => t.id), ['pending'], 'expired', 'antibeaver', `${priority} TTL ${minutes}m`);
+      expired.push(...stale);
+    }
+    return expired;
+  })();
+}
+
+export function getThoughtTransitions(db: DB | null, thoughtId: number): TransitionRow[] {
+  if (!db) return [];
+  return db.prepare(`SELECT * FROM thought_transitions WHERE thought_id = ? ORDER BY id ASC`).all(thoughtId) as TransitionRow[];
+}
+
+function logTransition(db: DB, id: number, from: string | null, to: string, actor: string, reason: string | null): void {
+  db.prepare(`
+    INSERT INTO thought_transitions (thought_id, from_status, to_status, actor, reason) VALUES (?, ?, ?, ?, ?)
+  `).run(id, from, to, actor, reason);
+}
+
+/**
+ * The one way a thought's status changes: move those of `ids` still in one
+ * of `from` to `to`, and log each move. `extraSet` is trusted SQL appended to
+ * the SET clause. Returns the IDs that moved.
+ */
+function moveThoughts(
+  db: DB,
+  ids: number[],
+  from: string[],
+  to: string,
+  actor: string,
+  reason: string | null,
+  extraSet = ''
+): number[] {
+  if (ids.length === 0) return [];
+  return db.transaction(() => {
+    const rows = db.prepare(`
+      SELECT id, status FROM buffered_thoughts
+      WHERE id IN (${ids.map(Number).join(',')}) AND status IN (${from.map(() => '?').join(',')})
+    `).all(...from) as { id: number; status: string }[];
+    if (rows.length === 0) return [];
+    db.prepare(`UPDATE buffered_thoughts SET status = ?${extraSet} WHERE id IN (${rows.map(r => r.id).join(',')})`).run(to);
+    for (const row of rows) logTransition(db, row.id, row.status, to, actor, reason);
+    return rows.map(r => r.id);
+  })();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SYNTHESIS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Phase one: move an agent's pending thoughts to `synthesizing` under a new
+ * event. The prompt is built inside the transaction so it can cite the event ID.
+ */
+export function beginSynthesis(
+  db: DB | null,
+  agentId: string,
+  buildPrompt: PromptBuilder
+): SynthesisBatch | null {
+  if (!db) return null;
+  return db.transaction(() => {
+    const thoughts = getPendingThoughts(db, agentId);
+    if (thoughts.length === 0) return null;
+
+    const eventId = db.prepare(`
+      INSERT INTO synthesis_events (agent_id, thoughts_count, status) VALUES (?, ?, 'awaiting')
+    `).run(agentId, thoughts.length).lastInsertRowid as number;
+    const built = buildPrompt(eventId, thoughts);
+    const { prompt, chunks } = typeof built === 'string' ? { prompt: built, chunks: undefined } : built;
+    db.prepare(`UPDATE synthesis_events SET prompt = ?, chunks = ? WHERE id = ?`)
+      .run(prompt, chunks ? JSON.stringify(chunks) : null, eventId);
+    moveThoughts(db, thoughts.map(t => t.id), ['pending'], 'synthesizing', 'antibeaver', `synthesis #${eventId}`, `, synthesis_event_id = ${Number(eventId)}`);
+
+    return { eventId, agentId, thoughts, prompt, ...(chunks ? { chunks } : {}) };
+  })();
+}
+
+/**
+ * Put an event's thoughts back to pending, e.g. when the prompt could not be
+ * delivered. Returns the number of thoughts returned.
+ */
+export function abandonSynthesis(db: DB | null, eventId: number, status: 'failed' | 'expired' = 'failed'): number {
+  if (!db) return 0;
+  return db.transaction(() => {
+    db.prepare(`UPDATE synthesis_events SET status = ?, completed_at = datetime('now') WHERE id = ? AND status = 'awaiting'`).run(status, eventId);
+    const ids = getSynthesisThoughtIds(db, eventId);
+    return moveThoughts(db, ids, ['synthesizing'], 'pending', 'antibeaver', `synthesis #${eventId} ${status}`, ', synthesis_event_id = NULL').length;
+  })();
+}
+
+/** Thoughts still held by an open synthesis event */
+export function getSynthesisThoughts(db: DB | null, synthesisId: number): BufferedThought[] {
+  if (!db) return [];
+  return db.prepare(`
+    SELECT * FROM buffered_thoughts WHERE synthesis_event_id = ? AND status = 'synthesizing' ORDER BY id ASC
+  `).all(synthesisId) as BufferedThought[];
+}
+
+/** The IDs a reply to this synthesis may cite */
+export function getSynthesisThoughtIds(db: DB | null, synthesisId: number): number[] {
+  return getSynthesisThoughts(db, synthesisId).map(t => t.id);
+}
+
+/**
+ * Phase two: record the agent's consolidated output. Discarded thoughts are
+ * marked discarded and the rest synthesized. Returns an error message if the
+ * submission doesn't match an open event of this agent.
+ */
+export function completeSynthesis(
+  db: DB | null,
+  agentId: string,
+  submission: SynthesisSubmission
+): { kept: number; discarded: number } | string {
+  if (!db) return 'storage unavailable';
+  const { synthesisId, output, kept, discarded, format = 'text', reasons } = submission;
+  return db.transaction(() => {
+    const event = getSynthesisEvent(db, synthesisId);
+    if (!event) return `Unknown synthesisId ${synthesisId}`;
+    if (event.agent_id !== agentId) return `Synthesis ${synthesisId} belongs to ${event.agent_id}`;
+    if (event.status !== 'awaiting') return `Synthesis ${synthesisId} is already ${event.status}`;
+    const chunks: number[][] = event.chunks ? JSON.parse(event.chunks) : [];
+    const summaries: string[] = event.summaries ? JSON.parse(event.summaries) : [];
+    if (summaries.length < chunks.length) {
+      return `Synthesis ${synthesisId} has ${chunks.length - summaries.length} condensing step(s) left; submit chunk ${summaries.length + 1} first`;
+    }
+
+    const ids = getSynthesisThoughtIds(db, synthesisId);
+    const stray = [...kept, ...discarded].find(id => !ids.includes(id));
+    if (stray !== undefined) return `Thought #${stray} is not part of synthesis ${synthesisId}`;
+
+    const dropped = ids.filter(id => discarded.includes(id));
+    const consolidated = ids.filter(id => !discarded.includes(id));
+    for (const id of dropped) {
+      moveThoughts(db, [id], ['synthesizing'], 'discarded', agentId, reasons?.[id] || `synthesis #${synthesisId}`);
+    }
+    moveThoughts(db, consolidated, ['synthesizing'], 'synthesized', agentId, `synthesis #${synthesisId}`);
+    db.prepare(`
+      UPDATE synthesis_events
+      SET status = 'completed', final_output = ?, kept_ids = ?, discarded_ids = ?,
+          output_format = ?, discard_reasons = ?, completed_at = datetime('now')
+      WHERE id = ?
+    `).run(output, JSON.stringify(kept), JSON.stringify(dropped), format, reasons ? JSON.stringify(reasons) : null, synthesisId);
+
+    return { kept: consolidated.length, discarded: dropped.length };
+  })();
+}
+
+/**
+ * Record the notes for one condensing step of a split synthesis, and store
+ * the next prompt (the next step, or the merge) built from the progress so far.
+ */
+export function submitChunkSummary(
+  db: DB | null,
+  agentId: string,
+  synthesisId: number,
+  chunk: number,
+  output: string,
+  buildNext: (progress: ChunkProgress) => string
+): { prompt: string; done: number; total: number } | string {
+  if (!db) return 'storage unavailable';
+  return db.transaction(() => {
+    const event = getSynthesisEvent(db, synthesisId);
+    if (!event) return `Unknown synthesisId ${synthesisId}`;
+    if (event.agent_id !== agentId) return `Synthesis ${synthesisId} belongs to ${event.agent_id}`;
+    if (event.status !== 'awaiting') return `Synthesis ${synthesisId} is already ${event.status}`;
+    if (!event.chunks) return `Synthesis ${synthesisId} was not split into steps; submit the final message without chunk`;
+
+    const chunks: number[][] = JSON.parse(event.chunks);
+    const summaries: string[] = event.summaries ? JSON.parse(event.summaries) : [];
+    if (summaries.length >= chunks.length) return `Synthesis ${synthesisId} has no condensing steps left; submit the final message without chunk`;
+    if (chunk !== summaries.length + 1) return `Synthesis ${synthesisId} expects chunk ${summaries.length + 1}, not ${chunk}`;
+
+    summaries.push(output);
+    const thoughts = getSynthesisThoughts(db, synthesisId);
+    const prompt = buildNext({ eventId: synthesisId, done: summaries.length, total: chunks.length, chunks, summaries, thoughts });
+    db.prepare(`UPDATE synthesis_events SET summaries = ?, prompt = ? WHERE id = ?`).run(JSON.stringify(summaries), prompt, synthesisId);
+
+    return { prompt, done: summaries.length, total: chunks.length };
+  })();
+}
+
+/**
+ * Return thoughts of events nobody answered within `timeoutMs` to pending.
+ */
+export function expireSyntheses(db: DB | null, timeoutMs: number): ExpiredSynthesis[] {
+  if (!db) return [];
+  const seconds = Math.max(0, Math.floor(timeoutMs / 1000));
+  const stale = db.prepare(`
+    SELECT id, agent_id FROM synthesis_events
+    WHERE status = 'awaiting' AND triggered_at <= datetime('now', ?)
+    ORDER BY id ASC
+  `).all(`-${seconds} seconds`) as { id: number; agent_id: string }[];
+  return stale.map(e => ({ eventId: e.id, agentId: e.agent_id, count: abandonSynthesis(db, e.id, 'expired') }));
+}
+
+export function getSynthesisEvent(db: DB | null, eventId: number): SynthesisEventRow | null {
+  if (!db) return null;
+  return (db.prepare(`SELECT * FROM synthesis_events WHERE id = ?`).get(eventId) as SynthesisEventRow | undefined) ?? null;
+}
+
+export function getLastSynthesisAt(db: DB | null): string | null {
+  if (!db) return null;
+  const row = db.prepare(`SELECT MAX(triggered_at) as at FROM synthesis_events`).get() as { at: string | null };
+  return row.at;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// METRICS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function insertMetric(
+  db: DB | null,
+  latencyMs: number,
+  channel?: string,
+  target?: string,
+  synthetic = false,
+  queueDepth: number | null = null
+): void {
+  if (!db) return;
+  db.prepare(`INSERT INTO network_metrics (latency_ms, channel, target, synthetic, queue_depth) VALUES (?, ?, ?, ?, ?)`)
+    .run(latencyMs, channel ?? null, target ?? null, synthetic ? 1 : 0, queueDepth);
+}
+
+export function getRecentMetrics(db: DB | null, windowMs: number): MetricRow[] {
+  if (!db) return [];
+  const seconds = Math.ceil(windowMs / 1000);
+  return db.prepare(`
+    SELECT latency_ms, queue_depth, channel, target, synthetic, recorded_at FROM network_metrics
+    WHERE recorded_at >= datetime('now', ?)
+    ORDER BY id ASC
+  `).all(`-${seconds} seconds`) as MetricRow[];
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONTROL
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function getControlRows(db: DB | null): ControlRow[] {
+  if (!db) return [];
+  return db.prepare(`SELECT * FROM control_state ORDER BY key`).all() as ControlRow[];
+}
+
+export function setControlValue(db: DB | null, key: string, value: string, setBy: string, reason?: string): void {
+  if (!db) return;
+  db.prepare(`
+    INSERT INTO control_state (key, value, set_by, reason) VALUES (?, ?, ?, ?)
+    ON CONFLICT(key) DO UPDATE SET
+      value = excluded.value,
+      set_by = excluded.set_by,
+      reason = excluded.reason,
+      revision = control_state.revision + 1,
+      updated_at = datetime('now')
+  `).run(key, value, setBy, reason ?? null);
+}
+
+export function requestDrain(db: DB | null, agentId: string, requestedBy: string): number {
+  if (!db) return -1;
+  const result = db.prepare(`INSERT INTO drain_requests (agent_id, requested_by) VALUES (?, ?)`).run(agentId, requestedBy);
+  return result.lastInsertRowid as number;
+}
+
+export function takeDrainRequests(db: DB | null): DrainRequest[] {
+  if (!db) return [];
+  return db.transaction(() => {
+    const rows = db.prepare(`
+      SELECT id, agent_id, requested_by, requested_at FROM drain_requests
+      WHERE handled_at IS NULL ORDER BY id ASC
+    `).all() as DrainRequest[];
+    if (rows.length > 0) {
+      db.prepare(`UPDATE drain_requests SET handled_at = datetime('now') WHERE id IN (${rows.map(r => r.id).join(',')})`).run();
+    }
+    return rows;
+  })();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HUMANS
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function insertHumanMessage(db: DB | null, senderId: string, channel: string, target: string, content: string): number {
+  if (!db) return -1;
+  return db.prepare(`
+    INSERT INTO human_messages (sender_id, channel, target, content) VALUES (?, ?, ?, ?)
+  `).run(senderId, channel, target || '', content).lastInsertRowid as number;
+}
+
+/** Operator messages no agent has acknowledged yet, oldest first */
+export function getWaitingHumanMessages(db: DB | null): HumanMessageRow[] {
+  if (!db) return [];
+  return db.prepare(`
+    SELECT * FROM human_messages WHERE acknowledged_at IS NULL ORDER BY received_at, id
+  `).all() as HumanMessageRow[];
+}
+
+/** Acknowledge these waiting messages, or every one when `ids` is omitted. Returns the IDs acknowledged. */
+export function acknowledgeHumanMessages(db: DB | null, by: string, ids?: number[]): number[] {
+  if (!db) return [];
+  return db.transaction(() => {
+    const waiting = getWaitingHumanMessages(db).map(m => m.id).filter(id => !ids || ids.includes(id));
+    const update = db.prepare(`
+      UPDATE human_messages SET acknowledged_at = datetime('now'), acknowledged_by = ? WHERE id = ? AND acknowledged_at IS NULL
+    `);
+    for (const id of waiting) update.run(by, id);
+    return waiting;
+  })();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// AUDIT
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function insertAudit(db: DB | null, action: string, scope: string, actor: string, reason?: string): void {
+  if (!db) return;
+  db.prepare(`INSERT INTO audit_log (action, scope, actor, reason) VALUES (?, ?, ?, ?)`).run(action, scope, actor, reason ?? null);
+}
+
+export function getAuditLog(db: DB | null, limit = 50, action?: string): AuditRow[] {
+  if (!db) return [];
+  if (action) {
+    return db.prepare(`SELECT * FROM audit_log WHERE action = ? ORDER BY id DESC LIMIT ?`).all(action, limit) as AuditRow[];
+  }
+  return db.prepare(`SELECT * FROM audit_log ORDER BY id DESC LIMIT ?`).all(limit) as AuditRow[];
+}
@@ -0,0 +1,148 @@
+/**
+ * Antibeaver Dedup - Collapse near-identical thoughts, supersede revised ones
+ * Character shingles and Jaccard similarity; no models, no dependencies
+ */
+
+import type { BufferedThought } from './core.ts';
+import type { IncomingThought } from './overflow.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface DedupConfig {
+  enabled: boolean;
+  /** Jaccard similarity in [0, 1] at or above which two thoughts are the same thought */
+  threshold: number;
+  /** Characters per shingle */
+  shingleSize: number;
+  /** Let "actually, …" / "scratch that" supersede the previous thought */
+  supersede: boolean;
+}
+
+export type DedupDecision =
+  | { action: 'insert' }
+  /** Revision: insert, and mark these earlier thoughts superseded */
+  | { action: 'supersede'; supersededIds: number[] }
+  /** Near-duplicate of a pending thought; count it there instead */
+  | { action: 'collapse'; duplicateOf: number; similarity: number };
+
+/** Off unless configured: folding a thought into another loses its wording */
+export const DEFAULT_DEDUP: DedupConfig = {
+  enabled: false,
+  threshold: 0.7,
+  shingleSize: 3,
+  supersede: true,
+};
+
+/** Openers an agent uses when it takes back what it just said */
+const REVISION_MARKERS = [
+  /^actually\b/,
+  /^correction\b/,
+  /^revis(?:ed|ion):/,
+  /^scratch that\b/,
+  /^never ?mind\b/,
+  /^ignore (?:my|the) (?:previous|last|earlier)\b/,
+  /^disregard (?:my|the) (?:previous|last|earlier)\b/,
+];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SIMILARITY
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function resolveDedup(config: Partial<DedupConfig> = {}): DedupConfig {
+  const resolved = { ...DEFAULT_DEDUP, ...config };
+  if (!(resolved.threshold > 0 && resolved.threshold <= 1)) resolved.threshold = DEFAULT_DEDUP.threshold;
+  resolved.shingleSize = Math.max(1, Math.floor(resolved.shingleSize) || DEFAULT_DEDUP.shingleSize);
+  return resolved;
+}
+
+/**
+ * Lowercase and strip punctuation, so "Retrying (attempt 2)…" and
+ * "retrying, attempt 2" compare equal. Digits are kept: they are usually the point.
+ */
+export function normalizeForSimilarity(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function shingles(text: string, size = DEFAULT_DEDUP.shingleSize): Set<string> {
+  const normalized = normalizeForSimilarity(text);
+  const result = new Set<string>();
+  if (normalized.length === 0) return result;
+  // Shorter than one shingle: the whole text is its only shingle
+  if (normalized.length <= size) return result.add(normalized);
+  for (let i = 0; i <= normalized.length - size; i++) {
+    result.add(normalized.slice(i, i + size));
+  }
+  return result;
+}
+
+/** |A ∩ B| / |A ∪ B|; two empty sets are identical */
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  for (const s of a) if (b.has(s)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+export function similarity(a: string, b: string, shingleSize = DEFAULT_DEDUP.shingleSize): number {
+  return jaccard(shingles(a, shingleSize), shingles(b, shingleSize));
+}
+
+/** The digit runs in order; "$100" and "$900", or ticket 123 and 456, are different thoughts */
+export function numbersIn(text: string): string {
+  return (text.match(/\d+/g) ?? []).join(' ');
+}
+
+export function isRevision(content: string): boolean {
+  const normalized = content.trim().toLowerCase();
+  return REVISION_MARKERS.some(marker => marker.test(normalized));
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PLANNING
+// ═══════════════════════════════════════════════════════════════════════════
+
+function sameDestination(a: IncomingThought | BufferedThought, b: IncomingThought | BufferedThought): boolean {
+  return a.channel === b.channel && (a.target || '') === (b.target || '');
+}
+
+/**
+ * Decide how a new thought relates to the agent's pending buffer. Only
+ * thoughts for the same destination are compared.
+ */
+export function planDedup(config: DedupConfig, pending: BufferedThought[], incoming: IncomingThought): DedupDecision {
+  if (!config.enabled) return { action: 'insert' };
+  const candidates = pending.filter(t => sameDestination(t, incoming));
+  if (candidates.length === 0) return { action: 'insert' };
+
+  // A revision replaces what came before it, even if the wording is nothing alike,
+  // but never a more urgent thought: a P2 "actually…" does not retire a P0
+  if (config.supersede && isRevision(incoming.content)) {
+    const previous = [...candidates].sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)[0];
+    if (previous.priority >= incoming.priority) return { action: 'supersede', supersededIds: [previous.id] };
+  }
+
+  const incomingShingles = shingles(incoming.content, config.shingleSize);
+  const incomingNumbers = numbersIn(incoming.content);
+  let best: { id: number; score: number } | null = null;
+  for (const t of candidates.filter(c => numbersIn(c.content) === incomingNumbers)) {
+    const score = jaccard(incomingShingles, shingles(t.content, config.shingleSize));
+    if (score >= config.threshold && (!best || score > best.score)) best = { id: t.id, score };
+  }
+  return best ? { action: 'collapse', duplicateOf: best.id, similarity: best.score } : { action: 'insert' };
+}
+
+export function describeDedup(decision: DedupDecision): string {
+  switch (decision.action) {
+    case 'insert': return 'new thought';
+    case 'supersede': return `supersedes #${decision.supersededIds.join(', #')}`;
+    case 'collapse': return `collapsed into #${decision.duplicateOf} (similarity ${decision.similarity.toFixed(2)})`;
+  }
+}
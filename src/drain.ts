@@ -0,0 +1,151 @@
+/**
+ * Antibeaver Drain - Automatic synthesis on recovery
+ * Watches buffer status and releases each agent's backlog once healthy
+ */
+
+import { generateSynthesisPrompt } from './core.ts';
+import type { BufferedThought, BufferStatus, PromptBuilder, SynthesisBatch } from './core.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface DrainDeps {
+  getPendingAgents(): string[];
+  /**
+   * Move the agent's pending thoughts to `synthesizing`; null if there are none.
+   * May be async, e.g. to fetch channel history for the prompt first.
+   */
+  beginSynthesis(agentId: string, buildPrompt: PromptBuilder): SynthesisBatch | null | Promise<SynthesisBatch | null>;
+  /** Hand the prompt back to the agent. Return false if it could not be delivered. */
+  deliver(agentId: string, prompt: string, thoughts: BufferedThought[]): boolean | Promise<boolean>;
+  /** Return an undelivered batch to pending */
+  abandonSynthesis(eventId: number): void;
+  /** Re-checked right before each agent drains; conditions may have changed during jitter. */
+  isHealthy(agentId: string): boolean;
+  logger?: { info(msg: string): void; warn(msg: string): void };
+}
+
+export interface DrainOptions {
+  maxJitterMs: number;
+  random?: () => number;
+  /** Defaults to the single synthesis prompt */
+  buildPrompt?: PromptBuilder;
+  /** Replaces per-agent jitter: the whole recovery round is handed over to take turns */
+  coordinator?: { start(agents: string[]): string[]; cancel(): void };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// JITTER
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function computeJitter(maxJitterMs: number, random: () => number = Math.random): number {
+  if (!Number.isFinite(maxJitterMs) || maxJitterMs <= 0) return 0;
+  return Math.floor(random() * maxJitterMs);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEDULER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Drains on the buffering → not-buffering edge. Each agent gets its own
+ * random delay so a recovered network isn't hit by every backlog at once;
+ * with a `coordinator`, agents take turns instead.
+ */
+export class DrainScheduler {
+  private deps: DrainDeps;
+  private maxJitterMs: number;
+  private random: () => number;
+  private buildPrompt: PromptBuilder;
+  private coordinator: DrainOptions['coordinator'];
+  private lastBuffering: boolean | null = null;
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(deps: DrainDeps, options: DrainOptions) {
+    this.deps = deps;
+    this.maxJitterMs = options.maxJitterMs;
+    this.random = options.random ?? Math.random;
+    this.coordinator = options.coordinator;
+    this.buildPrompt = options.buildPrompt
+      ?? ((eventId, thoughts, channelHistory) => generateSynthesisPrompt(thoughts, eventId, { channelHistory }));
+  }
+
+  observe(status: BufferStatus): void {
+    const recovered = this.lastBuffering === true && !status.buffering;
+    this.lastBuffering = status.buffering;
+
+    if (status.buffering) {
+      // Relapsed before the jitter elapsed: hold everything again
+      this.cancel();
+      return;
+    }
+
+    if (recovered) {
+      const scheduled = this.scheduleAll();
+      if (scheduled.length > 0) {
+        this.deps.logger?.info(`[antibeaver] Recovery detected. Draining ${scheduled.length} agent(s).`);
+      }
+    }
+  }
+
+  scheduleAll(): string[] {
+    if (this.coordinator) return this.coordinator.start(this.deps.getPendingAgents());
+    const scheduled: string[] = [];
+    for (const agentId of this.deps.getPendingAgents()) {
+      if (this.timers.has(agentId)) continue;
+      const delay = computeJitter(this.maxJitterMs, this.random);
+      const timer = setTimeout(() => {
+        this.timers.delete(agentId);
+        void this.drainAgent(agentId);
+      }, delay);
+      timer.unref?.();
+      this.timers.set(agentId, timer);
+      scheduled.push(agentId);
+    }
+    return scheduled;
+  }
+
+  /** `force` skips the health check, for operator-requested drains */
+  async drainAgent(agentId: string, force = false): Promise<number> {
+    if (!force && !this.deps.isHealthy(agentId)) {
+      this.deps.logger?.info(`[antibeaver] Drain for ${agentId} skipped: no longer healthy`);
+      return 0;
+    }
+
+    let batch: SynthesisBatch | null;
+    try {
+      batch = await this.deps.beginSynthesis(agentId, this.buildPrompt);
+    } catch (err) {
+      this.deps.logger?.warn(`[antibeaver] Drain for ${agentId} failed: ${err}`);
+      return 0;
+    }
+    if (!batch) return 0;
+
+    // Thoughts stay `synthesizing` until the agent calls submit_synthesis or the event times out
+    try {
+      const delivered = await this.deps.deliver(agentId, batch.prompt, batch.thoughts);
+      if (!delivered) {
+        this.deps.abandonSynthesis(batch.eventId);
+        return 0;
+      }
+    } catch (err) {
+      this.deps.logger?.warn(`[antibeaver] Drain for ${agentId} failed: ${err}`);
+      this.deps.abandonSynthesis(batch.eventId);
+      return 0;
+    }
+
+    this.deps.logger?.info(`[antibeaver] Drained ${batch.thoughts.length} thought(s) for ${agentId} (synthesis #${batch.eventId})`);
+    return batch.thoughts.length;
+  }
+
+  isScheduled(agentId: string): boolean {
+    return this.timers.has(agentId);
+  }
+
+  cancel(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    this.coordinator?.cancel();
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Antibeaver Envelope - Structured synthesis replies
+ * Read the agent's JSON envelope against the thoughts it was shown; free text if that fails
+ */
+
+import type { SynthesisOutputMode } from './core.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** What the JSON output mode asks the agent to send back */
+export interface SynthesisEnvelope {
+  message: string;
+  kept_ids: number[];
+  discarded_ids: { id: number; reason: string }[];
+}
+
+export type ParsedSynthesis =
+  | {
+      format: 'json';
+      message: string;
+      kept: number[];
+      discarded: number[];
+      reasons: Record<number, string>;
+      /** Shown to the agent but neither kept nor discarded */
+      unaccounted: number[];
+    }
+  /** Not a usable envelope: the whole reply is the message */
+  | { format: 'text'; message: string; error: string };
+
+export function resolveOutputMode(value: unknown): SynthesisOutputMode {
+  return value === 'json' ? 'json' : 'text';
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARSING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** The JSON object in a reply, tolerating a code fence or a sentence around it */
+function extractJson(raw: string): unknown {
+  const trimmed = raw.trim();
+  const fenced = /^```(?:json)?\s*([\s\S]*?)\s*```$/i.exec(trimmed);
+  const body = fenced ? fenced[1] : trimmed;
+  try {
+    return JSON.parse(body);
+  } catch {
+    const start = body.indexOf('{');
+    const end = body.lastIndexOf('}');
+    if (start < 0 || end <= start) throw new Error('no JSON object found');
+    return JSON.parse(body.slice(start, end + 1));
+  }
+}
+
+function isId(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Check the agent's reply against the thought IDs it was asked to review.
+ * Any problem (bad JSON, wrong shape, an ID it was never shown, an ID both
+ * kept and discarded) falls back to treating the reply as free text.
+ */
+export function parseSynthesisReply(raw: string, pendingIds: number[]): ParsedSynthesis {
+  const fallback = (error: string): ParsedSynthesis => ({ format: 'text', message: raw, error });
+
+  let parsed: unknown;
+  try {
+    parsed = extractJson(raw);
+  } catch (err) {
+    return fallback(`not JSON: ${err instanceof Error ? err.message : err}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    return fallback('expected a JSON object');
+  }
+
+  const envelope = parsed as Record<string, unknown>;
+  if (typeof envelope.message !== 'string' || envelope.message.trim().length === 0) {
+    return fallback('message must be a non-empty string');
+  }
+
+  const keptRaw = envelope.kept_ids ?? [];
+  if (!Array.isArray(keptRaw) || !keptRaw.every(isId)) {
+    return fallback('kept_ids must be an array of thought IDs');
+  }
+
+  const discardedRaw = envelope.discarded_ids ?? [];
+  if (!Array.isArray(discardedRaw)) return fallback('discarded_ids must be an array');
+  const reasons: Record<number, string> = {};
+  for (const entry of discardedRaw) {
+    // A bare ID is accepted; the reason is what makes the audit useful, but not worth losing the reply over
+    if (isId(entry)) {
+      reasons[entry] = '';
+    } else if (typeof entry === 'object' && entry !== null && isId((entry as { id?: unknown }).id)) {
+      const { id, reason } = entry as { id: number; reason?: unknown };
+      reasons[id] = typeof reason === 'string' ? reason.trim() : '';
+    } else {
+      return fallback('discarded_ids entries must be {"id", "reason"}');
+    }
+  }
+
+  const kept = [...new Set(keptRaw as number[])];
+  const discarded = Object.keys(reasons).map(Number);
+  const stray = [...kept, ...discarded].find(id => !pendingIds.includes(id));
+  if (stray !== undefined) return fallback(`thought #${stray} was not in this synthesis`);
+  const both = kept.find(id => discarded.includes(id));
+  if (both !== undefined) return fallback(`thought #${both} is both kept and discarded`);
+
+  return {
+    format: 'json',
+    message: envelope.message.trim(),
+    kept,
+    discarded,
+    reasons,
+    unaccounted: pendingIds.filter(id => !kept.includes(id) && !discarded.includes(id)),
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Antibeaver History - What the channel said while the agent was buffering
+ * Pulled from a pluggable provider so synthesis can reconcile against it
+ */
+
+import { escapeContent, parseDbTime } from './core.ts';
+import type { BufferedThought, Destination } from './core.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ChannelMessage extends Destination {
+  author: string;
+  content: string;
+  /** ISO timestamp */
+  postedAt: string;
+}
+
+/**
+ * Messages posted to `dest` at or after `sinceMs`, oldest first. Returning
+ * more than `limit` is allowed; only the last `limit` are used.
+ */
+export interface HistoryProvider {
+  fetchMessages(dest: Destination, sinceMs: number, limit: number): Promise<ChannelMessage[]>;
+  /** Providers that keep their own log are fed every message the plugin sees come in or go out */
+  post?(message: ChannelMessage): void;
+}
+
+export interface HistoryConfig {
+  enabled: boolean;
+  /** Messages per destination */
+  limit: number;
+  /** A slow provider must not hold up synthesis */
+  timeoutMs: number;
+  /** Longer messages are cut in the prompt */
+  maxMessageChars: number;
+}
+
+export const DEFAULT_HISTORY: HistoryConfig = {
+  enabled: true,
+  limit: 20,
+  timeoutMs: 5000,
+  maxMessageChars: 500,
+};
+
+export function resolveHistory(config: Partial<HistoryConfig> = {}): HistoryConfig {
+  const resolved = { ...DEFAULT_HISTORY, ...config };
+  resolved.limit = Math.max(1, Math.floor(resolved.limit) || DEFAULT_HISTORY.limit);
+  if (!(resolved.timeoutMs > 0)) resolved.timeoutMs = DEFAULT_HISTORY.timeoutMs;
+  if (!(resolved.maxMessageChars > 0)) resolved.maxMessageChars = DEFAULT_HISTORY.maxMessageChars;
+  return resolved;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// IN-MEMORY PROVIDER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Holds whatever is `post`ed, up to `maxMessages`, oldest dropped first. The
+ * plugin's own default; hosts can also push messages in.
+ */
+export class InMemoryHistoryProvider implements HistoryProvider {
+  private messages: ChannelMessage[] = [];
+  private maxMessages: number;
+
+  constructor(maxMessages = 1000) {
+    this.maxMessages = maxMessages;
+  }
+
+  post(message: ChannelMessage): void {
+    this.messages.push(message);
+    if (this.messages.length > this.maxMessages) this.messages.shift();
+  }
+
+  clear(): void {
+    this.messages = [];
+  }
+
+  async fetchMessages(dest: Destination, sinceMs: number, limit: number): Promise<ChannelMessage[]> {
+    return this.messages
+      .filter(m => sameDestination(m, dest) && parseDbTime(m.postedAt) >= sinceMs)
+      .sort((a, b) => parseDbTime(a.postedAt) - parseDbTime(b.postedAt))
+      .slice(-limit);
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// LOADING
+// ═══════════════════════════════════════════════════════════════════════════
+
+function sameDestination(a: Destination, b: Destination): boolean {
+  return a.channel === b.channel && (a.target || '') === (b.target || '');
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`timed out after ${timeoutMs}ms`)), timeoutMs);
+    timer.unref?.();
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * The last `limit` messages for every destination the thoughts were meant
+ * for, since the earliest of them was buffered. A destination whose fetch
+ * fails or times out is skipped and reported through `warn`.
+ */
+export async function loadChannelHistory(
+  provider: HistoryProvider,
+  thoughts: BufferedThought[],
+  config: HistoryConfig,
+  warn: (msg: string) => void = () => {}
+): Promise<ChannelMessage[]> {
+  if (!config.enabled || thoughts.length === 0) return [];
+  const sinceMs = Math.min(...thoughts.map(t => parseDbTime(t.created_at)).filter(Number.isFinite));
+  if (!Number.isFinite(sinceMs)) return [];
+
+  const destinations: Destination[] = [];
+  for (const t of thoughts) {
+    const dest = { channel: t.channel, target: t.target || undefined };
+    if (!destinations.some(d => sameDestination(d, dest))) destinations.push(dest);
+  }
+
+  const fetched = await Promise.all(destinations.map(async dest => {
+    try {
+      const messages = await withTimeout(provider.fetchMessages(dest, sinceMs, config.limit), config.timeoutMs);
+      return messages
+        .filter(m => sameDestination(m, dest) && parseDbTime(m.postedAt) >= sinceMs)
+        .slice(-config.limit);
+    } catch (err) {
+      warn(`[antibeaver] Channel history for ${dest.channel}${dest.target ? `/${dest.target}` : ''} unavailable: ${err}`);
+      return [];
+    }
+  }));
+  return fetched.flat();
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROMPT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Prompt section for `{{channelHistory}}`: empty with no messages, otherwise
+ * starting with a blank line like the other notes. Content is escaped the
+ * same way thoughts are.
+ */
+export function formatChannelHistory(messages: ChannelMessage[], maxMessageChars = DEFAULT_HISTORY.maxMessageChars): string {
+  if (messages.length === 0) return '';
+  const lines = [...messages]
+    .sort((a, b) => parseDbTime(a.postedAt) - parseDbTime(b.postedAt))
+    .map(m => {
+      const where = m.target ? `${m.channel} ${m.target}` : m.channel;
+      const content = m.content.length > maxMessageChars ? `${m.content.slice(0, maxMessageChars)}…` : m.content;
+      return `- [${m.postedAt}] [${escapeContent(where)}] ${escapeContent(m.author)}: "${escapeContent(content)}"`;
+    });
+  return `\n\n**Posted to the channel since your first draft (${messages.length}):**\n${lines.join('\n')}`;
+}
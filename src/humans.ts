@@ -0,0 +1,88 @@
+/**
+ * Antibeaver Humans - A priority lane for operator messages
+ * A human "STOP" must not wait at position 44 behind agent chatter
+ */
+
+import { validateThought } from './core.ts';
+import type { Destination, HumanWaiting } from './core.ts';
+import type { HumanMessageRow } from './db.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface HumanLaneConfig {
+  /** Sender IDs whose messages jump the queue; the `senderId` `requireAuth` commands see */
+  operatorIds: string[];
+  /** Buffer every agent until one acknowledges the message */
+  forceBuffering: boolean;
+}
+
+export interface InboundMessage extends Destination {
+  senderId: string;
+  content: string;
+}
+
+export const DEFAULT_HUMAN_LANE: HumanLaneConfig = {
+  operatorIds: [],
+  forceBuffering: true,
+};
+
+export function resolveHumanLane(config: Partial<HumanLaneConfig> = {}): HumanLaneConfig {
+  const resolved = { ...DEFAULT_HUMAN_LANE, ...config };
+  resolved.operatorIds = Array.isArray(resolved.operatorIds)
+    ? resolved.operatorIds.filter((id): id is string => typeof id === 'string' && id.length > 0)
+    : [];
+  return resolved;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// INBOUND
+// ═══════════════════════════════════════════════════════════════════════════
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim().length > 0 ? value : undefined;
+}
+
+/**
+ * Pull sender, destination and text out of a `message_received` event and
+ * its context. Returns null without a sender or text.
+ */
+export function extractInbound(event: unknown, ctx?: unknown): InboundMessage | null {
+  if (!event || typeof event !== 'object') return null;
+  const e = event as Record<string, unknown>;
+  const c = (ctx && typeof ctx === 'object' ? ctx : {}) as Record<string, unknown>;
+
+  const senderId = str(e.senderId) ?? str(e.from);
+  const content = validateThought(e.content ?? e.text ?? e.message);
+  if (!senderId || content === null) return null;
+
+  return {
+    senderId,
+    content,
+    channel: str(c.channelId) ?? str(e.channel) ?? 'unknown',
+    target: str(c.conversationId) ?? str(e.target) ?? str(e.to) ?? '',
+  };
+}
+
+export function isOperator(config: HumanLaneConfig, senderId: string): boolean {
+  return config.operatorIds.includes(senderId);
+}
+
+export function toHumanWaiting(row: HumanMessageRow): HumanWaiting {
+  return {
+    id: row.id,
+    senderId: row.sender_id,
+    channel: row.channel,
+    target: row.target,
+    content: row.content,
+    receivedAt: row.received_at,
+  };
+}
+
+/** The buffering reason while anyone is waiting; `waiting` is oldest first */
+export function describeHumanWaiting(waiting: HumanWaiting[]): string | null {
+  if (waiting.length === 0) return null;
+  const more = waiting.length > 1 ? ` (+${waiting.length - 1} more)` : '';
+  return `human waiting since ${waiting[0].receivedAt}: ${waiting[0].senderId}${more}`;
+}
@@ -0,0 +1,164 @@
+/**
+ * Antibeaver Interceptor - Transparent backpressure on outbound sends
+ * Wraps channel send tools so agents are buffered whether they opt in or not
+ */
+
+import { validatePriority, validateThought } from './core.ts';
+import type { AgentContext, BufferStatus } from './core.ts';
+import { RATE_LIMITED } from './ratelimit.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface InterceptedSend {
+  channel: string;
+  target: string;
+  content: string;
+  priority: 'P0' | 'P1' | 'P2';
+}
+
+export interface ToolResult {
+  content: { type: string; text: string }[];
+}
+
+export type ToolExecute = (toolCallId: string, params: unknown, ...rest: unknown[]) => Promise<ToolResult>;
+
+export interface InterceptorDeps {
+  shouldBuffer(send: InterceptedSend, agentId: string): BufferStatus;
+  /**
+   * Persist the message, with the status reason it was held back for. Return
+   * the row id, -1 if storage is unavailable, or a rejection when the agent's buffer is full.
+   */
+  bufferThought(agentId: string, send: InterceptedSend, reason: string): number | { rejected: string };
+  getAgentId(ctx?: AgentContext): string;
+  logger?: { info(msg: string): void; warn(msg: string): void };
+}
+
+export const DEFAULT_INTERCEPT_TOOLS = [
+  'message',
+  'sendMessage',
+  'slack:postMessage',
+  'telegram:sendMessage',
+];
+
+const PLATFORMS = ['slack', 'telegram', 'discord', 'whatsapp', 'signal', 'webchat'];
+const SEND_ACTIONS = ['send', 'reply', 'post', 'sendmessage', 'postmessage'];
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PARAM EXTRACTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+function str(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim().length > 0 ? value : undefined;
+}
+
+/**
+ * Pull channel/target/content out of a send tool's params.
+ * Returns null for calls that aren't sends (reactions, reads, edits...),
+ * which are always passed through untouched.
+ */
+export function extractSend(toolName: string, params: unknown): InterceptedSend | null {
+  if (!params || typeof params !== 'object') return null;
+  const p = params as Record<string, unknown>;
+
+  const action = str(p.action);
+  if (action && !SEND_ACTIONS.includes(action.toLowerCase())) return null;
+
+  const content = validateThought(p.message ?? p.text ?? p.content);
+  if (content === null) return null;
+
+  // 'slack:postMessage' style names carry the platform; Slack's own `channel` param is then the target
+  const prefix = toolName.split(/[:._]/)[0].toLowerCase();
+  const platform = PLATFORMS.includes(prefix) ? prefix : undefined;
+
+  const channel = platform ?? str(p.channel) ?? str(p.provider) ?? 'unknown';
+  const target = str(p.target) ?? str(p.to) ?? (platform ? str(p.channel) : undefined)
+    ?? str(p.chatId) ?? str(p.channelId) ?? '';
+
+  return { channel, target, content, priority: validatePriority(p.priority) };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// WRAPPER
+// ═══════════════════════════════════════════════════════════════════════════
+
+function bufferedNote(status: BufferStatus): string {
+  if (status.humanWaitingId !== undefined) {
+    return `A human operator is waiting (message #${status.humanWaitingId}). Thought saved locally. `
+      + `Read their message, then call acknowledge_human with id ${status.humanWaitingId}. Do not retry.`;
+  }
+  return status.reason === RATE_LIMITED
+    ? 'Sending too fast. Thought saved locally and sent with your next synthesis. Do not retry.'
+    : 'Network congested. Thought saved locally. Do not retry.';
+}
+
+export function bufferedResult(id: number, status: BufferStatus): ToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: true,
+        status: 'buffered',
+        id,
+        reason: status.reason,
+        ...(status.humanWaitingId !== undefined ? { humanWaitingId: status.humanWaitingId } : {}),
+        note: bufferedNote(status),
+      })
+    }]
+  };
+}
+
+export function rejectedResult(reason: string): ToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: JSON.stringify({
+        success: false,
+        status: 'rejected',
+        reason,
+        note: 'Network congested and your buffer is full. Message not sent. Do not retry; wait for synthesis.'
+      })
+    }]
+  };
+}
+
+/**
+ * Healthy sends go straight through; degraded or rate-limited ones are persisted and answered
+ * with a mocked success, because an error would only make the agent retry.
+ *
+ * `intercept()` returns the mocked result, or null to pass the call through.
+ * `wrap()` applies it around a tool's execute function.
+ */
+export function createSendInterceptor(deps: InterceptorDeps) {
+  const intercept = (toolName: string, params: unknown, ctx?: AgentContext): ToolResult | null => {
+    const send = extractSend(toolName, params);
+    if (!send) return null;
+
+    const agentId = deps.getAgentId(ctx);
+    const status = deps.shouldBuffer(send, agentId);
+    if (!status.buffering) return null;
+
+    const id = deps.bufferThought(agentId, send, status.reason);
+    if (typeof id === 'object') {
+      deps.logger?.warn(`[antibeaver] Rejected ${toolName} from ${agentId}: ${id.rejected}`);
+      return rejectedResult(id.rejected);
+    }
+    if (id < 0) {
+      // Losing the message is worse than sending it late
+      deps.logger?.warn(`[antibeaver] Could not buffer ${toolName} from ${agentId}; passing through`);
+      return null;
+    }
+
+    deps.logger?.info(`[antibeaver] Intercepted ${toolName} from ${agentId} → #${id} (${status.reason})`);
+    return bufferedResult(id, status);
+  };
+
+  const wrap = (toolName: string, execute: ToolExecute, ctx?: AgentContext): ToolExecute => {
+    return async (toolCallId, params, ...rest) => {
+      return intercept(toolName, params, ctx) ?? execute(toolCallId, params, ...rest);
+    };
+  };
+
+  return { intercept, wrap };
+}
@@ -0,0 +1,137 @@
+/**
+ * Antibeaver Loops - Agents replying to each other's replies
+ * Spots ping-pong and runaway reply chains on one destination before they spin up the flywheel
+ */
+
+import { formatDuration } from './core.ts';
+import type { Destination } from './core.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface SendRecord extends Destination {
+  agentId: string;
+  /** Epoch ms */
+  at: number;
+}
+
+/**
+ * - `ping_pong`: two agents taking turns, A → B → A → B
+ * - `reply_chain`: three or more agents, each answering whoever spoke last
+ */
+export type LoopKind = 'ping_pong' | 'reply_chain';
+
+export interface LoopDetection extends Destination {
+  kind: LoopKind;
+  agents: string[];
+  /** Sends in the exchange */
+  turns: number;
+  spanMs: number;
+}
+
+export interface LoopConfig {
+  enabled: boolean;
+  /** Only sends this recent count */
+  windowMs: number;
+  /** Turns between the same two agents that make a ping-pong */
+  maxExchanges: number;
+  /** Turns by alternating agents, however many, that make a reply chain */
+  maxChain: number;
+  /** Halt the agents involved; lifted with /resume agent <id> */
+  haltAgents: boolean;
+  /** Also switch on forced buffering for everyone */
+  forceBuffering: boolean;
+}
+
+/** Off unless configured: two agents posting status in turn look just like a loop */
+export const DEFAULT_LOOP_DETECTION: LoopConfig = {
+  enabled: false,
+  windowMs: 300000,
+  maxExchanges: 6,
+  maxChain: 10,
+  haltAgents: true,
+  forceBuffering: false,
+};
+
+/** The audit action recorded when the breaker trips */
+export const LOOP_DETECTED = 'loop_detected';
+
+export function resolveLoopDetection(config: Partial<LoopConfig> = {}): LoopConfig {
+  const resolved = { ...DEFAULT_LOOP_DETECTION, ...config };
+  if (!(resolved.windowMs > 0)) resolved.windowMs = DEFAULT_LOOP_DETECTION.windowMs;
+  // A→B→A is the shortest exchange worth calling a loop
+  resolved.maxExchanges = Math.max(3, Math.floor(resolved.maxExchanges) || DEFAULT_LOOP_DETECTION.maxExchanges);
+  resolved.maxChain = Math.max(3, Math.floor(resolved.maxChain) || DEFAULT_LOOP_DETECTION.maxChain);
+  return resolved;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// DETECTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Look at the latest sends to one destination, oldest first. The exchange is
+ * the trailing run in which nobody speaks twice in a row; an agent sending
+ * twice is talking, not replying, and ends it.
+ */
+export function detectLoop(sends: SendRecord[], config: LoopConfig): LoopDetection | null {
+  if (sends.length < 2) return null;
+  let start = sends.length - 1;
+  while (start > 0 && sends[start - 1].agentId !== sends[start].agentId) start--;
+  const run = sends.slice(start);
+  if (run.length < 2) return null;
+  const last = run[run.length - 1];
+
+  // The tail of the run played out between its last two speakers alone
+  const pair = [run[run.length - 2].agentId, last.agentId];
+  let pingPong = 0;
+  while (pingPong < run.length && pair.includes(run[run.length - 1 - pingPong].agentId)) pingPong++;
+
+  const found = (kind: LoopKind, exchange: SendRecord[]): LoopDetection => ({
+    kind,
+    agents: [...new Set(exchange.map(s => s.agentId))].sort(),
+    channel: last.channel,
+    target: last.target,
+    turns: exchange.length,
+    spanMs: last.at - exchange[0].at,
+  });
+  if (pingPong >= config.maxExchanges) return found('ping_pong', run.slice(-pingPong));
+  if (run.length >= config.maxChain) return found('reply_chain', run);
+  return null;
+}
+
+/**
+ * Remembers recent sends per destination. `record` reports a loop once;
+ * the destination then starts counting afresh.
+ */
+export class LoopDetector {
+  private config: LoopConfig;
+  private sends = new Map<string, SendRecord[]>();
+
+  constructor(config: LoopConfig) {
+    this.config = config;
+  }
+
+  record(send: SendRecord): LoopDetection | null {
+    if (!this.config.enabled) return null;
+    const key = `${send.channel}\u0000${send.target || ''}`;
+    const keep = Math.max(this.config.maxExchanges, this.config.maxChain);
+    const recent = [...(this.sends.get(key) ?? []).filter(s => send.at - s.at <= this.config.windowMs), send].slice(-keep);
+
+    const detection = detectLoop(recent, this.config);
+    if (detection) this.sends.delete(key);
+    else this.sends.set(key, recent);
+    return detection;
+  }
+
+  clear(): void {
+    this.sends.clear();
+  }
+}
+
+export function describeLoop(loop: LoopDetection): string {
+  const where = loop.target ? `${loop.channel} ${loop.target}` : loop.channel;
+  const who = loop.kind === 'ping_pong' ? loop.agents.join(' ↔ ') : `reply chain among ${loop.agents.join(', ')}`;
+  return `${who} on ${where}: ${loop.turns} turns in ${formatDuration(loop.spanMs)}`;
+}
@@ -0,0 +1,116 @@
+/**
+ * Antibeaver Overflow - What happens when an agent's buffer is full
+ * Pure planning; the plugin applies the decision to the database
+ */
+
+import type { BufferedThought } from './core.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export type OverflowPolicy = 'force_synthesis' | 'drop_oldest_p2' | 'reject' | 'collapse_duplicates';
+
+export const OVERFLOW_POLICIES: OverflowPolicy[] = ['force_synthesis', 'drop_oldest_p2', 'reject', 'collapse_duplicates'];
+
+export interface IncomingThought {
+  channel: string;
+  target: string;
+  content: string;
+  priority: 'P0' | 'P1' | 'P2';
+}
+
+export type OverflowDecision =
+  /** Room in the buffer, or the policy makes room after inserting */
+  | { action: 'accept' }
+  /** Insert, then synthesize the agent's backlog now */
+  | { action: 'force_synthesis' }
+  /** Insert after dropping these pending thoughts */
+  | { action: 'drop'; dropIds: number[] }
+  /** Same message is already pending; keep that one instead */
+  | { action: 'collapse'; duplicateOf: number }
+  /** Insert after collapsing duplicates already in the buffer */
+  | { action: 'dedupe'; dropIds: number[] }
+  | { action: 'reject'; reason: string };
+
+const PRIORITY_RANK: Record<string, number> = { P0: 0, P1: 1, P2: 2 };
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PLANNING
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function resolveOverflowPolicy(value: unknown): OverflowPolicy {
+  return OVERFLOW_POLICIES.includes(value as OverflowPolicy) ? value as OverflowPolicy : 'force_synthesis';
+}
+
+/** Whitespace- and case-insensitive key for spotting repeats */
+export function normalizeContent(content: string): string {
+  return content.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+function sameMessage(a: IncomingThought | BufferedThought, b: IncomingThought | BufferedThought): boolean {
+  return a.channel === b.channel && (a.target || '') === (b.target || '')
+    && normalizeContent(a.content) === normalizeContent(b.content);
+}
+
+function oldestFirst(a: BufferedThought, b: BufferedThought): number {
+  return a.created_at.localeCompare(b.created_at) || a.id - b.id;
+}
+
+/**
+ * Decide what to do with a new thought given the agent's pending buffer.
+ * P0 thoughts are never dropped to make room.
+ */
+export function planOverflow(
+  policy: OverflowPolicy,
+  pending: BufferedThought[],
+  incoming: IncomingThought,
+  maxSize: number
+): OverflowDecision {
+  if (pending.length < maxSize) return { action: 'accept' };
+  const full = `buffer full (${pending.length}/${maxSize})`;
+
+  switch (policy) {
+    case 'force_synthesis':
+      return { action: 'force_synthesis' };
+
+    case 'drop_oldest_p2': {
+      // Lowest priority first, never below the incoming thought's own priority
+      const incomingRank = PRIORITY_RANK[incoming.priority];
+      const victim = [...pending]
+        .filter(t => t.priority !== 'P0' && PRIORITY_RANK[t.priority] >= incomingRank)
+        .sort((a, b) => PRIORITY_RANK[b.priority] - PRIORITY_RANK[a.priority] || oldestFirst(a, b))[0];
+      if (!victim) return { action: 'reject', reason: `${full}; nothing of equal or lower priority to drop` };
+      return { action: 'drop', dropIds: [victim.id] };
+    }
+
+    case 'collapse_duplicates': {
+      const duplicate = pending.find(t => sameMessage(t, incoming));
+      if (duplicate) return { action: 'collapse', duplicateOf: duplicate.id };
+
+      // Make room by folding repeats already in the buffer into their first copy
+      const seen: BufferedThought[] = [];
+      const dropIds: number[] = [];
+      for (const t of [...pending].sort(oldestFirst)) {
+        if (seen.some(s => sameMessage(s, t))) dropIds.push(t.id);
+        else seen.push(t);
+      }
+      if (dropIds.length === 0) return { action: 'reject', reason: `${full}; no duplicates to collapse` };
+      return { action: 'dedupe', dropIds };
+    }
+
+    case 'reject':
+      return { action: 'reject', reason: full };
+  }
+}
+
+export function describeOverflow(decision: OverflowDecision): string {
+  switch (decision.action) {
+    case 'accept': return 'accepted';
+    case 'force_synthesis': return 'forced synthesis';
+    case 'drop': return `dropped #${decision.dropIds.join(', #')}`;
+    case 'collapse': return `collapsed into #${decision.duplicateOf}`;
+    case 'dedupe': return `collapsed duplicates #${decision.dropIds.join(', #')}`;
+    case 'reject': return `rejected: ${decision.reason}`;
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Antibeaver Peers - What the other agents are holding
+ * Lets an agent see a peer already buffered "use Redis" before it says it too
+ */
+
+import { escapeContent } from './core.ts';
+import type { BufferedThought } from './core.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * - `full`: thought text as buffered
+ * - `truncate`: the first `maxChars` characters
+ * - `metadata`: destination, priority and time only; no text
+ */
+export type PeerRedaction = 'full' | 'truncate' | 'metadata';
+
+export interface PeerConfig {
+  enabled: boolean;
+  redaction: PeerRedaction;
+  maxChars: number;
+  /** Newest thoughts listed per peer */
+  maxPerAgent: number;
+  /** Agents whose buffers are never shown to anyone */
+  hiddenAgents: string[];
+  /** Regular expressions; matches are replaced with [redacted] before anything is shown */
+  redactPatterns: string[];
+  /** List peers' thoughts in each synthesis prompt so the agent can skip what they cover */
+  includeInPrompt: boolean;
+}
+
+export interface ResolvedPeerConfig extends Omit<PeerConfig, 'redactPatterns'> {
+  patterns: RegExp[];
+  /** One line per pattern that would not compile; those are ignored */
+  errors: string[];
+}
+
+export interface PeerThought {
+  id: number;
+  channel: string;
+  target: string;
+  priority: 'P0' | 'P1' | 'P2';
+  createdAt: string;
+  /** Absent under `metadata` redaction */
+  summary?: string;
+}
+
+export interface PeerBuffer {
+  agentId: string;
+  pending: number;
+  thoughts: PeerThought[];
+}
+
+export const DEFAULT_PEER_CONFIG: PeerConfig = {
+  enabled: true,
+  redaction: 'truncate',
+  maxChars: 120,
+  maxPerAgent: 10,
+  hiddenAgents: [],
+  redactPatterns: [],
+  includeInPrompt: false,
+};
+
+const REDACTIONS: PeerRedaction[] = ['full', 'truncate', 'metadata'];
+
+export function resolvePeerConfig(config: Partial<PeerConfig> = {}): ResolvedPeerConfig {
+  const { redactPatterns, ...rest } = { ...DEFAULT_PEER_CONFIG, ...config };
+  const resolved = { ...rest, patterns: [] as RegExp[], errors: [] as string[] };
+  if (!REDACTIONS.includes(resolved.redaction)) resolved.redaction = DEFAULT_PEER_CONFIG.redaction;
+  resolved.maxChars = Math.max(1, Math.floor(resolved.maxChars) || DEFAULT_PEER_CONFIG.maxChars);
+  resolved.maxPerAgent = Math.max(1, Math.floor(resolved.maxPerAgent) || DEFAULT_PEER_CONFIG.maxPerAgent);
+  if (!Array.isArray(resolved.hiddenAgents)) resolved.hiddenAgents = [];
+
+  for (const pattern of Array.isArray(redactPatterns) ? redactPatterns : []) {
+    try {
+      resolved.patterns.push(new RegExp(pattern, 'gi'));
+    } catch (err) {
+      resolved.errors.push(`redactPatterns ${JSON.stringify(pattern)}: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+  return resolved;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// COLLECTION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Patterns first, so truncation can't leave half a secret behind */
+export function redactContent(content: string, config: ResolvedPeerConfig): string | undefined {
+  if (config.redaction === 'metadata') return undefined;
+  const scrubbed = config.patterns.reduce((text, pattern) => text.replace(pattern, '[redacted]'), content);
+  if (config.redaction === 'full' || scrubbed.length <= config.maxChars) return scrubbed;
+  return `${scrubbed.slice(0, config.maxChars)}…`;
+}
+
+/**
+ * Every other agent with pending thoughts, newest thoughts first, redacted.
+ * `getThoughts` is normally `getPendingThoughts` against the shared database.
+ */
+export function collectPeerBuffers(
+  self: string,
+  agents: string[],
+  getThoughts: (agentId: string) => BufferedThought[],
+  config: ResolvedPeerConfig
+): PeerBuffer[] {
+  if (!config.enabled) return [];
+  return agents
+    .filter(agentId => agentId !== self && !config.hiddenAgents.includes(agentId))
+    .sort()
+    .map(agentId => {
+      const pending = getThoughts(agentId);
+      const newest = [...pending]
+        .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+        .slice(0, config.maxPerAgent);
+      return {
+        agentId,
+        pending: pending.length,
+        thoughts: newest.map(t => {
+          const summary = redactContent(t.content, config);
+          return {
+            id: t.id,
+            channel: t.channel,
+            target: t.target,
+            priority: t.priority,
+            createdAt: t.created_at,
+            ...(summary !== undefined ? { summary } : {}),
+          };
+        }),
+      };
+    })
+    .filter(peer => peer.pending > 0);
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PROMPT
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Prompt section for `{{peerThoughts}}`: empty with nothing to show,
+ * otherwise starting with a blank line like the other notes.
+ */
+export function formatPeerThoughts(peers: PeerBuffer[]): string {
+  const lines = peers.flatMap(peer => peer.thoughts.map(t => {
+    const where = t.target ? `${t.channel} ${t.target}` : t.channel;
+    const text = t.summary !== undefined ? `"${escapeContent(t.summary)}"` : '(content hidden)';
+    return `- ${peer.agentId} [${escapeContent(where)}]${t.priority === 'P0' ? ' [CRITICAL]' : ''} ${text}`;
+  }));
+  if (lines.length === 0) return '';
+  return `\n\n**Other agents are already holding these; don't repeat what they cover:**\n${lines.join('\n')}`;
+}
@@ -0,0 +1,1218 @@
+/**
+ * Antibeaver Runtime - Wires core, storage and the OpenClaw API together
+ * Takes the database and control state as arguments, so handlers run against any DB
+ */
+
+import type { PluginAPI } from 'openclaw/plugin-sdk';
+import {
+  ChannelHealth, CONTROL_KEYS, DEFAULT_SYSTEM_STATE, applyControlRecord, applyHalt, changedControlFlags, describeHaltScope,
+  encodeControlValue, formatHaltNotice, formatStatusReport, haltReason, haltTransitions,
+  parseHaltArgs, resolveThresholds, THRESHOLDS_KEY, resolveTtl, resolveAgentId, validateAgentId, validateLatency, validatePriority, validateQueueDepth,
+  validateSubmission, validateThought,
+} from './core.ts';
+import type {
+  AgentContext, AgentIdentityConfig, BufferedThought, BufferStatus, ControlFlag, Destination, GovernanceMode, HaltScope, PromptBuilder, SynthesisBatch, SystemState,
+} from './core.ts';
+import {
+  getAllPendingAgents, getPendingCount, getPendingSummary, getLastSynthesisAt, getPendingThoughts, insertAudit,
+  insertThought, insertMetric, dropThoughts, collapseThought, beginSynthesis, abandonSynthesis, completeSynthesis, expireSyntheses,
+  getControlRows, setControlValue, takeDrainRequests, submitChunkSummary, getSynthesisThoughtIds, getSynthesisThoughts, getSynthesisEvent,
+  expireThoughts, purgePending, retractThought, amendThought, getPendingAgentsByReason, getAuditLog,
+  insertHumanMessage, getWaitingHumanMessages, acknowledgeHumanMessages,
+} from './db.ts';
+import type { ChunkProgress, DB } from './db.ts';
+import { DrainScheduler } from './drain.ts';
+import { DrainCoordinator, formatReleasedOutputs, resolveCoordinator } from './coordinator.ts';
+import { createSendInterceptor, DEFAULT_INTERCEPT_TOOLS } from './interceptor.ts';
+import { describeOverflow, planOverflow, resolveOverflowPolicy } from './overflow.ts';
+import type { IncomingThought, OverflowDecision } from './overflow.ts';
+import { describeDedup, planDedup, resolveDedup } from './dedup.ts';
+import { buildSynthesisPrompt, generateChunkPrompt, generateMergePrompt, resolveSynthesisBudget } from './chunking.ts';
+import type { DedupDecision } from './dedup.ts';
+import { resolveTemplates, selectTemplate } from './templates.ts';
+import { parseSynthesisReply, resolveOutputMode } from './envelope.ts';
+import { formatChannelHistory, loadChannelHistory, resolveHistory } from './history.ts';
+import type { HistoryProvider } from './history.ts';
+import { collectPeerBuffers, formatPeerThoughts, resolvePeerConfig } from './peers.ts';
+import type { PeerBuffer } from './peers.ts';
+import { RATE_LIMITED, RateLimiter, resolveRateLimit } from './ratelimit.ts';
+import { LOOP_DETECTED, LoopDetector, describeLoop, resolveLoopDetection } from './loops.ts';
+import type { LoopDetection, SendRecord } from './loops.ts';
+import { describeHumanWaiting, extractInbound, isOperator, resolveHumanLane, toHumanWaiting } from './humans.ts';
+import type { InboundMessage } from './humans.ts';
+import { DEFAULT_PROBE_OPTIONS, ProbeScheduler, httpProbe } from './probe.ts';
+import type { ProbeFn, ProbeTarget } from './probe.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface Antibeaver {
+  /** The live control state; the same object that was passed in */
+  state: SystemState;
+  health: ChannelHealth;
+  /** Re-evaluate overall health, logging mode changes and driving auto-drain */
+  evaluate(): BufferStatus;
+  /** Apply flags and drain requests written by other processes (normally polled) */
+  syncControl(): void;
+  /** Return unanswered synthesis batches to pending (normally polled) */
+  expireStale(): void;
+  /** Heartbeat probes; idle unless `probes.enabled` */
+  probes: ProbeScheduler;
+  /** Stop pollers, probes and scheduled drains */
+  dispose(): void;
+}
+
+interface StoredThought {
+  id: number;
+  decision: OverflowDecision;
+  dedup: DedupDecision;
+}
+
+export interface AntibeaverOptions {
+  /** Replaces the built-in HTTP probe, e.g. with a channel-native ping */
+  probe?: ProbeFn;
+  /** Recent channel messages for synthesis prompts; without one, prompts carry none */
+  history?: HistoryProvider;
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// PLUGIN
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Register commands, tools, gateway methods and pollers against `db`.
+ * `state` is mutated in place, so callers (and tests) can hold on to it.
+ */
+export function createAntibeaver(
+  api: PluginAPI,
+  db: DB | null,
+  state: SystemState = { ...DEFAULT_SYSTEM_STATE },
+  options: AntibeaverOptions = {}
+): Antibeaver {
+  const logger = api.logger;
+  const pluginConfig = api.config?.plugins?.entries?.['antibeaver']?.config ?? {};
+  const thresholds = resolveThresholds({
+    degradedMs: pluginConfig.latencyThresholdMs ?? 5000,
+    criticalMs: pluginConfig.criticalThresholdMs ?? 30000,
+    drainMs: pluginConfig.drainThresholdMs ?? 3000,
+    recoveryHoldMs: pluginConfig.recoveryHoldMs ?? 30000,
+    queueDegradedDepth: pluginConfig.queueDepthThreshold ?? 20,
+    queueCriticalDepth: pluginConfig.criticalQueueDepth ?? 40,
+    queueDrainDepth: pluginConfig.drainQueueDepth ?? 5,
+  });
+  const maxBuffer = pluginConfig.maxBufferSize ?? 50;
+  const overflowPolicy = resolveOverflowPolicy(pluginConfig.overflowPolicy);
+  const dedupConfig = resolveDedup(pluginConfig.dedup ?? {});
+  const budget = resolveSynthesisBudget(pluginConfig.synthesisBudget ?? {});
+  const outputMode = resolveOutputMode(pluginConfig.synthesisOutput);
+  const historyConfig = resolveHistory(pluginConfig.channelHistory ?? {});
+  const peerConfig = resolvePeerConfig(pluginConfig.peers ?? {});
+  for (const error of peerConfig.errors) {
+    logger.error(`[antibeaver] Peer ${error}; ignoring it`);
+  }
+  const { config: rateLimit, errors: rateLimitErrors } = resolveRateLimit(pluginConfig.rateLimit ?? {});
+  for (const error of rateLimitErrors) {
+    logger.error(`[antibeaver] Rate limit ${error}; using the default instead`);
+  }
+  const { templates, errors: templateErrors } = resolveTemplates(pluginConfig.promptTemplates ?? {});
+  for (const error of templateErrors) {
+    logger.error(`[antibeaver] Prompt template ${error}; using the default instead`);
+  }
+  const identity: AgentIdentityConfig = {
+    defaultAgentId: validateAgentId(pluginConfig.defaultAgentId) ?? 'main',
+    agentMap: pluginConfig.agentMap ?? {},
+  };
+  const autoDrain = pluginConfig.autoDrain ?? true;
+  const drainJitterMs = pluginConfig.drainJitterMs ?? 5000;
+  const drainPollMs = pluginConfig.drainPollMs ?? 5000;
+  const synthesisTimeoutMs = pluginConfig.synthesisTimeoutMs ?? 300000;
+  const ttl = resolveTtl(pluginConfig.ttlMinutes ?? {});
+  const coordination = resolveCoordinator(pluginConfig.drainCoordination ?? {});
+  const loopConfig = resolveLoopDetection(pluginConfig.loopDetection ?? {});
+  const humanLane = resolveHumanLane(pluginConfig.humanLane ?? {});
+  const probeConfig = pluginConfig.probes ?? {};
+
+  const health = new ChannelHealth(thresholds, 100, pluginConfig.prediction ?? {});
+  const rateLimiter = new RateLimiter(rateLimit);
+  const loopDetector = new LoopDetector(loopConfig);
+  const timers: ReturnType<typeof setInterval>[] = [];
+  let lastMode: GovernanceMode = 'HEALTHY';
+
+  const humansWaiting = () => getWaitingHumanMessages(db).map(toHumanWaiting);
+
+  const shouldBuffer = (dest?: Destination, agentId?: string): BufferStatus => {
+    const status = health.evaluate(dest, state, agentId);
+    if (status.buffering || !humanLane.forceBuffering || humanLane.operatorIds.length === 0) return status;
+    // An operator spoke: every agent holds its output until one of them acknowledges
+    const waiting = humansWaiting();
+    const reason = describeHumanWaiting(waiting);
+    return reason ? { ...status, buffering: true, reason, humanWaitingId: waiting[0].id } : status;
+  };
+
+  // Evaluate and log overall mode transitions; CRITICAL is the one a human must see
+  const evaluate = (): BufferStatus => {
+    const status = shouldBuffer();
+    if (status.mode !== lastMode) {
+      const line = `[antibeaver] Mode ${lastMode} → ${status.mode} (${status.reason})`;
+      if (status.mode === 'CRITICAL') logger.warn(`${line} 🚨 Human attention required.`);
+      else logger.info(line);
+      lastMode = status.mode;
+    }
+    if (autoDrain) drainScheduler.observe(status);
+    return status;
+  };
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // DRAIN: synthesize automatically on recovery
+  // ═══════════════════════════════════════════════════════════════════════
+
+  const deliverToAgent = async (agentId: string, prompt: string): Promise<boolean> => {
+    const enqueue = api.runtime?.system?.enqueueSystemEvent;
+    if (typeof enqueue !== 'function') {
+      logger.warn(`[antibeaver] Cannot hand synthesis prompt to ${agentId}: runtime has no enqueueSystemEvent. Use /flush.`);
+      return false;
+    }
+    await enqueue(prompt, { sessionKey: `agent:${agentId}:main` });
+    return true;
+  };
+
+  /** Formatted messages posted where these thoughts were headed; empty without a provider */
+  const fetchChannelHistory = async (thoughts: BufferedThought[]): Promise<string> => {
+    if (!options.history) return '';
+    const messages = await loadChannelHistory(options.history, thoughts, historyConfig, msg => logger.warn(msg));
+    return formatChannelHistory(messages, historyConfig.maxMessageChars);
+  };
+
+  /** Other agents' pending thoughts, redacted per `peers` config */
+  const peerBuffers = (agentId: string): PeerBuffer[] =>
+    collectPeerBuffers(agentId, getAllPendingAgents(db), peer => getPendingThoughts(db, peer), peerConfig);
+
+  const peerSection = (agentId: string): string =>
+    peerConfig.includeInPrompt ? formatPeerThoughts(peerBuffers(agentId)) : '';
+
+  /** Agent override, then channel override when the whole batch is for one channel */
+  const templateFor = (thoughts: BufferedThought[]): string => {
+    const channels = new Set(thoughts.map(t => t.channel));
+    return selectTemplate(templates, thoughts[0]?.agent_id, channels.size === 1 ? thoughts[0].channel : undefined);
+  };
+
+  const buildPrompt: PromptBuilder = (eventId, thoughts, channelHistory) => {
+    const agentId = thoughts[0]?.agent_id;
+    const template = templateFor(thoughts);
+    const peerThoughts = agentId ? peerSection(agentId) : '';
+    const releasedOutputs = agentId ? formatReleasedOutputs(coordinator.releasedFor(agentId)) : '';
+    return buildSynthesisPrompt(thoughts, eventId, budget, { template, outputMode, channelHistory, peerThoughts, releasedOutputs });
+  };
+
+  /** History is fetched before the transaction; the prompt is built inside it */
+  const startSynthesis = async (agentId: string, build: PromptBuilder): Promise<SynthesisBatch | null> => {
+    const channelHistory = await fetchChannelHistory(getPendingThoughts(db, agentId));
+    return beginSynthesis(db, agentId, (eventId, thoughts) => build(eventId, thoughts, channelHistory));
+  };
+
+  /** The prompt after a condensing step: the next step, or the merge once all are in */
+  const buildNextStep = (progress: ChunkProgress, channelHistory = ''): string => {
+    const { eventId, done, total, chunks, summaries, thoughts } = progress;
+    if (done >= total) {
+      const agentId = thoughts[0]?.agent_id;
+      const peerThoughts = agentId ? peerSection(agentId) : '';
+      const releasedOutputs = agentId ? formatReleasedOutputs(coordinator.releasedFor(agentId)) : '';
+      return generateMergePrompt(thoughts, summaries, eventId, {
+        template: templateFor(thoughts), outputMode, channelHistory, peerThoughts, releasedOutputs,
+      });
+    }
+    const byId = new Map(thoughts.map(t => [t.id, t]));
+    const step = chunks[done].map(id => byId.get(id)).filter((t): t is BufferedThought => t !== undefined);
+    return generateChunkPrompt(step, done + 1, total, eventId, budget);
+  };
+
+  // Declared before the scheduler it drains through; neither calls the other until a round runs
+  const coordinator: DrainCoordinator = new DrainCoordinator({
+    getPending: (agentId) => getPendingThoughts(db, agentId),
+    drain: (agentId, force) => drainScheduler.drainAgent(agentId, force),
+    logger,
+  }, coordination);
+
+  /** Every destination the agent's pending thoughts are headed for, halts included, would take them now */
+  const destinationsHealthy = (agentId: string): boolean =>
+    getPendingThoughts(db, agentId).every(t => !shouldBuffer({ channel: t.channel, target: t.target }, agentId).buffering);
+
+  const drainScheduler: DrainScheduler = new DrainScheduler({
+    getPendingAgents: () => getAllPendingAgents(db),
+    beginSynthesis: startSynthesis,
+    deliver: deliverToAgent,
+    abandonSynthesis: (eventId) => abandonSynthesis(db, eventId),
+    isHealthy: destinationsHealthy,
+    logger,
+  }, { maxJitterMs: drainJitterMs, buildPrompt, coordinator: coordination.enabled ? coordinator : undefined });
+
+  // Held back by a bucket, not the network: no recovery edge is coming, so drain once tokens are back
+  const drainRateLimited = () => {
+    for (const agentId of getPendingAgentsByReason(db, RATE_LIMITED)) {
+      const channels = [...new Set(getPendingThoughts(db, agentId).map(t => t.channel))];
+      if (rateLimiter.available(agentId, channels)) void drainScheduler.drainAgent(agentId);
+    }
+  };
+
+  // One channel can recover while another stays down, and the overall recovery edge waits for
+  // the slowest: drain each agent whose own destinations have come back
+  const heldBack = new Set<string>();
+  const drainRecoveredDestinations = () => {
+    for (const agentId of getAllPendingAgents(db)) {
+      if (!destinationsHealthy(agentId)) heldBack.add(agentId);
+      else if (heldBack.delete(agentId)) void drainScheduler.drainAgent(agentId);
+    }
+  };
+
+  if (autoDrain) {
+    // Recovery is often silent (no new samples), so poll rather than wait for one
+    timers.push(setInterval(() => {
+      const buffering = evaluate().buffering;
+      if (coordinator.isRunning()) return;
+      if (buffering) {
+        drainRecoveredDestinations();
+      } else {
+        heldBack.clear();
+        drainRateLimited();
+      }
+    }, drainPollMs));
+  }
+
+  // Nobody answered a synthesis prompt: give the thoughts back rather than lose them.
+  // Thoughts that waited past their TTL are stale whatever happens next: let them go.
+  const expireStale = () => {
+    try {
+      for (const expired of expireSyntheses(db, synthesisTimeoutMs)) {
+        logger.warn(`[antibeaver] Synthesis #${expired.eventId} for ${expired.agentId} timed out; ${expired.count} thought(s) back to pending`);
+      }
+      const stale = expireThoughts(db, ttl);
+      if (stale.length > 0) {
+        logger.info(`[antibeaver] Expired ${stale.length} thought(s) past their TTL: #${stale.map(t => t.id).join(', #')}`);
+      }
+    } catch (err) {
+      logger.error(`[antibeaver] Synthesis expiry failed: ${err}`);
+    }
+  };
+  timers.push(setInterval(expireStale, Math.min(synthesisTimeoutMs, 30000)));
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // CONTROL: persisted flags, shared with the CLI
+  // ═══════════════════════════════════════════════════════════════════════
+
+  // The CLI has no plugin config: leave it the thresholds it should judge health by
+  const persistedThresholds = JSON.stringify(thresholds);
+  if (getControlRows(db).find(r => r.key === THRESHOLDS_KEY)?.value !== persistedThresholds) {
+    setControlValue(db, THRESHOLDS_KEY, persistedThresholds, 'antibeaver', 'plugin config');
+  }
+
+  // A restart must never silently lift a halt, so persisted flags override whatever we were given
+  const initialRows = getControlRows(db);
+  Object.assign(state, initialRows.reduce(applyControlRecord, state));
+  const seenRevisions = new Map(initialRows.map(r => [r.key, r.revision]));
+
+  if (state.systemHalted) {
+    const audit = state.audit?.systemHalted;
+    logger.warn(`[antibeaver] 🚨 Restored HALT set by ${audit?.setBy ?? 'unknown'} at ${audit?.setAt ?? 'unknown'}${audit?.reason ? ` (${audit.reason})` : ''}`);
+  }
+  for (const agentId of state.haltedAgents ?? []) logger.warn(`[antibeaver] Restored halt for agent ${agentId}`);
+  for (const channel of state.haltedChannels ?? []) logger.warn(`[antibeaver] Restored halt for channel ${channel}`);
+  if (state.globalForcedBuffering) logger.info('[antibeaver] Restored forced buffering');
+  if (state.simulatedLatencyMs > 0) logger.info(`[antibeaver] Restored simulated latency ${state.simulatedLatencyMs}ms`);
+
+  // Feature-detected: not every gateway can broadcast or drop queued frames
+  const gateway = api.runtime?.gateway;
+
+  const broadcast = (text: string, channel?: string) => {
+    if (typeof gateway?.broadcast !== 'function') {
+      logger.warn(`[antibeaver] Gateway cannot broadcast; notice not sent: ${text}`);
+      return;
+    }
+    Promise.resolve(gateway.broadcast(text, channel ? { channel } : undefined))
+      .catch((err: unknown) => logger.warn(`[antibeaver] Broadcast failed: ${err}`));
+  };
+
+  const clearQueue = (scope: HaltScope) => {
+    if (typeof gateway?.clearQueue !== 'function') {
+      logger.warn(`[antibeaver] Gateway has no clearQueue; frames already queued for ${describeHaltScope(scope)} will still go out`);
+      return;
+    }
+    const filter = scope.kind === 'agent' ? { agentId: scope.id } : scope.kind === 'channel' ? { channel: scope.id } : undefined;
+    Promise.resolve(gateway.clearQueue(filter))
+      .then((cleared: unknown) => logger.info(`[antibeaver] Cleared outbound queue for ${describeHaltScope(scope)}${typeof cleared === 'number' ? ` (${cleared} frames)` : ''}`))
+      .catch((err: unknown) => logger.warn(`[antibeaver] clearQueue failed: ${err}`));
+  };
+
+  /** Broadcast and clear the queue for every scope a change halted or resumed */
+  const applyHaltEffects = (before: SystemState, actor: string, reason?: string | null) => {
+    for (const transition of haltTransitions(before, state)) {
+      if (transition.halted) clearQueue(transition.scope);
+      const channel = transition.scope.kind === 'channel' ? transition.scope.id : undefined;
+      broadcast(formatHaltNotice(transition, actor, reason), channel);
+    }
+  };
+
+  /** Change flags locally and persist the ones that differ */
+  const setControl = (changes: Partial<Pick<SystemState, ControlFlag>>, setBy: string, reason?: string) => {
+    const before = { ...state };
+    const next = { ...state, ...changes };
+    for (const flag of changedControlFlags(state, next)) {
+      setControlValue(db, CONTROL_KEYS[flag], encodeControlValue(flag, next), setBy, reason);
+    }
+    Object.assign(state, next);
+    // Reload our own writes so the audit trail matches the table and the poller skips them
+    for (const row of getControlRows(db)) {
+      if (seenRevisions.get(row.key) === row.revision) continue;
+      seenRevisions.set(row.key, row.revision);
+      Object.assign(state, applyControlRecord(state, row));
+    }
+    applyHaltEffects(before, setBy, reason);
+  };
+
+  // Pick up flags and drain requests written by other processes
+  const syncControl = () => {
+    try {
+      for (const row of getControlRows(db)) {
+        if (seenRevisions.get(row.key) === row.revision) continue;
+        seenRevisions.set(row.key, row.revision);
+        const before = { ...state };
+        Object.assign(state, applyControlRecord(state, row));
+        logger.info(`[antibeaver] Control ${row.key}=${row.value} by ${row.set_by ?? 'unknown'}${row.reason ? ` (${row.reason})` : ''}`);
+        // Halts written by the CLI get the same broadcast as /halt
+        applyHaltEffects(before, row.set_by ?? 'unknown', row.reason);
+      }
+      for (const request of takeDrainRequests(db)) {
+        const agents = request.agent_id === 'all' ? getAllPendingAgents(db) : [request.agent_id];
+        logger.info(`[antibeaver] Drain requested for ${request.agent_id} by ${request.requested_by ?? 'unknown'}`);
+        if (coordination.enabled && agents.length > 1) {
+          coordinator.start(agents, true);
+        } else {
+          for (const agentId of agents) void drainScheduler.drainAgent(agentId, true);
+        }
+      }
+    } catch (err) {
+      logger.error(`[antibeaver] Control sync failed: ${err}`);
+    }
+  };
+
+  timers.push(setInterval(syncControl, pluginConfig.controlPollMs ?? 2000));
+  for (const timer of timers) timer.unref?.();
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // OVERFLOW: enforce maxBufferSize on every write to the buffer
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /**
+   * Buffer a thought: fold near-duplicates into what is already pending, let
+   * revisions supersede, then apply the overflow policy. `id` is -1 if nothing was stored.
+   */
+  const storeThought = (agentId: string, thought: IncomingThought, reason: string | null = null): StoredThought => {
+    const pending = getPendingThoughts(db, agentId);
+    let dedup = planDedup(dedupConfig, pending, thought);
+
+    if (dedup.action === 'collapse') {
+      if (collapseThought(db, dedup.duplicateOf, thought.priority, thought.content, agentId)) {
+        logger.info(`[antibeaver] ${agentId}: ${describeDedup(dedup)}`);
+        return { id: dedup.duplicateOf, decision: { action: 'accept' }, dedup };
+      }
+      dedup = { action: 'insert' };
+    }
+
+    // Superseded thoughts no longer count against the buffer, but stay put if the new one is refused
+    const superseded = dedup.action === 'supersede' ? dedup.supersededIds : [];
+    // A synthesis nobody can be handed never empties the buffer: make room by dropping instead
+    const policy = overflowPolicy === 'force_synthesis' && typeof api.runtime?.system?.enqueueSystemEvent !== 'function'
+      ? 'drop_oldest_p2'
+      : overflowPolicy;
+    const decision = planOverflow(policy, pending.filter(t => !superseded.includes(t.id)), thought, maxBuffer);
+    if (decision.action !== 'accept') {
+      // Keep a record of every overflow decision, so nobody has to guess what got dropped
+      const applied = policy === overflowPolicy ? policy : `${policy}; ${overflowPolicy} cannot deliver`;
+      logger.warn(`[antibeaver] Buffer overflow for ${agentId} (${applied}): ${describeOverflow(decision)}`);
+      insertAudit(db, 'overflow', `agent ${agentId}`, 'antibeaver', describeOverflow(decision));
+    }
+
+    if (decision.action === 'reject') return { id: -1, decision, dedup };
+    if (superseded.length > 0) {
+      dropThoughts(db, superseded, 'superseded', agentId, 'revised');
+      logger.info(`[antibeaver] ${agentId}: revision ${describeDedup(dedup)}`);
+    }
+
+    switch (decision.action) {
+      case 'collapse':
+        collapseThought(db, decision.duplicateOf, thought.priority, thought.content);
+        return { id: decision.duplicateOf, decision, dedup };
+      case 'drop':
+        dropThoughts(db, decision.dropIds, 'dropped', 'antibeaver', `overflow: ${policy}`);
+        break;
+      case 'dedupe':
+        dropThoughts(db, decision.dropIds, 'collapsed', 'antibeaver', `overflow: ${policy}`);
+        break;
+    }
+
+    const id = insertThought(db, agentId, thought.channel, thought.target, thought.content, thought.priority, reason);
+    if (decision.action === 'force_synthesis') void drainScheduler.drainAgent(agentId, true);
+    return { id, decision, dedup };
+  };
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // LOOPS: agents replying to each other's replies
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /** Record the event, then halt the agents involved and/or force buffering, as configured */
+  const tripLoopBreaker = (loop: LoopDetection) => {
+    const scopes: HaltScope[] = loopConfig.haltAgents ? loop.agents.map(id => ({ kind: 'agent', id })) : [];
+    const actions = [
+      ...(scopes.length > 0 ? [`halted ${scopes.map(describeHaltScope).join(', ')}`] : []),
+      ...(loopConfig.forceBuffering ? ['forced buffering'] : []),
+    ];
+    const detail = `${describeLoop(loop)}${actions.length > 0 ? `; ${actions.join(', ')}` : ''}`;
+    logger.warn(`[antibeaver] 🔁 Loop detected: ${detail}`);
+    insertAudit(db, LOOP_DETECTED, loop.agents.map(id => describeHaltScope({ kind: 'agent', id })).join(', '), 'antibeaver', detail);
+
+    const next = scopes.reduce((s, scope) => applyHalt(s, scope, true), { ...state });
+    if (loopConfig.forceBuffering) next.globalForcedBuffering = true;
+    setControl(next, 'antibeaver', `${LOOP_DETECTED}: ${describeLoop(loop)}`);
+  };
+
+  /** Count a send that is about to go out; true if it tripped the breaker */
+  const recordSend = (send: SendRecord): boolean => {
+    const loop = loopDetector.record(send);
+    if (!loop) return false;
+    tripLoopBreaker(loop);
+    return true;
+  };
+
+  const recentLoops = () => getAuditLog(db, 5, LOOP_DETECTED).map(row => ({ at: row.created_at, detail: row.reason ?? '' }));
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // HUMANS: operator messages jump the queue
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /** Record an operator's message as P0; returns its ID, or null if the sender is not an operator */
+  const receiveHuman = (message: InboundMessage): number | null => {
+    if (!isOperator(humanLane, message.senderId)) return null;
+    const id = insertHumanMessage(db, message.senderId, message.channel, message.target ?? '', message.content);
+    const where = message.target ? `${message.channel} ${message.target}` : message.channel;
+    insertAudit(db, 'human_waiting', where, message.senderId, `#${id}: ${message.content.substring(0, 200)}`);
+    logger.warn(`[antibeaver] 🙋 Operator ${message.senderId} on ${where} (#${id}): "${message.content.substring(0, 80)}"`);
+    // Starts buffering now, and holds back any drain already scheduled
+    evaluate();
+    return id;
+  };
+
+  /** Feed a history provider that keeps its own log */
+  const remember = (author: string, message: Destination & { content: string }) => {
+    options.history?.post?.({
+      author, channel: message.channel, target: message.target ?? '', content: message.content, postedAt: new Date().toISOString(),
+    });
+  };
+
+  if ((humanLane.operatorIds.length > 0 || options.history?.post) && typeof api.on === 'function') {
+    api.on('message_received', (event: unknown, ctx?: unknown) => {
+      const message = extractInbound(event, ctx);
+      if (!message) return;
+      remember(message.senderId, message);
+      receiveHuman(message);
+    });
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // INTERCEPTOR: wrap outbound send tools
+  // ═══════════════════════════════════════════════════════════════════════
+
+  const interceptTools: string[] = pluginConfig.interceptTools ?? DEFAULT_INTERCEPT_TOOLS;
+  const interceptor = createSendInterceptor({
+    shouldBuffer: (send, agentId) => {
+      evaluate();
+      let status = shouldBuffer(send, agentId);
+      if (status.buffering) return status;
+      // Healthy, but this agent or channel is already sending fast enough to cause congestion
+      const limited = rateLimiter.take(agentId, send.channel, send.priority);
+      if (limited) {
+        logger.info(`[antibeaver] Rate limited ${agentId} → ${send.channel}: ${limited}`);
+        return { ...status, buffering: true, reason: RATE_LIMITED };
+      }
+      // Only sends that get past the bucket are turns; the send that closes a loop is held back with the rest of it
+      if (recordSend({ agentId, channel: send.channel, target: send.target, at: Date.now() })) {
+        status = shouldBuffer(send, agentId);
+        if (status.buffering) return status;
+      }
+      remember(agentId, send);
+      return status;
+    },
+    bufferThought: (agentId, send, reason) => {
+      const { id, decision } = storeThought(agentId, send, reason);
+      return decision.action === 'reject' ? { rejected: decision.reason } : id;
+    },
+    getAgentId: (ctx) => resolveAgentId(ctx, identity),
+    logger,
+  });
+
+  if (pluginConfig.interceptSends ?? true) {
+    if (typeof api.wrapTool === 'function') {
+      for (const toolName of interceptTools) {
+        api.wrapTool(toolName, (execute: Parameters<typeof interceptor.wrap>[1], ctx?: AgentContext) => interceptor.wrap(toolName, execute, ctx));
+      }
+      logger.info(`[antibeaver] Intercepting: ${interceptTools.join(', ')}`);
+    } else if (typeof api.on === 'function') {
+      // No tool wrapping in this runtime: block the call and report the buffer in the reason
+      api.on('before_tool_call', (event: { toolName: string; params: unknown }, ctx?: AgentContext) => {
+        if (!interceptTools.includes(event.toolName)) return;
+        const buffered = interceptor.intercept(event.toolName, event.params, ctx);
+        if (buffered) return { block: true, blockReason: buffered.content[0].text };
+      });
+      logger.info(`[antibeaver] Intercepting via before_tool_call: ${interceptTools.join(', ')}`);
+    } else {
+      logger.warn('[antibeaver] Runtime exposes no tool hooks; agents must opt in with buffer_thought');
+    }
+  }
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // TOOL: buffer_thought
+  // ═══════════════════════════════════════════════════════════════════════
+  
+  // Factories: the runtime passes the calling agent's context per session
+  api.registerTool((toolCtx: AgentContext) => ({
+    name: 'buffer_thought',
+    description: 'Buffer a thought instead of sending directly. Use when system indicates network congestion.',
+    parameters: {
+      type: 'object',
+      properties: {
+        thought: { type: 'string', description: 'The thought/message to buffer' },
+        channel: { type: 'string', description: 'Target channel (slack, telegram, etc.)' },
+        target: { type: 'string', description: 'Target destination' },
+        priority: { type: 'string', enum: ['P0', 'P1', 'P2'], description: 'P0=critical, P1=normal, P2=low' },
+      },
+      required: ['thought'],
+    },
+    async execute(_id, params) {
+      const { thought: raw, channel, target, priority } = (params ?? {}) as { thought?: unknown; channel?: string; target?: string; priority?: unknown };
+      const agentId = resolveAgentId(toolCtx, identity);
+      const thought = validateThought(raw);
+      if (thought === null) {
+        return { content: [{ type: 'text', text: JSON.stringify({ ok: false, buffered: false, error: 'thought must be a non-empty string' }) }] };
+      }
+      
+      const { id, decision, dedup } = storeThought(agentId, {
+        channel: channel || toolCtx?.messageChannel || 'unknown',
+        target: target || '',
+        content: thought,
+        priority: validatePriority(priority),
+      });
+      const count = getPendingCount(db, agentId);
+      
+      if (decision.action === 'reject') {
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              ok: false,
+              buffered: false,
+              reason: 'buffer_full',
+              detail: decision.reason,
+              policy: overflowPolicy,
+              pending: count,
+              maxBufferSize: maxBuffer,
+              hint: 'Buffer full. Thought not saved. Do not retry; wait for synthesis.'
+            })
+          }]
+        };
+      }
+      
+      logger.info(`[antibeaver] Buffered #${id}: "${thought.substring(0, 40)}..." (${count} pending)`);
+      
+      const note = decision.action === 'accept' ? '' : ` Buffer full: ${describeOverflow(decision)}.`;
+      
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ok: true,
+            buffered: true,
+            id,
+            pending: count,
+            ...(decision.action === 'collapse' || dedup.action === 'collapse' ? { collapsed: true } : {}),
+            ...(dedup.action === 'supersede' ? { superseded: dedup.supersededIds } : {}),
+            hint: `Thought buffered. Do not retry.${note}`
+          })
+        }]
+      };
+    },
+  }), { name: 'buffer_thought' });
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // TOOLS: retract_thought, amend_thought
+  // ═══════════════════════════════════════════════════════════════════════
+
+  api.registerTool((toolCtx: AgentContext) => ({
+    name: 'retract_thought',
+    description: 'Take back a buffered thought before it is synthesized, by the id buffer_thought returned.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', description: 'The id returned by buffer_thought' },
+        reason: { type: 'string', description: 'Why it no longer applies' },
+      },
+      required: ['id'],
+    },
+    async execute(_id: string, params: unknown) {
+      const { id, reason } = (params ?? {}) as { id?: unknown; reason?: unknown };
+      const agentId = resolveAgentId(toolCtx, identity);
+      const thoughtId = Number(id);
+      const result = Number.isInteger(thoughtId) && thoughtId > 0
+        ? retractThought(db, agentId, thoughtId, typeof reason === 'string' ? reason.substring(0, 500) : null)
+        : 'id must be a positive integer';
+      if (typeof result === 'string') {
+        return { content: [{ type: 'text', text: JSON.stringify({ ok: false, error: result }) }] };
+      }
+      logger.info(`[antibeaver] ${agentId} retracted #${thoughtId}`);
+      return { content: [{ type: 'text', text: JSON.stringify({ ok: true, id: thoughtId, status: result.status, pending: getPendingCount(db, agentId) }) }] };
+    },
+  }), { name: 'retract_thought' });
+
+  api.registerTool((toolCtx: AgentContext) => ({
+    name: 'amend_thought',
+    description: 'Rewrite a buffered thought before it is synthesized, by the id buffer_thought returned. It keeps its place in the buffer.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', description: 'The id returned by buffer_thought' },
+        thought: { type: 'string', description: 'The new text' },
+        priority: { type: 'string', enum: ['P0', 'P1', 'P2'], description: 'A new priority, if it changed' },
+      },
+      required: ['id'],
+    },
+    async execute(_id: string, params: unknown) {
+      const { id, thought: raw, priority } = (params ?? {}) as { id?: unknown; thought?: unknown; priority?: unknown };
+      const agentId = resolveAgentId(toolCtx, identity);
+      const thoughtId = Number(id);
+      const reject = (error: string) => ({ content: [{ type: 'text', text: JSON.stringify({ ok: false, error }) }] });
+
+      if (!Number.isInteger(thoughtId) || thoughtId <= 0) return reject('id must be a positive integer');
+      const content = raw === undefined ? undefined : validateThought(raw);
+      if (content === null) return reject('thought must be a non-empty string');
+      if (content === undefined && priority === undefined) return reject('nothing to amend: pass thought and/or priority');
+
+      const result = amendThought(db, agentId, thoughtId, {
+        content,
+        priority: priority === undefined ? undefined : validatePriority(priority),
+      });
+      if (typeof result === 'string') return reject(result);
+      logger.info(`[antibeaver] ${agentId} amended #${thoughtId}`);
+      return { content: [{ type: 'text', text: JSON.stringify({ ok: true, id: thoughtId, priority: result.priority, hint: 'Thought updated. Do not retry.' }) }] };
+    },
+  }), { name: 'amend_thought' });
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // TOOL: get_buffer_status
+  // ═══════════════════════════════════════════════════════════════════════
+
+  api.registerTool((toolCtx: AgentContext) => ({
+    name: 'get_buffer_status',
+    description: 'Check buffer status and queue health. Pass channel/target to check a specific destination.',
+    parameters: {
+      type: 'object',
+      properties: {
+        channel: { type: 'string', description: 'Destination channel (slack, telegram, etc.)' },
+        target: { type: 'string', description: 'Destination within the channel' },
+      },
+    },
+    async execute(_id: string, params: { channel?: string; target?: string } = {}) {
+      evaluate();
+      const agentId = resolveAgentId(toolCtx, identity);
+      const status = shouldBuffer(params.channel ? { channel: params.channel, target: params.target } : undefined, agentId);
+      const waiting = humansWaiting();
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            buffering: status.buffering,
+            mode: status.mode,
+            timeInStateMs: status.timeInStateMs,
+            reason: status.reason,
+            halted: haltReason(state, agentId, params.channel) !== null,
+            agentId,
+            pending: getPendingCount(db),
+            pendingForAgent: getPendingCount(db, agentId),
+            latencyMs: Math.round(status.latencyMs),
+            queueDepth: status.queueDepth ?? null,
+            channels: health.snapshot(state),
+            threshold: thresholds.degradedMs,
+            criticalThreshold: thresholds.criticalMs,
+            drainThreshold: thresholds.drainMs,
+            queueDepthThreshold: thresholds.queueDegradedDepth,
+            criticalQueueDepth: thresholds.queueCriticalDepth,
+            ...(rateLimit.enabled ? { rateLimits: rateLimiter.levels() } : {}),
+            ...(loopConfig.enabled ? { loops: recentLoops() } : {}),
+            ...(peerConfig.enabled ? { peers: peerBuffers(agentId) } : {}),
+            humansWaiting: waiting,
+            hint: waiting.length > 0
+              ? 'A human operator is waiting. Read their message, then call acknowledge_human.'
+              : status.buffering ? 'Use buffer_thought instead of direct messages.' : 'Queue healthy.'
+          })
+        }]
+      };
+    },
+  }), { name: 'get_buffer_status' });
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // TOOL: get_peer_buffers
+  // ═══════════════════════════════════════════════════════════════════════
+
+  api.registerTool((toolCtx: AgentContext) => ({
+    name: 'get_peer_buffers',
+    description: 'See what other agents have buffered but not yet sent, so you do not repeat them.',
+    parameters: {
+      type: 'object',
+      properties: {
+        agentId: { type: 'string', description: 'Only this peer' },
+      },
+    },
+    async execute(_id: string, params: { agentId?: unknown } = {}) {
+      const agentId = resolveAgentId(toolCtx, identity);
+      if (!peerConfig.enabled) {
+        return { content: [{ type: 'text', text: JSON.stringify({ ok: false, error: 'peer awareness is disabled' }) }] };
+      }
+      const only = params.agentId === undefined ? undefined : validateAgentId(params.agentId);
+      if (only === null) {
+        return { content: [{ type: 'text', text: JSON.stringify({ ok: false, error: 'agentId must be a valid agent ID' }) }] };
+      }
+      const peers = peerBuffers(agentId).filter(peer => !only || peer.agentId === only);
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ok: true,
+            agentId,
+            redaction: peerConfig.redaction,
+            peers,
+            hint: peers.length > 0 ? 'Peers will synthesize these on recovery. Do not buffer the same point.' : 'No peer is holding anything.',
+          })
+        }]
+      };
+    },
+  }), { name: 'get_peer_buffers' });
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // TOOL: acknowledge_human
+  // ═══════════════════════════════════════════════════════════════════════
+
+  api.registerTool((toolCtx: AgentContext) => ({
+    name: 'acknowledge_human',
+    description: 'Confirm you have read a waiting operator message. Agents stay buffered until one of you does.',
+    parameters: {
+      type: 'object',
+      properties: {
+        id: { type: 'number', description: 'The message #ID from get_buffer_status; omit to acknowledge every waiting message' },
+      },
+    },
+    async execute(_id: string, params: { id?: unknown } = {}) {
+      const agentId = resolveAgentId(toolCtx, identity);
+      if (params.id !== undefined && !(Number.isInteger(params.id) && (params.id as number) > 0)) {
+        return { content: [{ type: 'text', text: JSON.stringify({ ok: false, error: 'id must be a message #ID' }) }] };
+      }
+      const acknowledged = acknowledgeHumanMessages(db, agentId, params.id === undefined ? undefined : [params.id as number]);
+      for (const id of acknowledged) insertAudit(db, 'human_ack', `human message #${id}`, agentId);
+      if (acknowledged.length > 0) logger.info(`[antibeaver] ${agentId} acknowledged operator message(s) #${acknowledged.join(', #')}`);
+      // The last acknowledgement lifts buffering; held thoughts drain as on any recovery
+      evaluate();
+      const stillWaiting = getWaitingHumanMessages(db).length;
+      return {
+        content: [{
+          type: 'text',
+          text: JSON.stringify({
+            ok: acknowledged.length > 0,
+            acknowledged,
+            stillWaiting,
+            ...(acknowledged.length === 0 ? { error: params.id === undefined ? 'no operator message is waiting' : `message #${params.id} is not waiting` } : {}),
+          })
+        }]
+      };
+    },
+  }), { name: 'acknowledge_human' });
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // TOOL: submit_synthesis
+  // ═══════════════════════════════════════════════════════════════════════
+
+  api.registerTool((toolCtx: AgentContext) => ({
+    name: 'submit_synthesis',
+    description: 'Report the consolidated message you sent after a synthesis prompt, and which buffered thoughts you kept or discarded. For a condensing step, pass its chunk number and your notes as output.',
+    parameters: {
+      type: 'object',
+      properties: {
+        synthesisId: { type: 'number', description: 'The synthesisId from the prompt' },
+        output: { type: 'string', description: 'The consolidated message you sent, or the JSON envelope if the prompt asked for one' },
+        kept: { type: 'array', items: { type: 'number' }, description: 'Thought #IDs folded into the message' },
+        discarded: { type: 'array', items: { type: 'number' }, description: 'Thought #IDs dropped as obsolete' },
+        chunk: { type: 'number', description: 'Step number, when the prompt asked you to condense one step of a large buffer' },
+      },
+      required: ['synthesisId', 'output'],
+    },
+    async execute(_id: string, params: unknown) {
+      const agentId = resolveAgentId(toolCtx, identity);
+      const reject = (error: string) => {
+        logger.warn(`[antibeaver] submit_synthesis from ${agentId} rejected: ${error}`);
+        return { content: [{ type: 'text', text: JSON.stringify({ ok: false, error }) }] };
+      };
+
+      const submission = validateSubmission(params);
+      if (typeof submission === 'string') return reject(submission);
+
+      if (submission.chunk !== undefined) {
+        const { synthesisId, chunk, output } = submission;
+        // Only the merge shows channel history, so only fetch it for the last step
+        const event = getSynthesisEvent(db, synthesisId);
+        const lastStep = event?.chunks && JSON.parse(event.chunks).length === (event.summaries ? JSON.parse(event.summaries).length : 0) + 1;
+        const channelHistory = lastStep ? await fetchChannelHistory(getSynthesisThoughts(db, synthesisId)) : '';
+        const step = submitChunkSummary(db, agentId, synthesisId, chunk, output, progress => buildNextStep(progress, channelHistory));
+        if (typeof step === 'string') return reject(step);
+        logger.info(`[antibeaver] Synthesis #${synthesisId} step ${step.done}/${step.total} condensed by ${agentId}`);
+        const hint = step.done < step.total ? 'Condense the next step below.' : 'All steps condensed. Write the final message below.';
+        return { content: [{ type: 'text', text: JSON.stringify({ ok: true, synthesisId, chunk, remaining: step.total - step.done, hint, next: step.prompt }) }] };
+      }
+
+      const { synthesisId } = submission;
+      let final = submission;
+      let structured: Record<string, unknown> = {};
+      if (outputMode === 'json') {
+        const reply = parseSynthesisReply(submission.output, getSynthesisThoughtIds(db, synthesisId));
+        if (reply.format === 'json') {
+          const { message, kept, discarded, reasons, unaccounted } = reply;
+          final = { ...submission, output: message, kept, discarded, reasons, format: 'json' };
+          structured = { format: 'json', unaccounted };
+        } else {
+          // Still a message the agent sent; keep it, and whatever IDs came as params
+          logger.warn(`[antibeaver] Synthesis #${synthesisId} from ${agentId} is not a valid envelope (${reply.error}); recording it as free text`);
+          insertAudit(db, 'synthesis_fallback', `agent ${agentId}`, 'antibeaver', `#${synthesisId}: ${reply.error}`);
+          structured = { format: 'text', parseError: reply.error };
+        }
+      }
+
+      const result = completeSynthesis(db, agentId, final);
+      if (typeof result === 'string') return reject(result);
+
+      logger.info(`[antibeaver] Synthesis #${synthesisId} completed by ${agentId}: ${result.kept} kept, ${result.discarded} discarded`);
+      coordinator.acknowledge(agentId, final.output);
+      return { content: [{ type: 'text', text: JSON.stringify({ ok: true, synthesisId, ...result, ...structured }) }] };
+    },
+  }), { name: 'submit_synthesis' });
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // COMMAND: /halt
+  // ═══════════════════════════════════════════════════════════════════════
+
+  api.registerCommand({
+    name: 'halt',
+    description: 'Emergency halt - P0 interrupt, bypasses queue. Scope with agent <id> or channel <name>.',
+    acceptsArgs: true,
+    requireAuth: true,
+    handler: async (ctx) => {
+      const parsed = parseHaltArgs(ctx.args || '');
+      if (!parsed) return { text: `❌ Usage: \`/halt [agent <id> | channel <name>] [reason]\`` };
+      const { scope, reason } = parsed;
+
+      setControl(applyHalt(state, scope, true), ctx.senderId, reason);
+      insertAudit(db, 'halt', describeHaltScope(scope), ctx.senderId, reason);
+      const ts = new Date().toISOString();
+      logger.warn(`[antibeaver] 🚨 HALT ${describeHaltScope(scope)} by ${ctx.senderId} at ${ts}${reason ? ` (${reason})` : ''}`);
+
+      const what = scope.kind === 'global' ? 'All agent output suspended.' : `Output for ${describeHaltScope(scope)} suspended.`;
+      return {
+        text: `🚨 **${scope.kind === 'global' ? 'SYSTEM HALTED' : `HALTED: ${describeHaltScope(scope)}`}**
+
+Time: ${ts}
+By: ${ctx.senderId}${reason ? `\nReason: ${reason}` : ''}
+
+${what} Send \`/resume${scope.kind === 'global' ? '' : ` ${scope.kind} ${scope.id}`}\` to lift.`
+      };
+    },
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // COMMAND: /resume
+  // ═══════════════════════════════════════════════════════════════════════
+
+  api.registerCommand({
+    name: 'resume',
+    description: 'Lift a halt. Scope with agent <id> or channel <name>, or `all` for every halt.',
+    acceptsArgs: true,
+    requireAuth: true,
+    handler: async (ctx) => {
+      const args = (ctx.args || '').trim();
+      if (/^all\b/i.test(args)) {
+        const reason = args.slice(3).trim() || undefined;
+        setControl({ systemHalted: false, haltedAgents: [], haltedChannels: [] }, ctx.senderId, reason);
+        insertAudit(db, 'resume', 'everything', ctx.senderId, reason);
+        logger.info(`[antibeaver] All halts lifted by ${ctx.senderId}`);
+        return { text: `▶️ **All halts lifted**` };
+      }
+
+      const parsed = parseHaltArgs(args);
+      if (!parsed) return { text: `❌ Usage: \`/resume [agent <id> | channel <name> | all] [reason]\`` };
+      const { scope, reason } = parsed;
+
+      setControl(applyHalt(state, scope, false), ctx.senderId, reason);
+      insertAudit(db, 'resume', describeHaltScope(scope), ctx.senderId, reason);
+      logger.info(`[antibeaver] Resumed ${describeHaltScope(scope)} by ${ctx.senderId}`);
+
+      // Buffering overrides are left alone; say so if they still hold output back
+      const still = state.globalForcedBuffering || state.simulatedLatencyMs > 0
+        ? '\n\nForced buffering or simulation is still on; see `/buffer`.'
+        : '';
+      return { text: `▶️ **Resumed ${describeHaltScope(scope)}**${still}` };
+    },
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // COMMAND: /buffer
+  // ═══════════════════════════════════════════════════════════════════════
+
+  api.registerCommand({
+    name: 'buffer',
+    description: 'Buffer status and controls',
+    acceptsArgs: true,
+    requireAuth: true,
+    handler: async (ctx) => {
+      const args = (ctx.args || '').trim().split(/\s+/);
+      const cmd = args[0].toLowerCase();
+      
+      if (cmd === 'on') {
+        setControl({ globalForcedBuffering: true }, ctx.senderId, args.slice(1).join(' ') || undefined);
+        return { text: `⏸️ **Buffering ENABLED**\n\nAll agents will buffer until \`/buffer off\`.` };
+      }
+      
+      if (cmd === 'off') {
+        setControl({ globalForcedBuffering: false }, ctx.senderId, args.slice(1).join(' ') || undefined);
+        const halted = state.systemHalted ? '\n\nStill halted; send `/resume` to lift it.' : '';
+        return { text: `▶️ **Buffering DISABLED**\n\nResumed automatic mode.${halted}` };
+      }
+      
+      if (cmd === 'purge') {
+        const target = args[1] ? validateAgentId(args[1]) : undefined;
+        if (target === null) return { text: `❌ Invalid agent ID: \`${args[1].substring(0, 64)}\`` };
+        const scope = target ? `agent ${target}` : 'all agents';
+        const count = purgePending(db, target, ctx.senderId, 'purged by operator');
+        insertAudit(db, 'purge', scope, ctx.senderId, `${count} thought(s)`);
+        logger.warn(`[antibeaver] ${ctx.senderId} purged ${count} pending thought(s) for ${scope}`);
+        return { text: `🗑️ **Discarded ${count} pending thought(s)** for ${scope}` };
+      }
+
+      if (cmd === 'drop') {
+        const id = Number(args[1]);
+        if (!Number.isInteger(id) || id <= 0) return { text: '❌ Usage: `/buffer drop <id>`' };
+        const reason = args.slice(2).join(' ') || undefined;
+        if (dropThoughts(db, [id], 'dropped', ctx.senderId, reason ?? 'dropped by operator') === 0) {
+          return { text: `❌ Thought #${id} is not pending` };
+        }
+        insertAudit(db, 'drop', `thought #${id}`, ctx.senderId, reason);
+        return { text: `🗑️ **Dropped thought #${id}**` };
+      }
+
+      if (cmd === 'ack') {
+        const id = args[1] ? Number(args[1]) : undefined;
+        if (id !== undefined && (!Number.isInteger(id) || id <= 0)) return { text: '❌ Usage: `/buffer ack [id]`' };
+        const acknowledged = acknowledgeHumanMessages(db, ctx.senderId, id === undefined ? undefined : [id]);
+        if (acknowledged.length === 0) return { text: id === undefined ? '📭 No human is waiting.' : `❌ Message #${id} is not waiting` };
+        for (const ackId of acknowledged) insertAudit(db, 'human_ack', `human message #${ackId}`, ctx.senderId);
+        evaluate();
+        return { text: `✅ **Acknowledged** #${acknowledged.join(', #')}` };
+      }
+
+      if (cmd === 'simulate') {
+        const ms = validateLatency(parseInt(args[1] || '0', 10));
+        setControl({ simulatedLatencyMs: ms }, ctx.senderId, args.slice(2).join(' ') || undefined);
+        if (ms > 0) {
+          return { text: `🧪 **Simulating ${ms}ms latency**` };
+        }
+        return { text: `🧪 **Simulation off**` };
+      }
+      
+      // Status
+      const report = formatStatusReport({
+        status: evaluate(),
+        state,
+        thresholds,
+        channels: health.snapshot(state),
+        agents: getPendingSummary(db),
+        lastSynthesisAt: getLastSynthesisAt(db),
+        rateLimits: rateLimit.enabled ? rateLimiter.levels() : undefined,
+        loops: recentLoops(),
+        humans: humansWaiting(),
+      });
+      
+      return {
+        text: `${report}
+
+**Commands:** \`/buffer on|off [reason]\`, \`/buffer simulate <ms> [reason]\`, \`/buffer purge [agent]\`, \`/buffer drop <id> [reason]\`, \`/buffer ack [id]\`, \`/flush\`, \`/halt [agent <id> | channel <name>] [reason]\`, \`/resume\``
+      };
+    },
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // COMMAND: /flush
+  // ═══════════════════════════════════════════════════════════════════════
+
+  api.registerCommand({
+    name: 'flush',
+    description: 'Trigger synthesis of buffered thoughts',
+    acceptsArgs: true,
+    requireAuth: true,
+    handler: async (ctx) => {
+      const arg = (ctx.args || '').trim();
+      let agents: string[];
+      if (arg.toLowerCase() === 'all') {
+        agents = getAllPendingAgents(db);
+      } else if (arg) {
+        const agentId = validateAgentId(arg);
+        if (!agentId) return { text: `❌ Invalid agent ID: \`${arg.substring(0, 64)}\`` };
+        agents = [agentId];
+      } else {
+        agents = [identity.defaultAgentId];
+      }
+      
+      if (agents.length === 0 || getPendingCount(db) === 0) {
+        return { text: `📭 No pending thoughts.` };
+      }
+      
+      // Several agents at once: hand prompts out in turn rather than all in this reply
+      const canDeliver = typeof api.runtime?.system?.enqueueSystemEvent === 'function';
+      if (coordination.enabled && canDeliver && agents.length > 1) {
+        const queued = coordinator.start(agents, true);
+        if (queued.length === 0) return { text: `⏳ A coordinated drain is already running.` };
+        const order = queued.map((agentId, i) => `${i + 1}. ${agentId}`).join('\n');
+        return { text: `🔄 **COORDINATED DRAIN**\n\nSynthesis prompts go out one agent per channel at a time:\n${order}` };
+      }
+
+      const results: string[] = [];
+      for (const agentId of agents) {
+        const batch = await startSynthesis(agentId, buildPrompt);
+        if (!batch) continue;
+        
+        const steps = batch.chunks ? `, ${batch.chunks.length} condensing steps` : '';
+        results.push(`### ${agentId} (${batch.thoughts.length} thoughts${steps})\n\n${batch.prompt}`);
+      }
+      
+      if (results.length === 0) {
+        return { text: `📭 No pending thoughts for ${agents.join(', ')}.` };
+      }
+      
+      return { text: `🔄 **SYNTHESIS**\n\n${results.join('\n\n---\n\n')}` };
+    },
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // RPC: Record latency
+  // ═══════════════════════════════════════════════════════════════════════
+
+  /** Shared by the gateway method and the heartbeat probes */
+  /** `raw` undefined is a depth-only report: no latency sample, and no metrics row, which needs one */
+  const recordLatency = (raw: unknown, dest?: Destination, synthetic = false, queueDepth: number | null = null) => {
+    const latencyMs = raw === undefined ? null : validateLatency(raw);
+    if (latencyMs !== null) health.record(latencyMs, dest);
+    if (queueDepth !== null) health.recordQueueDepth(queueDepth, dest);
+    if (latencyMs !== null) insertMetric(db, latencyMs, dest?.channel, dest?.target, synthetic, queueDepth);
+    evaluate();
+    return { latencyMs, status: shouldBuffer(dest) };
+  };
+
+  api.registerGatewayMethod('antibeaver.recordLatency', ({ respond }, params) => {
+    const { latencyMs: raw, queueDepth: rawDepth, channel, target } =
+      (params ?? {}) as { latencyMs?: unknown; queueDepth?: unknown; channel?: string; target?: string };
+    const queueDepth = validateQueueDepth(rawDepth);
+    const { latencyMs, status } = recordLatency(raw, channel ? { channel, target } : undefined, false, queueDepth);
+    respond(true, {
+      recorded: true,
+      latencyMs,
+      queueDepth,
+      channel: channel ?? null,
+      mode: status.mode,
+      buffering: status.buffering,
+      reason: status.reason,
+    });
+  });
+
+  api.registerGatewayMethod('antibeaver.status', ({ respond }) => {
+    const status = evaluate();
+    respond(true, {
+      buffering: status.buffering,
+      mode: status.mode,
+      modeSince: new Date(status.modeSince).toISOString(),
+      reason: status.reason,
+      halted: state.systemHalted,
+      control: state.audit ?? {},
+      pending: getPendingCount(db),
+      agents: getAllPendingAgents(db),
+      channels: health.snapshot(state),
+      loops: recentLoops(),
+      humansWaiting: humansWaiting(),
+    });
+  });
+
+  // For runtimes without a message_received hook: report an inbound message directly
+  api.registerGatewayMethod('antibeaver.humanMessage', ({ respond }, params) => {
+    const message = extractInbound(params);
+    if (!message) {
+      respond(false, { error: 'senderId and content are required' });
+      return;
+    }
+    const id = receiveHuman(message);
+    respond(true, id === null ? { recorded: false, reason: 'not an operator' } : { recorded: true, id, priority: 'P0' });
+  });
+
+  // Sends that bypass the wrapped tools can still be counted towards loop detection
+  api.registerGatewayMethod('antibeaver.recordSend', ({ respond }, params) => {
+    const { agentId: rawAgent, channel, target } = (params ?? {}) as { agentId?: unknown; channel?: unknown; target?: unknown };
+    const agentId = validateAgentId(rawAgent);
+    if (!agentId || typeof channel !== 'string' || channel.length === 0) {
+      respond(false, { error: 'agentId and channel are required' });
+      return;
+    }
+    const tripped = recordSend({ agentId, channel, target: typeof target === 'string' ? target : '', at: Date.now() });
+    respond(true, { recorded: true, loopDetected: tripped, halted: haltReason(state, agentId, channel) !== null });
+  });
+
+  // ═══════════════════════════════════════════════════════════════════════
+  // PROBES: synthetic heartbeats, so recovery is seen without real traffic
+  // ═══════════════════════════════════════════════════════════════════════
+
+  const probeTargets: ProbeTarget[] = (probeConfig.targets ?? []).filter((t: ProbeTarget) => typeof t?.channel === 'string');
+  const probes = new ProbeScheduler({
+    probe: options.probe ?? httpProbe,
+    record: (latencyMs, dest) => { recordLatency(latencyMs, dest, true); },
+    // A halted system isn't sending anyway; no point measuring it at full rate
+    isHalted: () => state.systemHalted,
+    logger,
+  }, {
+    targets: probeTargets,
+    intervalMs: probeConfig.intervalMs ?? DEFAULT_PROBE_OPTIONS.intervalMs,
+    timeoutMs: probeConfig.timeoutMs ?? DEFAULT_PROBE_OPTIONS.timeoutMs,
+    maxIntervalMs: probeConfig.maxIntervalMs ?? DEFAULT_PROBE_OPTIONS.maxIntervalMs,
+  });
+
+  if (probeConfig.enabled) {
+    if (probeTargets.length === 0) logger.warn('[antibeaver] probes.enabled is set but no probe targets are configured');
+    else {
+      probes.start();
+      logger.info(`[antibeaver] Probing ${probeTargets.map(t => t.channel).join(', ')} every ${probes.getIntervalMs()}ms`);
+    }
+  }
+
+  logger.info('[antibeaver] v0.2.1 loaded. Commands: /halt, /resume, /buffer, /flush. Tools: buffer_thought, retract_thought, amend_thought, get_buffer_status, get_peer_buffers, acknowledge_human, submit_synthesis');
+
+  return {
+    state,
+    health,
+    evaluate,
+    syncControl,
+    expireStale,
+    probes,
+    dispose: () => {
+      probes.stop();
+      drainScheduler.cancel();
+      for (const timer of timers) clearInterval(timer);
+    },
+  };
+}
+
@@ -0,0 +1,150 @@
+/**
+ * Antibeaver Probe - Synthetic heartbeats for active latency measurement
+ * Without traffic there are no samples, and recovery goes unnoticed
+ */
+
+import type { Destination } from './core.ts';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface ProbeTarget extends Destination {
+  /** Endpoint for the built-in HTTP probe */
+  url?: string;
+}
+
+/** Resolve with the round-trip time in ms; reject if the channel is unreachable */
+export type ProbeFn = (target: ProbeTarget, timeoutMs: number) => Promise<number>;
+
+export interface ProbeDeps {
+  probe: ProbeFn;
+  /** Same path as `antibeaver.recordLatency`, tagged synthetic */
+  record(latencyMs: number, dest: Destination): void;
+  isHalted(): boolean;
+  logger?: { info(msg: string): void; warn(msg: string): void };
+}
+
+export interface ProbeOptions {
+  targets: ProbeTarget[];
+  intervalMs: number;
+  timeoutMs: number;
+  /** Ceiling for the halted backoff */
+  maxIntervalMs: number;
+}
+
+export interface ProbeResult {
+  target: ProbeTarget;
+  latencyMs: number;
+  ok: boolean;
+}
+
+export const DEFAULT_PROBE_OPTIONS: Omit<ProbeOptions, 'targets'> = {
+  intervalMs: 15000,
+  timeoutMs: 10000,
+  maxIntervalMs: 300000,
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// HTTP PROBE
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Time to response headers for the target's `url`. Any HTTP status counts as
+ * reachable; the question is how long the round trip takes, not what it says.
+ */
+export const httpProbe: ProbeFn = async (target, timeoutMs) => {
+  if (!target.url) throw new Error(`no url configured for ${target.channel}`);
+  const started = Date.now();
+  const response = await fetch(target.url, { method: 'HEAD', signal: AbortSignal.timeout(timeoutMs) });
+  await response.body?.cancel();
+  return Date.now() - started;
+};
+
+// ═══════════════════════════════════════════════════════════════════════════
+// SCHEDULER
+// ═══════════════════════════════════════════════════════════════════════════
+
+/**
+ * Probes every target each interval. A failed or timed-out probe is recorded
+ * as `timeoutMs`, so a dead channel reads as slow rather than silent.
+ * While halted nothing is probed and the interval doubles up to `maxIntervalMs`.
+ */
+export class ProbeScheduler {
+  private deps: ProbeDeps;
+  private options: ProbeOptions;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private currentIntervalMs: number;
+  /** Bumped by stop(), so a round still in flight from an earlier run can't reschedule */
+  private generation = 0;
+
+  constructor(deps: ProbeDeps, options: ProbeOptions) {
+    this.deps = deps;
+    this.options = options;
+    this.currentIntervalMs = options.intervalMs;
+  }
+
+  start(): void {
+    if (this.timer || this.options.targets.length === 0) return;
+    this.schedule(0);
+  }
+
+  stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.generation++;
+  }
+
+  isRunning(): boolean {
+    return this.timer !== null;
+  }
+
+  getIntervalMs(): number {
+    return this.currentIntervalMs;
+  }
+
+  /** One round. Returns nothing while halted. */
+  async tick(): Promise<ProbeResult[]> {
+    if (this.deps.isHalted()) {
+      this.currentIntervalMs = Math.min(this.currentIntervalMs * 2, this.options.maxIntervalMs);
+      return [];
+    }
+    this.currentIntervalMs = this.options.intervalMs;
+    return Promise.all(this.options.targets.map(target => this.probeOne(target)));
+  }
+
+  private async probeOne(target: ProbeTarget): Promise<ProbeResult> {
+    const { timeoutMs } = this.options;
+    const name = `${target.channel}${target.target ? `/${target.target}` : ''}`;
+    let latencyMs: number;
+    let ok = true;
+    try {
+      latencyMs = Math.min(await this.deps.probe(target, timeoutMs), timeoutMs);
+    } catch (err) {
+      this.deps.logger?.warn(`[antibeaver] Probe ${name} failed: ${err}`);
+      latencyMs = timeoutMs;
+      ok = false;
+    }
+    try {
+      this.deps.record(latencyMs, { channel: target.channel, target: target.target });
+    } catch (err) {
+      this.deps.logger?.warn(`[antibeaver] Probe ${name} could not be recorded: ${err}`);
+    }
+    return { target, latencyMs, ok };
+  }
+
+  private schedule(delayMs: number): void {
+    const generation = this.generation;
+    this.timer = setTimeout(async () => {
+      // A round that throws must not end probing: the next one may be the one that sees recovery
+      try {
+        await this.tick();
+      } catch (err) {
+        this.deps.logger?.warn(`[antibeaver] Probe round failed: ${err}`);
+      }
+      // stop() may have been called while the round was in flight, and start() again since
+      if (this.timer && generation === this.generation) this.schedule(this.currentIntervalMs);
+    }, delayMs);
+    this.timer.unref?.();
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * Antibeaver Rate Limit - Token buckets for sends while the network is healthy
+ * Five agents at ten messages a minute make their own congestion; hold the excess back
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface BucketSpec {
+  /** Sends allowed in a burst */
+  capacity: number;
+  /** Tokens added back per minute, up to `capacity` */
+  refillPerMinute: number;
+}
+
+export interface RateLimitConfig {
+  enabled: boolean;
+  perAgent: BucketSpec;
+  perChannel: BucketSpec;
+  /** Agent ID → bucket; replaces `perAgent` for that agent */
+  agents: Record<string, BucketSpec>;
+  /** Channel → bucket; replaces `perChannel` for that channel */
+  channels: Record<string, BucketSpec>;
+  /** P0 sends always go out, taking a token only if one is there */
+  exemptP0: boolean;
+}
+
+export interface ResolvedRateLimit {
+  config: RateLimitConfig;
+  /** One line per rejected bucket; those fall back to the default */
+  errors: string[];
+}
+
+export interface BucketLevel {
+  scope: 'agent' | 'channel';
+  id: string;
+  tokens: number;
+  capacity: number;
+  refillPerMinute: number;
+}
+
+/** Off unless configured: an upgrade must not start holding back sends that went out before */
+export const DEFAULT_RATE_LIMIT: RateLimitConfig = {
+  enabled: false,
+  perAgent: { capacity: 10, refillPerMinute: 10 },
+  perChannel: { capacity: 30, refillPerMinute: 30 },
+  agents: {},
+  channels: {},
+  exemptP0: true,
+};
+
+/** The `reason` on a thought held back by a bucket, in status and in `buffered_thoughts` */
+export const RATE_LIMITED = 'rate_limited';
+
+// ═══════════════════════════════════════════════════════════════════════════
+// CONFIG
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Returns an error message, or null if the bucket is usable */
+export function validateBucket(spec: unknown): string | null {
+  if (typeof spec !== 'object' || spec === null) return 'expected { capacity, refillPerMinute }';
+  const { capacity, refillPerMinute } = spec as Partial<BucketSpec>;
+  if (typeof capacity !== 'number' || !(capacity >= 1)) return 'capacity must be at least 1';
+  if (typeof refillPerMinute !== 'number' || !(refillPerMinute > 0)) return 'refillPerMinute must be positive';
+  return null;
+}
+
+export function resolveRateLimit(config: Partial<RateLimitConfig> = {}): ResolvedRateLimit {
+  const errors: string[] = [];
+  const check = (label: string, spec: unknown): spec is BucketSpec => {
+    const error = validateBucket(spec);
+    if (error) errors.push(`${label}: ${error}`);
+    return error === null;
+  };
+
+  const resolved: RateLimitConfig = {
+    ...DEFAULT_RATE_LIMIT,
+    enabled: config.enabled ?? DEFAULT_RATE_LIMIT.enabled,
+    exemptP0: config.exemptP0 ?? DEFAULT_RATE_LIMIT.exemptP0,
+    agents: {},
+    channels: {},
+  };
+  if (config.perAgent !== undefined && check('perAgent', config.perAgent)) resolved.perAgent = config.perAgent;
+  if (config.perChannel !== undefined && check('perChannel', config.perChannel)) resolved.perChannel = config.perChannel;
+  for (const [agentId, spec] of Object.entries(config.agents ?? {})) {
+    if (check(`agents.${agentId}`, spec)) resolved.agents[agentId] = spec;
+  }
+  for (const [channel, spec] of Object.entries(config.channels ?? {})) {
+    if (check(`channels.${channel}`, spec)) resolved.channels[channel] = spec;
+  }
+  return { config: resolved, errors };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// BUCKETS
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Starts full; refills continuously, so a send is allowed whenever a whole token is there */
+export class TokenBucket {
+  readonly spec: BucketSpec;
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(spec: BucketSpec, now = Date.now()) {
+    this.spec = spec;
+    this.tokens = spec.capacity;
+    this.updatedAt = now;
+  }
+
+  level(now = Date.now()): number {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.spec.capacity, this.tokens + elapsed * this.spec.refillPerMinute / 60000);
+    this.updatedAt = Math.max(this.updatedAt, now);
+    return this.tokens;
+  }
+
+  hasToken(now = Date.now()): boolean {
+    return this.level(now) >= 1;
+  }
+
+  /** Take a token if there is one */
+  take(now = Date.now()): boolean {
+    if (!this.hasToken(now)) return false;
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+/**
+ * One bucket per agent and one per channel, created on first use. A send
+ * needs a token from both; if either is empty, neither is spent.
+ */
+export class RateLimiter {
+  private config: RateLimitConfig;
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(config: RateLimitConfig) {
+    this.config = config;
+  }
+
+  private bucket(scope: BucketLevel['scope'], id: string, now: number): TokenBucket {
+    const key = `${scope}:${id}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      const spec = scope === 'agent'
+        ? this.config.agents[id] ?? this.config.perAgent
+        : this.config.channels[id] ?? this.config.perChannel;
+      bucket = new TokenBucket(spec, now);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Spend a token for this send. Returns null if it may go out now, or a
+   * description of the bucket that ran dry.
+   */
+  take(agentId: string, channel: string, priority: 'P0' | 'P1' | 'P2', now = Date.now()): string | null {
+    if (!this.config.enabled) return null;
+    const agent = this.bucket('agent', agentId, now);
+    const chan = this.bucket('channel', channel, now);
+
+    if (priority === 'P0' && this.config.exemptP0) {
+      agent.take(now);
+      chan.take(now);
+      return null;
+    }
+    if (!agent.hasToken(now)) return `agent ${agentId} over ${agent.spec.refillPerMinute}/min`;
+    if (!chan.hasToken(now)) return `channel ${channel} over ${chan.spec.refillPerMinute}/min`;
+    agent.take(now);
+    chan.take(now);
+    return null;
+  }
+
+  /** Whether a send from this agent to these channels would get through now */
+  available(agentId: string, channels: string[], now = Date.now()): boolean {
+    if (!this.config.enabled) return true;
+    return this.bucket('agent', agentId, now).hasToken(now)
+      && channels.every(channel => this.bucket('channel', channel, now).hasToken(now));
+  }
+
+  /** Every bucket used so far, agents first */
+  levels(now = Date.now()): BucketLevel[] {
+    return [...this.buckets.entries()]
+      .map(([key, bucket]) => {
+        const [scope, ...rest] = key.split(':');
+        return {
+          scope: scope as BucketLevel['scope'],
+          id: rest.join(':'),
+          tokens: Math.floor(bucket.level(now) * 10) / 10,
+          capacity: bucket.spec.capacity,
+          refillPerMinute: bucket.spec.refillPerMinute,
+        };
+      })
+      .sort((a, b) => a.scope.localeCompare(b.scope) || a.id.localeCompare(b.id));
+  }
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// FORMATTING
+// ═══════════════════════════════════════════════════════════════════════════
+
+export function formatBucketLevel(level: BucketLevel): string {
+  const icon = level.tokens < 1 ? '🪣' : '▶️';
+  return `  • **${level.scope} ${level.id}**: ${icon} ${level.tokens}/${level.capacity} tokens, +${level.refillPerMinute}/min`;
+}
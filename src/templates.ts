@@ -0,0 +1,144 @@
+/**
+ * Antibeaver Templates - Configurable synthesis prompt wording
+ * `{{variable}}` placeholders, checked once at load, chosen per agent or channel
+ */
+
+// ═══════════════════════════════════════════════════════════════════════════
+// TYPES
+// ═══════════════════════════════════════════════════════════════════════════
+
+export interface TemplateConfig {
+  /** Replaces the built-in "NETWORK RECOVERED" template */
+  default?: string;
+  /** Agent ID → template; beats a channel override */
+  agents?: Record<string, string>;
+  /** Channel → template; used when every thought in the batch is for that channel */
+  channels?: Record<string, string>;
+}
+
+export interface PromptTemplates {
+  default: string;
+  agents: Record<string, string>;
+  channels: Record<string, string>;
+}
+
+export interface ResolvedTemplates {
+  templates: PromptTemplates;
+  /** One line per rejected template; those fall back to the default */
+  errors: string[];
+}
+
+export type TemplateVariable =
+  | 'thoughts'
+  | 'count'
+  | 'thoughtCount'
+  | 'p0Count'
+  | 'p0Note'
+  | 'collapsedNote'
+  | 'outageDuration'
+  | 'agentId'
+  | 'channel'
+  | 'channelHistory'
+  | 'peerThoughts'
+  | 'released'
+  | 'submit';
+
+export type TemplateVariables = Record<TemplateVariable, string>;
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = [
+  'thoughts', 'count', 'thoughtCount', 'p0Count', 'p0Note', 'collapsedNote',
+  'outageDuration', 'agentId', 'channel', 'channelHistory', 'peerThoughts', 'released', 'submit',
+];
+
+/** Without these the agent either sees nothing to review or never reports back */
+const REQUIRED_VARIABLES: TemplateVariable[] = ['thoughts', 'submit'];
+
+/**
+ * Today's prompt. `p0Note`, `collapsedNote`, `channelHistory`, `peerThoughts`,
+ * `released` and `submit` are empty or begin with a blank line, so they can
+ * end a line of their own.
+ */
+export const DEFAULT_SYNTHESIS_TEMPLATE = `**SYSTEM: NETWORK RECOVERED**
+
+While congested, you drafted {{count}} messages:
+
+{{thoughts}}
+{{p0Note}}{{collapsedNote}}{{channelHistory}}{{peerThoughts}}{{released}}
+
+**TASK:** Review against current channel state.
+- Discard obsolete/superseded thoughts
+- Synthesize remaining into ONE coherent message
+- Do not apologize or mention delays{{submit}}`;
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z0-9_]+)\s*\}\}/g;
+
+// ═══════════════════════════════════════════════════════════════════════════
+// VALIDATION
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Returns an error message, or null if the template is usable */
+export function validateTemplate(template: unknown): string | null {
+  if (typeof template !== 'string' || template.trim().length === 0) {
+    return 'template must be a non-empty string';
+  }
+
+  const used = new Set<string>();
+  for (const match of template.matchAll(PLACEHOLDER)) used.add(match[1]);
+
+  const unknown = [...used].filter(v => !TEMPLATE_VARIABLES.includes(v as TemplateVariable));
+  if (unknown.length > 0) {
+    return `unknown variable(s) ${unknown.map(v => `{{${v}}}`).join(', ')}; expected one of ${TEMPLATE_VARIABLES.join(', ')}`;
+  }
+
+  const leftover = template.replace(PLACEHOLDER, '');
+  if (leftover.includes('{{') || leftover.includes('}}')) {
+    return 'unbalanced {{ or }}';
+  }
+
+  const missing = REQUIRED_VARIABLES.filter(v => !used.has(v));
+  if (missing.length > 0) {
+    return `missing required variable(s) ${missing.map(v => `{{${v}}}`).join(', ')}`;
+  }
+  return null;
+}
+
+/**
+ * Validate every configured template. A bad override is dropped, a bad
+ * default is replaced by the built-in one; each is reported in `errors`.
+ */
+export function resolveTemplates(config: TemplateConfig = {}): ResolvedTemplates {
+  const errors: string[] = [];
+  const check = (label: string, template: unknown): template is string => {
+    const error = validateTemplate(template);
+    if (error) errors.push(`${label}: ${error}`);
+    return error === null;
+  };
+
+  const templates: PromptTemplates = { default: DEFAULT_SYNTHESIS_TEMPLATE, agents: {}, channels: {} };
+  if (config.default !== undefined && check('default', config.default)) templates.default = config.default;
+  for (const [agentId, template] of Object.entries(config.agents ?? {})) {
+    if (check(`agents.${agentId}`, template)) templates.agents[agentId] = template;
+  }
+  for (const [channel, template] of Object.entries(config.channels ?? {})) {
+    // Channels are matched case-insensitively, as everywhere else
+    if (check(`channels.${channel}`, template)) templates.channels[channel.trim().toLowerCase()] = template;
+  }
+  return { templates, errors };
+}
+
+// ═══════════════════════════════════════════════════════════════════════════
+// RENDERING
+// ═══════════════════════════════════════════════════════════════════════════
+
+/** Agent override, then channel override, then the default */
+export function selectTemplate(templates: PromptTemplates, agentId?: string, channel?: string): string {
+  if (agentId && templates.agents[agentId]) return templates.agents[agentId];
+  const key = channel?.trim().toLowerCase();
+  if (key && templates.channels[key]) return templates.channels[key];
+  return templates.default;
+}
+
+/** Single pass, so text substituted in (thought content) is never expanded again */
+export function renderTemplate(template: string, variables: Partial<TemplateVariables>): string {
+  return template.replace(PLACEHOLDER, (_, name: string) => variables[name as TemplateVariable] ?? '');
+}
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runCli } from '../../src/cli';
+import {
+  initDatabase, insertThought, insertMetric, insertHumanMessage, insertAudit, getAuditLog, getControlRows, setControlValue, takeDrainRequests, getPendingCount, DB,
+} from '../../src/db';
+
+describe('antibeaver CLI', () => {
+  let dir: string;
+  let dbPath: string;
+  let out: string[];
+  let err: string[];
+
+  const run = (...args: string[]) => runCli([...args, '--db', dbPath, '--by', 'tester'], {
+    out: line => out.push(line),
+    err: line => err.push(line),
+  });
+
+  const withDb = <T>(fn: (db: DB) => T): T => {
+    const db = initDatabase(dbPath);
+    try {
+      return fn(db);
+    } finally {
+      db.close();
+    }
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'antibeaver-cli-'));
+    dbPath = path.join(dir, 'governance.db');
+    out = [];
+    err = [];
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('status', () => {
+    it('should render the summary for an empty database', () => {
+      expect(run('status')).toBe(0);
+      const text = out.join('\n');
+      expect(text).toContain('Antibeaver Status');
+      expect(text).toContain('NORMAL');
+      expect(text).toContain('Pending (0 total)');
+      expect(text).not.toContain('**');
+    });
+
+    it('should list pending thoughts per agent with high priority counts', () => {
+      withDb(db => {
+        insertThought(db, 'architect', 'slack', '#ops', 'use Redis', 'P0');
+        insertThought(db, 'architect', 'slack', '#ops', 'actually, queues', 'P1');
+        insertThought(db, 'main', 'slack', '#ops', 'retrying', 'P1');
+      });
+
+      run('status');
+      const text = out.join('\n');
+      expect(text).toContain('Pending (3 total)');
+      expect(text).toContain('architect: 2 thoughts (1 high priority)');
+      expect(text).toContain('main: 1 thoughts');
+    });
+
+    it('should reflect recorded latency per channel', () => {
+      withDb(db => insertMetric(db, 12000, 'slack'));
+
+      run('status');
+      const text = out.join('\n');
+      expect(text).toContain('BUFFERING');
+      expect(text).toContain('slack');
+    });
+
+    it('should judge health by the thresholds the plugin persisted', () => {
+      withDb(db => {
+        setControlValue(db, 'thresholds', JSON.stringify({ degradedMs: 500, criticalMs: 1000 }), 'antibeaver', 'plugin config');
+        insertMetric(db, 2000, 'slack');
+      });
+
+      run('status');
+      expect(out.join('\n')).toContain('BUFFERING');
+    });
+
+    it('should reflect recorded queue depth', () => {
+      withDb(db => insertMetric(db, 200, 'slack', undefined, false, 44));
+
+      run('status');
+      const text = out.join('\n');
+      expect(text).toContain('queue depth 44 > 40 (critical)');
+      expect(text).toContain('queue 44');
+    });
+
+    it('should show a waiting operator and recent loops', () => {
+      withDb(db => {
+        insertHumanMessage(db, 'rick', 'slack', '#ops', 'STOP');
+        insertAudit(db, 'loop_detected', 'agent architect, agent strategist', 'antibeaver', 'architect ↔ strategist on slack #ops: 6 turns in 1m 0s');
+      });
+
+      run('status');
+      const text = out.join('\n');
+      expect(text).toMatch(/Human waiting since .*\n  • #1 rick on slack #ops: "STOP"/);
+      expect(text).toContain('Loops Detected');
+      expect(text).toContain('architect ↔ strategist on slack #ops');
+    });
+  });
+
+  describe('list', () => {
+    it('should print pending thoughts', () => {
+      withDb(db => insertThought(db, 'main', 'slack', '#ops', 'hello\nworld', 'P1'));
+
+      run('list');
+      expect(out[0]).toContain('main');
+      expect(out[1]).toContain('hello world');
+    });
+
+    it('should filter by agent', () => {
+      withDb(db => {
+        insertThought(db, 'main', 'slack', '', 'a', 'P1');
+        insertThought(db, 'architect', 'slack', '', 'b', 'P1');
+      });
+
+      run('list', '--agent', 'architect');
+      expect(out).toHaveLength(2);
+      expect(out[0]).toContain('architect');
+    });
+  });
+
+  describe('purge', () => {
+    it('should refuse without --yes', () => {
+      withDb(db => insertThought(db, 'main', 'slack', '', 'a', 'P1'));
+
+      expect(run('purge')).toBe(2);
+      expect(err[0]).toContain('--yes');
+      expect(withDb(db => getPendingCount(db))).toBe(1);
+    });
+
+    it('should discard pending thoughts for one agent', () => {
+      withDb(db => {
+        insertThought(db, 'main', 'slack', '', 'a', 'P1');
+        insertThought(db, 'architect', 'slack', '', 'b', 'P1');
+      });
+
+      expect(run('purge', '--agent', 'main', '--yes')).toBe(0);
+      expect(withDb(db => getPendingCount(db, 'main'))).toBe(0);
+      expect(withDb(db => getPendingCount(db, 'architect'))).toBe(1);
+    });
+  });
+
+  describe('control flags', () => {
+    it('should write simulated latency with attribution', () => {
+      expect(run('simulate', '--latency', '20000', '--reason', 'drill')).toBe(0);
+
+      const rows = withDb(db => getControlRows(db));
+      expect(rows).toHaveLength(1);
+      expect(rows[0]).toMatchObject({ key: 'simulated_latency_ms', value: '20000', set_by: 'tester', reason: 'drill' });
+    });
+
+    it('should bump the revision on every write', () => {
+      run('buffer', 'on');
+      run('buffer', 'off');
+
+      const [row] = withDb(db => getControlRows(db));
+      expect(row).toMatchObject({ key: 'forced_buffering', value: '0', revision: 2 });
+    });
+
+    it('should show halt in status', () => {
+      run('halt');
+      out = [];
+      run('status');
+
+      expect(out.join('\n')).toContain('HALTED');
+    });
+
+    it('should show who halted and why', () => {
+      run('halt', '--reason', 'runaway loop');
+      out = [];
+      run('status');
+
+      expect(out.join('\n')).toMatch(/Halt: set by tester .* ago — runaway loop/);
+    });
+
+    it('should halt and resume a single agent', () => {
+      run('halt', '--agent', 'architect');
+      run('halt', '--agent', 'main');
+      run('resume', '--agent', 'architect');
+
+      const rows = withDb(db => getControlRows(db));
+      expect(rows).toEqual([expect.objectContaining({ key: 'halted_agents', value: '["main"]', revision: 3 })]);
+    });
+
+    it('should lift every halt with resume --all', () => {
+      run('halt');
+      run('halt', '--channel', 'slack');
+      run('resume', '--all');
+      out = [];
+      run('status');
+
+      expect(out.join('\n')).not.toContain('HALTED');
+      expect(out.join('\n')).not.toContain('Halted channels');
+    });
+
+    it('should record halts and resumes in the audit log', () => {
+      run('halt', '--channel', 'slack', '--reason', 'storm');
+      run('resume', '--channel', 'slack');
+
+      const log = withDb(db => getAuditLog(db));
+      expect(log.map(r => [r.action, r.scope, r.actor, r.reason])).toEqual([
+        ['resume', 'channel slack', 'tester', null],
+        ['halt', 'channel slack', 'tester', 'storm'],
+      ]);
+    });
+
+    it('should queue drain requests for the plugin', () => {
+      expect(run('flush', '--agent', 'architect')).toBe(0);
+      expect(run('flush', '--all')).toBe(0);
+
+      const requests = withDb(db => takeDrainRequests(db));
+      expect(requests.map(r => r.agent_id)).toEqual(['architect', 'all']);
+      expect(withDb(db => takeDrainRequests(db))).toEqual([]);
+    });
+  });
+
+  describe('usage errors', () => {
+    it('should reject flush without a scope', () => {
+      expect(run('flush')).toBe(2);
+    });
+
+    it('should reject unknown commands', () => {
+      expect(run('explode')).toBe(2);
+      expect(err[0]).toContain('Unknown command');
+    });
+
+    it('should reject invalid agent IDs', () => {
+      expect(run('list', '--agent', 'not valid')).toBe(2);
+    });
+  });
+});
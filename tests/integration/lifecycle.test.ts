@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  initDatabase, insertThought, getThought, getThoughtTransitions, beginSynthesis, abandonSynthesis, completeSynthesis,
+  dropThoughts, purgePending, retractThought, amendThought, expireThoughts, DB,
+} from '../../src/db';
+import { generateSynthesisPrompt, resolveTtl } from '../../src/core';
+
+describe('thought lifecycle', () => {
+  let db: DB;
+
+  const age = (id: number, minutes: number) =>
+    db.prepare(`UPDATE buffered_thoughts SET created_at = datetime('now', ?) WHERE id = ?`).run(`-${minutes} minutes`, id);
+  const moves = (id: number) => getThoughtTransitions(db, id).map(t => `${t.from_status ?? '∅'}→${t.to_status} by ${t.actor}`);
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+    insertThought(db, 'architect', 'slack', '#ops', 'use Redis', 'P1');
+    insertThought(db, 'architect', 'slack', '#ops', 'fyi: lunch', 'P2');
+    insertThought(db, 'strategist', 'slack', '#ops', 'ship Friday', 'P1');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('transition log', () => {
+    it('should record every move through synthesis with its actor', () => {
+      beginSynthesis(db, 'architect', (eventId, thoughts) => generateSynthesisPrompt(thoughts, eventId));
+      completeSynthesis(db, 'architect', {
+        synthesisId: 1, output: 'Use Redis.', kept: [1], discarded: [2], reasons: { 2: 'off topic' },
+      });
+
+      expect(moves(1)).toEqual(['∅→pending by architect', 'pending→synthesizing by antibeaver', 'synthesizing→synthesized by architect']);
+      expect(getThoughtTransitions(db, 2).at(-1)).toMatchObject({ to_status: 'discarded', reason: 'off topic' });
+      expect(getThoughtTransitions(db, 2)[0].created_at).toMatch(/^\d{4}-\d{2}-\d{2} /);
+    });
+
+    it('should record a synthesis handing thoughts back', () => {
+      beginSynthesis(db, 'architect', (eventId, thoughts) => generateSynthesisPrompt(thoughts, eventId));
+      abandonSynthesis(db, 1, 'expired');
+
+      expect(getThoughtTransitions(db, 1).at(-1)).toMatchObject({ from_status: 'synthesizing', to_status: 'pending', reason: 'synthesis #1 expired' });
+      expect(getThought(db, 1)?.synthesis_event_id).toBeNull();
+    });
+
+    it('should only log thoughts that actually moved', () => {
+      dropThoughts(db, [1], 'dropped', 'rick');
+      expect(dropThoughts(db, [1], 'dropped', 'rick')).toBe(0);
+      expect(moves(1)).toEqual(['∅→pending by architect', 'pending→dropped by rick']);
+    });
+
+    it('should attribute a purge to whoever asked', () => {
+      expect(purgePending(db, 'architect', 'cli:ops', 'incident')).toBe(2);
+      expect(getThoughtTransitions(db, 2).at(-1)).toMatchObject({ to_status: 'discarded', actor: 'cli:ops', reason: 'incident' });
+      expect(getThought(db, 3)?.status).toBe('pending');
+    });
+  });
+
+  describe('retractThought()', () => {
+    it('should retract the agent\'s own pending thought', () => {
+      const result = retractThought(db, 'architect', 1, 'Redis is already live');
+
+      expect(result).toMatchObject({ id: 1, status: 'retracted' });
+      expect(getThoughtTransitions(db, 1).at(-1)).toMatchObject({ actor: 'architect', reason: 'Redis is already live' });
+    });
+
+    it('should not let one agent retract another\'s thought', () => {
+      expect(retractThought(db, 'strategist', 1)).toBe('Thought #1 not found');
+      expect(getThought(db, 1)?.status).toBe('pending');
+    });
+
+    it('should refuse a thought already in synthesis', () => {
+      beginSynthesis(db, 'architect', (eventId, thoughts) => generateSynthesisPrompt(thoughts, eventId));
+      expect(retractThought(db, 'architect', 1)).toBe('Thought #1 is already in synthesis #1');
+    });
+  });
+
+  describe('amendThought()', () => {
+    it('should rewrite content and priority in place', () => {
+      const result = amendThought(db, 'architect', 1, { content: 'use Redis 7', priority: 'P0' });
+
+      expect(result).toMatchObject({ id: 1, content: 'use Redis 7', priority: 'P0', status: 'pending' });
+      expect(getThoughtTransitions(db, 1).at(-1)).toMatchObject({
+        from_status: 'pending', to_status: 'pending', actor: 'architect', reason: 'amended content, priority P1 → P0',
+      });
+    });
+
+    it('should refuse a thought that has left the buffer', () => {
+      dropThoughts(db, [1], 'dropped');
+      expect(amendThought(db, 'architect', 1, { content: 'too late' })).toBe('Thought #1 is already dropped');
+    });
+  });
+
+  describe('expireThoughts()', () => {
+    it('should expire pending thoughts past their priority\'s TTL', () => {
+      age(1, 120);
+      age(2, 61);
+
+      const expired = expireThoughts(db, resolveTtl());
+
+      expect(expired.map(t => t.id)).toEqual([2]);
+      expect(getThought(db, 1)?.status).toBe('pending');
+      expect(getThoughtTransitions(db, 2).at(-1)).toMatchObject({ to_status: 'expired', actor: 'antibeaver', reason: 'P2 TTL 60m' });
+    });
+
+    it('should leave thoughts in synthesis alone', () => {
+      age(2, 120);
+      beginSynthesis(db, 'architect', (eventId, thoughts) => generateSynthesisPrompt(thoughts, eventId));
+
+      expect(expireThoughts(db, resolveTtl({ P1: 1 }))).toEqual([]);
+    });
+  });
+});
+
+describe('resolveTtl()', () => {
+  it('should default to expiring P2 after an hour', () => {
+    expect(resolveTtl()).toEqual({ P0: 0, P1: 0, P2: 60 });
+  });
+
+  it('should treat zero, negative or junk as never', () => {
+    expect(resolveTtl({ P1: 30, P2: -5, P0: NaN })).toEqual({ P0: 0, P1: 30, P2: 0 });
+  });
+});
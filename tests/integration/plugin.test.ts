@@ -0,0 +1,788 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import register from '../../src/index';
+import { createAntibeaver, Antibeaver } from '../../src/plugin';
+import { initDatabase, insertThought, getThoughtTransitions, getWaitingHumanMessages, getControlRows, getPendingCount, getPendingThoughts, getAuditLog, getSynthesisEvent, setControlValue, DB } from '../../src/db';
+import { DEFAULT_SYSTEM_STATE, SystemState, thresholdsFromControlRecords } from '../../src/core';
+import { ProbeFn } from '../../src/probe';
+import { HistoryProvider, InMemoryHistoryProvider } from '../../src/history';
+
+type Handler = (ctx: Record<string, unknown>) => Promise<{ text: string }>;
+type Execute = (id: string, params?: unknown) => Promise<{ content: { text: string }[] }>;
+
+/** Just enough of the OpenClaw plugin API to drive the handlers */
+function fakeApi(config: Record<string, unknown> = {}) {
+  const commands = new Map<string, Handler>();
+  const tools = new Map<string, (ctx: Record<string, unknown>) => { execute: Execute }>();
+  const methods = new Map<string, (opts: { respond: (ok: boolean, body: unknown) => void }, params?: unknown) => void>();
+  const broadcasts: string[] = [];
+  const wrappers = new Map<string, (execute: Execute, ctx?: Record<string, unknown>) => Execute>();
+  const hooks = new Map<string, (event: unknown, ctx?: unknown) => unknown>();
+
+  const api = {
+    logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    config: { plugins: { entries: { antibeaver: { config: { autoDrain: false, ...config } } } } },
+    runtime: { gateway: { broadcast: (text: string) => { broadcasts.push(text); } } },
+    registerCommand: (cmd: { name: string; handler: Handler }) => commands.set(cmd.name, cmd.handler),
+    registerTool: (factory: (ctx: Record<string, unknown>) => { execute: Execute }, opts: { name: string }) => tools.set(opts.name, factory),
+    registerGatewayMethod: (name: string, fn: never) => methods.set(name, fn),
+    wrapTool: (name: string, wrapper: (execute: Execute, ctx?: Record<string, unknown>) => Execute) => wrappers.set(name, wrapper),
+    on: (name: string, handler: (event: unknown, ctx?: unknown) => unknown) => hooks.set(name, handler),
+  };
+  const sent: unknown[] = [];
+
+  return {
+    api,
+    broadcasts,
+    command: (name: string, args = '', senderId = 'rick') => commands.get(name)!({ args, senderId }),
+    tool: async (name: string, params: unknown, ctx: Record<string, unknown> = { agentId: 'architect' }) =>
+      JSON.parse((await tools.get(name)!(ctx).execute('call-1', params)).content[0].text),
+    sent,
+    emit: (name: string, event: unknown, ctx?: unknown) => hooks.get(name)?.(event, ctx),
+    /** Call a wrapped send tool; what reaches the real tool lands in `sent` */
+    send: async (name: string, params: unknown, ctx: Record<string, unknown> = { agentId: 'architect' }) => {
+      const execute: Execute = async (_id, p) => { sent.push(p); return { content: [{ text: '{"sent":true}' }] }; };
+      return JSON.parse((await wrappers.get(name)!(execute, ctx)('call-1', params)).content[0].text);
+    },
+    call: (name: string, params?: unknown) => {
+      let body: unknown;
+      methods.get(name)!({ respond: (_ok, b) => { body = b; } }, params);
+      return body as Record<string, unknown>;
+    },
+  };
+}
+
+describe('plugin handlers', () => {
+  let db: DB;
+  let state: SystemState;
+  let fake: ReturnType<typeof fakeApi>;
+  let plugin: Antibeaver;
+
+  const start = (config: Record<string, unknown> = {}, probe?: ProbeFn, history?: HistoryProvider) => {
+    fake = fakeApi(config);
+    plugin = createAntibeaver(fake.api as never, db, state, { probe, history });
+  };
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+    state = { ...DEFAULT_SYSTEM_STATE };
+  });
+
+  afterEach(() => {
+    plugin?.dispose();
+    db.close();
+  });
+
+  describe('control state', () => {
+    it('should mutate the injected state and persist /halt', async () => {
+      start();
+      await fake.command('halt', 'runaway loop');
+
+      expect(state.systemHalted).toBe(true);
+      expect(state.audit?.systemHalted).toMatchObject({ setBy: 'rick', reason: 'runaway loop' });
+      expect(getControlRows(db).filter(r => r.key === 'halted')).toEqual([expect.objectContaining({ value: '1' })]);
+      expect(fake.broadcasts[0]).toContain('[SYSTEM HALT]');
+    });
+
+    it('should persist its thresholds for the CLI without churning revisions', () => {
+      start({ latencyThresholdMs: 4000 });
+      plugin.dispose();
+      start({ latencyThresholdMs: 4000 });
+
+      const rows = getControlRows(db).filter(r => r.key === 'thresholds');
+      expect(rows).toHaveLength(1);
+      expect(thresholdsFromControlRecords(rows).degradedMs).toBe(4000);
+      expect(rows[0].revision).toBe(1);
+    });
+
+    it('should restore a persisted halt on startup', () => {
+      setControlValue(db, 'halted', '1', 'cli:ops', 'incident');
+      start();
+
+      expect(state.systemHalted).toBe(true);
+      expect(fake.api.logger.warn).toHaveBeenCalledWith(expect.stringContaining('Restored HALT set by cli:ops'));
+    });
+
+    it('should keep injected flags that were never persisted', () => {
+      state.globalForcedBuffering = true;
+      start();
+
+      expect(plugin.evaluate().reason).toBe('manual override');
+    });
+
+    it('should apply flags written by another process on sync', () => {
+      start();
+      setControlValue(db, 'halted_agents', '["main"]', 'cli:ops');
+      plugin.syncControl();
+
+      expect(state.haltedAgents).toEqual(['main']);
+      expect(fake.broadcasts[0]).toContain('agent main');
+    });
+
+    it('should resume with an audit entry without touching the simulation', async () => {
+      start();
+      await fake.command('buffer', 'simulate 9000');
+      await fake.command('halt');
+      await fake.command('resume');
+
+      expect(state.systemHalted).toBe(false);
+      expect(state.simulatedLatencyMs).toBe(9000);
+      expect(getAuditLog(db).map(r => r.action)).toEqual(['resume', 'halt']);
+    });
+  });
+
+  describe('buffer_thought', () => {
+    it('should buffer for the calling agent', async () => {
+      start();
+      const result = await fake.tool('buffer_thought', { thought: 'use Redis', channel: 'slack' });
+
+      expect(result).toMatchObject({ ok: true, buffered: true, pending: 1 });
+      expect(getPendingCount(db, 'architect')).toBe(1);
+    });
+
+    it('should refuse an empty thought instead of throwing', async () => {
+      start();
+
+      expect(await fake.tool('buffer_thought', { thought: '   ' })).toMatchObject({ ok: false, buffered: false });
+      expect(await fake.tool('buffer_thought', {})).toMatchObject({ ok: false });
+      expect(getPendingCount(db)).toBe(0);
+    });
+
+    const dedup = { dedup: { enabled: true } };
+
+    it('should fold near-duplicates into the pending thought and log the variant', async () => {
+      start(dedup);
+      const first = await fake.tool('buffer_thought', { thought: 'Deploy failed, retrying now', channel: 'slack', priority: 'P2' });
+      const second = await fake.tool('buffer_thought', { thought: 'deploy failed - retrying now!', channel: 'slack', priority: 'P0' });
+
+      expect(second).toMatchObject({ ok: true, id: first.id, collapsed: true, pending: 1 });
+      expect(getPendingThoughts(db, 'architect')[0]).toMatchObject({ content: 'Deploy failed, retrying now', duplicate_count: 1, priority: 'P0' });
+      expect(getThoughtTransitions(db, first.id).at(-1)).toMatchObject({
+        from_status: 'pending', to_status: 'pending', actor: 'architect', reason: 'collapsed duplicate: "deploy failed - retrying now!"',
+      });
+    });
+
+    it('should keep thoughts that differ only in their numbers', async () => {
+      start(dedup);
+      await fake.tool('buffer_thought', { thought: 'Deploy at 14:00', channel: 'slack' });
+      await fake.tool('buffer_thought', { thought: 'Deploy at 16:00', channel: 'slack' });
+
+      expect(getPendingThoughts(db, 'architect').map(t => t.content)).toEqual(['Deploy at 14:00', 'Deploy at 16:00']);
+    });
+
+    it('should store near-duplicates as they are by default', async () => {
+      start();
+      await fake.tool('buffer_thought', { thought: 'Deploy failed, retrying now', channel: 'slack' });
+      await fake.tool('buffer_thought', { thought: 'deploy failed - retrying now!', channel: 'slack' });
+
+      expect(getPendingThoughts(db, 'architect')).toHaveLength(2);
+    });
+
+    it('should supersede the previous thought on a revision', async () => {
+      start(dedup);
+      const first = await fake.tool('buffer_thought', { thought: 'use Redis', channel: 'slack' });
+      const second = await fake.tool('buffer_thought', { thought: 'Actually, use Postgres', channel: 'slack' });
+
+      expect(second).toMatchObject({ ok: true, superseded: [first.id], pending: 1 });
+      expect(db.prepare(`SELECT status FROM buffered_thoughts WHERE id = ?`).get(first.id)).toEqual({ status: 'superseded' });
+    });
+
+    it('should let a revision replace its predecessor in a full buffer', async () => {
+      start({ ...dedup, maxBufferSize: 1, overflowPolicy: 'reject' });
+      await fake.tool('buffer_thought', { thought: 'use Redis', channel: 'slack' });
+
+      expect(await fake.tool('buffer_thought', { thought: 'Actually, use Postgres', channel: 'slack' })).toMatchObject({ ok: true });
+      expect(getPendingThoughts(db, 'architect').map(t => t.content)).toEqual(['Actually, use Postgres']);
+      expect(getAuditLog(db)).toEqual([]);
+    });
+
+    it('should drop instead of forcing a synthesis it cannot deliver', async () => {
+      start({ maxBufferSize: 2 });
+      for (const thought of ['one', 'two', 'three']) {
+        await fake.tool('buffer_thought', { thought, channel: 'slack', priority: 'P2' });
+      }
+
+      expect(getPendingThoughts(db, 'architect').map(t => t.content)).toEqual(['two', 'three']);
+      expect(getAuditLog(db)[0]).toMatchObject({ action: 'overflow', reason: expect.stringContaining('dropped #') });
+      expect(fake.api.logger.warn).toHaveBeenCalledWith(expect.stringContaining('drop_oldest_p2; force_synthesis cannot deliver'));
+    });
+
+    it('should reject on a full buffer under the reject policy', async () => {
+      start({ maxBufferSize: 1, overflowPolicy: 'reject' });
+      await fake.tool('buffer_thought', { thought: 'one' });
+
+      expect(await fake.tool('buffer_thought', { thought: 'two' })).toMatchObject({ ok: false, reason: 'buffer_full' });
+      expect(getAuditLog(db)[0]).toMatchObject({ action: 'overflow', scope: 'agent architect' });
+    });
+  });
+
+  describe('retract_thought, amend_thought and /buffer purge|drop', () => {
+    it('should let the agent retract and amend by the id it was given', async () => {
+      start();
+      const first = await fake.tool('buffer_thought', { thought: 'use Redis', channel: 'slack' });
+      const second = await fake.tool('buffer_thought', { thought: 'ship Friday', channel: 'slack' });
+
+      expect(await fake.tool('retract_thought', { id: first.id, reason: 'already live' }))
+        .toEqual({ ok: true, id: first.id, status: 'retracted', pending: 1 });
+      expect(await fake.tool('amend_thought', { id: second.id, thought: 'ship Monday', priority: 'P0' }))
+        .toMatchObject({ ok: true, id: second.id, priority: 'P0' });
+      expect(getPendingThoughts(db, 'architect').map(t => t.content)).toEqual(['ship Monday']);
+    });
+
+    it('should refuse another agent\'s thought', async () => {
+      start();
+      const { id } = await fake.tool('buffer_thought', { thought: 'use Redis', channel: 'slack' });
+
+      expect(await fake.tool('retract_thought', { id }, { agentId: 'main' })).toEqual({ ok: false, error: `Thought #${id} not found` });
+      expect(await fake.tool('amend_thought', { id })).toMatchObject({ ok: false, error: expect.stringContaining('nothing to amend') });
+    });
+
+    it('should drop and purge for operators, with an audit trail', async () => {
+      start();
+      insertThought(db, 'architect', 'slack', '#ops', 'use Redis', 'P1');
+      insertThought(db, 'architect', 'slack', '#ops', 'ship Friday', 'P1');
+      insertThought(db, 'main', 'slack', '#ops', 'hello', 'P1');
+
+      expect((await fake.command('buffer', 'drop 1 stale')).text).toContain('Dropped thought #1');
+      expect((await fake.command('buffer', 'drop 1')).text).toContain('not pending');
+      expect((await fake.command('buffer', 'purge architect')).text).toContain('Discarded 1 pending thought(s)** for agent architect');
+
+      expect(getPendingCount(db)).toBe(1);
+      expect(getAuditLog(db).map(a => a.action)).toEqual(['purge', 'drop']);
+    });
+  });
+
+  describe('peer awareness', () => {
+    beforeEach(() => {
+      insertThought(db, 'architect', 'slack', '#ops', 'use Redis, password hunter2', 'P1');
+      insertThought(db, 'strategist', 'slack', '#ops', 'we need a cache', 'P1');
+    });
+
+    it('should list other agents\' thoughts, redacted', async () => {
+      start({ peers: { redactPatterns: ['hunter\\d'] } });
+
+      const result = await fake.tool('get_peer_buffers', {}, { agentId: 'strategist' });
+
+      expect(result).toMatchObject({ ok: true, agentId: 'strategist', redaction: 'truncate' });
+      expect(result.peers).toEqual([expect.objectContaining({
+        agentId: 'architect', pending: 1, thoughts: [expect.objectContaining({ summary: 'use Redis, password [redacted]' })],
+      })]);
+      expect((await fake.tool('get_buffer_status', {}, { agentId: 'strategist' })).peers).toEqual(result.peers);
+    });
+
+    it('should filter to one peer', async () => {
+      start();
+      expect((await fake.tool('get_peer_buffers', { agentId: 'nobody' })).peers).toEqual([]);
+      expect(await fake.tool('get_peer_buffers', { agentId: '../etc' })).toMatchObject({ ok: false });
+    });
+
+    it('should fold peers into the synthesis prompt when asked', async () => {
+      start({ peers: { includeInPrompt: true } });
+
+      const { text } = await fake.command('flush', 'strategist');
+
+      expect(text).toContain('- architect [slack #ops] "use Redis, password hunter2"');
+    });
+
+    it('should keep peers out of the prompt by default', async () => {
+      start();
+      expect((await fake.command('flush', 'strategist')).text).not.toContain('Other agents');
+    });
+  });
+
+  describe('rate limiting', () => {
+    const limits = { rateLimit: { enabled: true, perAgent: { capacity: 2, refillPerMinute: 1 } } };
+
+    it('should buffer sends past the bucket with a rate_limited reason', async () => {
+      start(limits);
+      await fake.send('message', { action: 'send', channel: 'slack', message: 'one' });
+      await fake.send('message', { action: 'send', channel: 'slack', message: 'two' });
+      const third = await fake.send('message', { action: 'send', channel: 'slack', message: 'three' });
+
+      expect(fake.sent).toHaveLength(2);
+      expect(third).toMatchObject({ status: 'buffered', reason: 'rate_limited' });
+      expect(getPendingThoughts(db, 'architect')[0]).toMatchObject({ content: 'three', buffer_reason: 'rate_limited' });
+
+      const { text } = await fake.command('buffer');
+      expect(text).toContain('**agent architect**: 🪣 0/2 tokens, +1/min');
+      expect((await fake.tool('get_buffer_status', {})).rateLimits).toContainEqual(expect.objectContaining({ scope: 'channel', id: 'slack' }));
+    });
+
+    it('should always let P0 through', async () => {
+      start(limits);
+      for (const message of ['one', 'two', 'three']) {
+        await fake.send('message', { action: 'send', channel: 'slack', message, priority: 'P0' });
+      }
+      expect(fake.sent).toHaveLength(3);
+    });
+
+    it('should not count sends a bucket holds back as loop turns', async () => {
+      start({ rateLimit: { enabled: true, perAgent: { capacity: 1, refillPerMinute: 1 } }, loopDetection: { enabled: true, maxExchanges: 3 } });
+      for (const agentId of ['architect', 'strategist', 'architect', 'strategist']) {
+        await fake.send('message', { action: 'send', channel: 'slack', target: '#ops', message: `from ${agentId}` }, { agentId });
+      }
+
+      expect(fake.sent).toHaveLength(2);
+      expect(state.haltedAgents ?? []).toEqual([]);
+      expect(getAuditLog(db, 10).find(row => row.action === 'loop_detected')).toBeUndefined();
+    });
+
+    it('should not limit unless enabled', async () => {
+      start({ rateLimit: { perAgent: { capacity: 1, refillPerMinute: 1 } } });
+      for (const message of ['one', 'two', 'three']) {
+        await fake.send('message', { action: 'send', channel: 'slack', message });
+      }
+      expect(fake.sent).toHaveLength(3);
+      expect((await fake.command('buffer')).text).not.toContain('Rate Limits');
+    });
+
+    it('should drain held-back thoughts once the bucket refills', async () => {
+      vi.useFakeTimers();
+      try {
+        start({ ...limits, autoDrain: true, drainPollMs: 1000 });
+        const prompts: string[] = [];
+        Object.assign(fake.api.runtime, { system: { enqueueSystemEvent: (prompt: string) => { prompts.push(prompt); } } });
+        for (const message of ['one', 'two', 'three']) {
+          await fake.send('message', { action: 'send', channel: 'slack', message });
+        }
+
+        await vi.advanceTimersByTimeAsync(30000);
+        expect(prompts).toHaveLength(0);
+
+        await vi.advanceTimersByTimeAsync(31000);
+        expect(prompts).toHaveLength(1);
+        expect(prompts[0]).toContain('"three"');
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('loop detection', () => {
+    const pingPong = async (turns: number) => {
+      for (let i = 0; i < turns; i++) {
+        const agentId = i % 2 === 0 ? 'architect' : 'strategist';
+        await fake.send('message', { action: 'send', channel: 'slack', target: '#ops', message: `reply ${i}` }, { agentId });
+      }
+    };
+
+    it('should halt both agents and record the loop', async () => {
+      start({ loopDetection: { enabled: true, maxExchanges: 4 } });
+      await pingPong(4);
+
+      expect(fake.sent).toHaveLength(3);
+      expect(state.haltedAgents).toEqual(['architect', 'strategist']);
+      expect(getPendingThoughts(db, 'strategist')).toHaveLength(1);
+      expect(getAuditLog(db, 10).find(row => row.action === 'loop_detected')).toMatchObject({
+        scope: 'agent architect, agent strategist',
+        actor: 'antibeaver',
+        reason: expect.stringContaining('architect ↔ strategist on slack #ops: 4 turns'),
+      });
+      expect((await fake.command('buffer')).text).toContain('**Loops Detected:**');
+      expect((await fake.tool('get_buffer_status', {})).loops).toHaveLength(1);
+    });
+
+    it('should force buffering when configured to, and only record otherwise', async () => {
+      start({ loopDetection: { enabled: true, maxExchanges: 4, haltAgents: false, forceBuffering: true } });
+      await pingPong(4);
+
+      expect(state.haltedAgents ?? []).toEqual([]);
+      expect(state.globalForcedBuffering).toBe(true);
+      expect(getControlRows(db).find(row => row.key === 'forced_buffering')).toMatchObject({ set_by: 'antibeaver' });
+    });
+
+    it('should leave agents alone unless enabled', async () => {
+      start();
+      await pingPong(8);
+
+      expect(fake.sent).toHaveLength(8);
+      expect(state.haltedAgents ?? []).toEqual([]);
+    });
+
+    it('should count sends reported through the gateway', () => {
+      start({ loopDetection: { enabled: true, maxExchanges: 3 } });
+      fake.call('antibeaver.recordSend', { agentId: 'architect', channel: 'slack' });
+      fake.call('antibeaver.recordSend', { agentId: 'strategist', channel: 'slack' });
+
+      expect(fake.call('antibeaver.recordSend', { agentId: 'architect', channel: 'slack' }))
+        .toEqual({ recorded: true, loopDetected: true, halted: true });
+      expect(fake.call('antibeaver.status').loops).toHaveLength(1);
+    });
+  });
+
+  describe('human priority lane', () => {
+    const operator = { humanLane: { operatorIds: ['rick'] } };
+    const stop = () => fake.emit('message_received', { from: 'rick', content: 'STOP' }, { channelId: 'slack', conversationId: '#ops' });
+
+    it('should hold every agent back until one acknowledges', async () => {
+      start(operator);
+      stop();
+
+      const held = await fake.send('message', { action: 'send', channel: 'telegram', message: 'still going' }, { agentId: 'main' });
+      expect(held).toMatchObject({ status: 'buffered', reason: expect.stringContaining('human waiting since') });
+      expect(fake.sent).toHaveLength(0);
+
+      const status = await fake.tool('get_buffer_status', {});
+      expect(status.humansWaiting).toEqual([expect.objectContaining({ id: 1, senderId: 'rick', content: 'STOP' })]);
+      expect(status.hint).toContain('acknowledge_human');
+      expect((await fake.command('buffer')).text).toContain('🙋 Human waiting since');
+
+      expect(await fake.tool('acknowledge_human', {})).toEqual({ ok: true, acknowledged: [1], stillWaiting: 0 });
+      await fake.send('message', { action: 'send', channel: 'telegram', message: 'stopping' }, { agentId: 'main' });
+      expect(fake.sent).toHaveLength(1);
+      expect(getAuditLog(db, 10).map(row => row.action)).toEqual(['human_ack', 'human_waiting']);
+    });
+
+    it('should tell a held agent which message to acknowledge', async () => {
+      start(operator);
+      stop();
+
+      const held = await fake.send('message', { action: 'send', channel: 'telegram', message: 'still going' }, { agentId: 'main' });
+      expect(held).toMatchObject({ status: 'buffered', humanWaitingId: 1 });
+      expect(held.note).toContain('message #1');
+      expect(held.note).toContain('acknowledge_human');
+      expect(held.note).not.toContain('congested');
+    });
+
+    it('should ignore everyone who is not an operator', async () => {
+      start(operator);
+      fake.emit('message_received', { from: 'stranger', content: 'STOP' }, { channelId: 'slack' });
+
+      expect(getWaitingHumanMessages(db)).toEqual([]);
+      expect(fake.call('antibeaver.humanMessage', { senderId: 'stranger', content: 'hi' })).toEqual({ recorded: false, reason: 'not an operator' });
+    });
+
+    it('should take operator messages through the gateway and acknowledge from /buffer', async () => {
+      start(operator);
+      expect(fake.call('antibeaver.humanMessage', { senderId: 'rick', content: 'STOP', channel: 'slack' }))
+        .toEqual({ recorded: true, id: 1, priority: 'P0' });
+      expect(fake.call('antibeaver.status')).toMatchObject({ buffering: true, humansWaiting: [expect.objectContaining({ id: 1 })] });
+
+      expect((await fake.command('buffer', 'ack 2')).text).toContain('not waiting');
+      expect((await fake.command('buffer', 'ack 1')).text).toContain('Acknowledged');
+      expect(fake.call('antibeaver.status')).toMatchObject({ buffering: false, humansWaiting: [] });
+    });
+
+    it('should record without buffering when forceBuffering is off', async () => {
+      start({ humanLane: { operatorIds: ['rick'], forceBuffering: false } });
+      stop();
+
+      await fake.send('message', { action: 'send', channel: 'telegram', message: 'still going' }, { agentId: 'main' });
+      expect(fake.sent).toHaveLength(1);
+      expect(getWaitingHumanMessages(db)).toHaveLength(1);
+    });
+  });
+
+  describe('auto drain', () => {
+    it('should drain an agent once its own destination recovers', async () => {
+      vi.useFakeTimers();
+      try {
+        start({ autoDrain: true, drainPollMs: 1000, recoveryHoldMs: 0 });
+        const sessions: string[] = [];
+        Object.assign(fake.api.runtime, { system: { enqueueSystemEvent: (_prompt: string, opts: { sessionKey: string }) => { sessions.push(opts.sessionKey); } } });
+        fake.call('antibeaver.recordLatency', { latencyMs: 12000, channel: 'slack' });
+        fake.call('antibeaver.recordLatency', { latencyMs: 12000, channel: 'telegram' });
+        await fake.send('message', { action: 'send', channel: 'slack', message: 'slow' }, { agentId: 'strategist' });
+        await fake.send('message', { action: 'send', channel: 'telegram', message: 'fast' }, { agentId: 'architect' });
+        await vi.advanceTimersByTimeAsync(1000);
+
+        // Slack stays slow; telegram's slow sample ages out of the one-minute window
+        for (let i = 0; i < 3; i++) {
+          fake.call('antibeaver.recordLatency', { latencyMs: 12000, channel: 'slack' });
+          await vi.advanceTimersByTimeAsync(25000);
+        }
+
+        expect(fake.call('antibeaver.status')).toMatchObject({ buffering: true });
+        expect(sessions).toEqual(['agent:architect:main']);
+        expect(getPendingThoughts(db, 'strategist')).toHaveLength(1);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('coordinated drain', () => {
+    let prompts: { sessionKey: string; prompt: string }[];
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      prompts = [];
+      insertThought(db, 'architect', 'slack', '#ops', 'use Redis', 'P1');
+      insertThought(db, 'strategist', 'slack', '#ops', 'ship Friday', 'P0');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const startWithDelivery = (config: Record<string, unknown> = {}) => {
+      start(config);
+      Object.assign(fake.api.runtime, {
+        system: { enqueueSystemEvent: (prompt: string, opts: { sessionKey: string }) => { prompts.push({ sessionKey: opts.sessionKey, prompt }); } },
+      });
+    };
+
+    it('should hand prompts out in turn and show what went before', async () => {
+      startWithDelivery();
+
+      const { text } = await fake.command('flush', 'all');
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(text).toContain('1. strategist\n2. architect');
+      expect(prompts.map(p => p.sessionKey)).toEqual(['agent:strategist:main']);
+
+      await fake.tool('submit_synthesis', { synthesisId: 1, output: 'Shipping Friday.' }, { agentId: 'strategist' });
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(prompts.map(p => p.sessionKey)).toEqual(['agent:strategist:main', 'agent:architect:main']);
+      expect(prompts[1].prompt).toContain('- strategist [slack]: "Shipping Friday."');
+    });
+
+    it('should pass the turn on when an agent stays silent', async () => {
+      startWithDelivery({ drainCoordination: { turnGapMs: 1000 } });
+
+      await fake.command('flush', 'all');
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(prompts).toHaveLength(2);
+      expect(prompts[1].prompt).not.toContain('Already sent');
+    });
+
+    it('should keep the inline reply when coordination is off', async () => {
+      startWithDelivery({ drainCoordination: { enabled: false } });
+
+      const { text } = await fake.command('flush', 'all');
+
+      expect(text).toContain('### strategist');
+      expect(text).toContain('### architect');
+      expect(prompts).toHaveLength(0);
+    });
+  });
+
+  describe('/flush and submit_synthesis', () => {
+    it('should escape thought content in the prompt', async () => {
+      start();
+      insertThought(db, 'main', 'slack', '#ops', 'say "hi"\nthen leave', 'P1');
+
+      const { text } = await fake.command('flush');
+
+      expect(text).toContain('"say \\"hi\\"\\nthen leave"');
+      expect(text).toContain('synthesisId 1');
+    });
+
+    it('should complete the round trip from the agent', async () => {
+      start();
+      insertThought(db, 'architect', 'slack', '#ops', 'use Redis', 'P1');
+      await fake.command('flush', 'architect');
+
+      const result = await fake.tool('submit_synthesis', { synthesisId: 1, output: 'Use Redis.', kept: [1] });
+
+      expect(result).toEqual({ ok: true, synthesisId: 1, kept: 1, discarded: 0 });
+    });
+
+    it('should walk a large backlog through condensing steps to the merge', async () => {
+      start({ synthesisBudget: { maxPromptTokens: 500 } });
+      for (let i = 1; i <= 8; i++) insertThought(db, 'architect', 'slack', '#ops', `option ${i}: ${'details '.repeat(40)}`, 'P1');
+      insertThought(db, 'architect', 'slack', '#ops', 'STOP the deploy', 'P0');
+
+      const { text } = await fake.command('flush', 'architect');
+      const steps = Number(/SYNTHESIS STEP 1 of (\d+)/.exec(text)![1]);
+      expect(steps).toBeGreaterThan(1);
+      expect(text).not.toContain('STOP the deploy');
+
+      let result: Record<string, unknown> = {};
+      for (let chunk = 1; chunk <= steps; chunk++) {
+        result = await fake.tool('submit_synthesis', { synthesisId: 1, chunk, output: `notes ${chunk}` });
+        expect(result).toMatchObject({ ok: true, chunk, remaining: steps - chunk });
+      }
+      expect(result.next).toContain('[CRITICAL] "STOP the deploy"');
+      expect(result.next).toContain(`Step ${steps}: "notes ${steps}"`);
+
+      expect(await fake.tool('submit_synthesis', { synthesisId: 1, output: 'Holding the deploy.' }))
+        .toEqual({ ok: true, synthesisId: 1, kept: 9, discarded: 0 });
+    });
+
+    it('should use the agent\'s prompt template and reject invalid ones at load', async () => {
+      start({
+        promptTemplates: {
+          agents: { architect: 'Architect review ({{thoughtCount}}):\n{{thoughts}}\nKeep every decision.{{submit}}' },
+          channels: { slack: 'Missing the submit step: {{thoughts}}' },
+        },
+      });
+      insertThought(db, 'architect', 'slack', '#ops', 'use Redis', 'P1');
+
+      const { text } = await fake.command('flush', 'architect');
+
+      expect(text).toContain('Architect review (1):\n1. #1');
+      expect(text).toContain('synthesisId 1');
+      expect(text).not.toContain('NETWORK RECOVERED');
+      expect(fake.api.logger.error).toHaveBeenCalledWith(expect.stringContaining('channels.slack: missing required variable(s) {{submit}}'));
+    });
+
+    it('should read a JSON envelope in structured mode', async () => {
+      start({ synthesisOutput: 'json' });
+      insertThought(db, 'architect', 'slack', '#ops', 'use Redis', 'P1');
+      insertThought(db, 'architect', 'slack', '#ops', 'use a file lock', 'P1');
+      const { text } = await fake.command('flush', 'architect');
+      expect(text).toContain('"kept_ids"');
+
+      const output = JSON.stringify({ message: 'Use Redis.', kept_ids: [1], discarded_ids: [{ id: 2, reason: 'lock was the wrong fix' }] });
+      const result = await fake.tool('submit_synthesis', { synthesisId: 1, output });
+
+      expect(result).toEqual({ ok: true, synthesisId: 1, kept: 1, discarded: 1, format: 'json', unaccounted: [] });
+      expect(getSynthesisEvent(db, 1)).toMatchObject({
+        final_output: 'Use Redis.',
+        output_format: 'json',
+        discard_reasons: JSON.stringify({ 2: 'lock was the wrong fix' }),
+      });
+    });
+
+    it('should fall back to free text when the envelope does not parse', async () => {
+      start({ synthesisOutput: 'json' });
+      insertThought(db, 'architect', 'slack', '#ops', 'use Redis', 'P1');
+      await fake.command('flush', 'architect');
+
+      const result = await fake.tool('submit_synthesis', { synthesisId: 1, output: 'Use Redis.', kept: [1] });
+
+      expect(result).toMatchObject({ ok: true, kept: 1, format: 'text', parseError: expect.stringContaining('not JSON') });
+      expect(getSynthesisEvent(db, 1)).toMatchObject({ final_output: 'Use Redis.', output_format: 'text' });
+      expect(getAuditLog(db)[0]).toMatchObject({ action: 'synthesis_fallback' });
+    });
+
+    it('should show what the channel said since the first buffered thought', async () => {
+      const history = new InMemoryHistoryProvider();
+      start({}, undefined, history);
+      insertThought(db, 'architect', 'slack', '#ops', 'use Redis', 'P1');
+      history.post({ channel: 'slack', target: '#ops', author: 'ops-bot', content: 'Redis is already live', postedAt: new Date().toISOString() });
+      history.post({ channel: 'slack', target: '#ops', author: 'ops-bot', content: 'yesterday', postedAt: '2020-01-01T00:00:00Z' });
+
+      const { text } = await fake.command('flush', 'architect');
+
+      expect(text).toContain('ops-bot: "Redis is already live"');
+      expect(text).not.toContain('yesterday');
+    });
+
+    it('should reject a submission from another agent', async () => {
+      start();
+      insertThought(db, 'architect', 'slack', '#ops', 'use Redis', 'P1');
+      await fake.command('flush', 'architect');
+
+      const result = await fake.tool('submit_synthesis', { synthesisId: 1, output: 'mine now' }, { agentId: 'main' });
+
+      expect(result.ok).toBe(false);
+      expect(result.error).toContain('belongs to architect');
+    });
+  });
+
+  describe('gateway methods', () => {
+    it('should clamp negative latency and report the channel', () => {
+      start();
+      const body = fake.call('antibeaver.recordLatency', { latencyMs: -500, channel: 'slack' });
+
+      expect(body).toMatchObject({ recorded: true, latencyMs: 0, channel: 'slack', buffering: false });
+    });
+
+    it('should record samples as real traffic', () => {
+      start();
+      fake.call('antibeaver.recordLatency', { latencyMs: 200, channel: 'slack' });
+
+      expect(db.prepare(`SELECT synthetic FROM network_metrics`).all()).toEqual([{ synthetic: 0 }]);
+    });
+
+    it('should persist queue depth and buffer on it', () => {
+      start({ queueDepthThreshold: 10 });
+      const body = fake.call('antibeaver.recordLatency', { latencyMs: 300, queueDepth: 15, channel: 'slack' });
+
+      expect(body).toMatchObject({ queueDepth: 15, buffering: true, mode: 'DEGRADED', reason: 'queue depth 15 > 10' });
+      expect(db.prepare(`SELECT queue_depth FROM network_metrics`).all()).toEqual([{ queue_depth: 15 }]);
+    });
+
+    it('should not record a latency sample for a depth-only report', () => {
+      start({ queueDepthThreshold: 10 });
+      const body = fake.call('antibeaver.recordLatency', { queueDepth: 15, channel: 'slack' });
+
+      expect(body).toMatchObject({ latencyMs: null, queueDepth: 15, buffering: true, reason: 'queue depth 15 > 10' });
+      expect(plugin.health.getTracker('slack')?.getSampleCount()).toBe(0);
+      expect(db.prepare(`SELECT COUNT(*) AS n FROM network_metrics`).get()).toEqual({ n: 0 });
+    });
+
+    it('should show queue depth in get_buffer_status', async () => {
+      start();
+      fake.call('antibeaver.recordLatency', { latencyMs: 300, queueDepth: 7, channel: 'slack' });
+
+      const status = await fake.tool('get_buffer_status', { channel: 'slack' });
+      expect(status).toMatchObject({ queueDepth: 7, queueDepthThreshold: 20, buffering: false });
+      expect(status.channels[0]).toMatchObject({ channel: 'slack', queueDepth: 7 });
+    });
+
+    it('should start buffering past the threshold', () => {
+      start();
+      fake.call('antibeaver.recordLatency', { latencyMs: 12000, channel: 'slack' });
+
+      expect(fake.call('antibeaver.status')).toMatchObject({ buffering: true, mode: 'DEGRADED' });
+    });
+  });
+
+  describe('probes', () => {
+    const probes = { enabled: true, intervalMs: 60000, targets: [{ channel: 'slack' }] };
+
+    it('should record probe results as synthetic samples', async () => {
+      start({ probes }, async () => 7000);
+      await plugin.probes.tick();
+
+      expect(db.prepare(`SELECT latency_ms, channel, synthetic FROM network_metrics`).all())
+        .toEqual([{ latency_ms: 7000, channel: 'slack', synthetic: 1 }]);
+      expect(fake.call('antibeaver.status')).toMatchObject({ buffering: true, mode: 'DEGRADED' });
+    });
+
+    it('should not probe while halted', async () => {
+      const probe = vi.fn(async () => 100);
+      start({ probes }, probe);
+      await fake.command('halt');
+      await plugin.probes.tick();
+
+      expect(probe).not.toHaveBeenCalled();
+      expect(plugin.probes.getIntervalMs()).toBe(120000);
+    });
+
+    it('should stop probing on dispose', () => {
+      start({ probes }, async () => 100);
+      expect(plugin.probes.isRunning()).toBe(true);
+
+      plugin.dispose();
+      expect(plugin.probes.isRunning()).toBe(false);
+    });
+  });
+});
+
+describe('register()', () => {
+  let dir: string;
+  let plugin: Antibeaver;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'antibeaver-register-'));
+  });
+
+  afterEach(() => {
+    plugin?.dispose();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should put what the channel said into synthesis prompts', async () => {
+    const fake = fakeApi({ dbPath: dir });
+    plugin = register(fake.api as never);
+
+    await fake.command('buffer', 'on');
+    await fake.send('message', { action: 'send', channel: 'slack', target: '#ops', message: 'use Redis' });
+    await fake.command('buffer', 'off');
+    fake.emit('message_received', { from: 'ops-bot', content: 'Redis is already live' }, { channelId: 'slack', conversationId: '#ops' });
+    await fake.send('message', { action: 'send', channel: 'slack', target: '#ops', message: 'Cache warmed' }, { agentId: 'strategist' });
+
+    const { text } = await fake.command('flush', 'architect');
+
+    expect(text).toContain('ops-bot: "Redis is already live"');
+    expect(text).toContain('strategist: "Cache warmed"');
+  });
+});
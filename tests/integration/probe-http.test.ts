@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import { httpProbe, ProbeScheduler } from '../../src/probe';
+
+describe('httpProbe against a local server', () => {
+  let server: http.Server;
+  let base: string;
+  let delayMs = 0;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      setTimeout(() => {
+        res.statusCode = req.url === '/missing' ? 404 : 200;
+        res.end();
+      }, delayMs);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should time the round trip', async () => {
+    delayMs = 50;
+    const latencyMs = await httpProbe({ channel: 'slack', url: `${base}/ping` }, 2000);
+
+    expect(latencyMs).toBeGreaterThanOrEqual(45);
+    expect(latencyMs).toBeLessThan(2000);
+  });
+
+  it('should count any HTTP status as reachable', async () => {
+    delayMs = 0;
+    await expect(httpProbe({ channel: 'slack', url: `${base}/missing` }, 2000)).resolves.toBeGreaterThanOrEqual(0);
+  });
+
+  it('should reject past the timeout or without a url', async () => {
+    delayMs = 500;
+    await expect(httpProbe({ channel: 'slack', url: `${base}/ping` }, 50)).rejects.toThrow();
+    await expect(httpProbe({ channel: 'slack' }, 50)).rejects.toThrow('no url');
+  });
+
+  it('should record an unreachable channel as the timeout', async () => {
+    delayMs = 0;
+    const recorded: number[] = [];
+    const scheduler = new ProbeScheduler(
+      { probe: httpProbe, record: latencyMs => { recorded.push(latencyMs); }, isHalted: () => false },
+      { targets: [{ channel: 'up', url: `${base}/ping` }, { channel: 'down', url: 'http://127.0.0.1:1/' }], intervalMs: 1000, timeoutMs: 1500, maxIntervalMs: 1000 }
+    );
+
+    const [up, down] = await scheduler.tick();
+
+    expect(up.ok).toBe(true);
+    expect(down).toMatchObject({ ok: false, latencyMs: 1500 });
+  });
+});
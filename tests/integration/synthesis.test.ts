@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  initDatabase, insertThought, getPendingCount, getPendingThoughts, getSynthesisEvent, beginSynthesis,
+  abandonSynthesis, completeSynthesis, expireSyntheses, submitChunkSummary, DB,
+} from '../../src/db';
+import { generateSynthesisPrompt, BufferedThought } from '../../src/core';
+
+describe('two-phase synthesis', () => {
+  let db: DB;
+
+  const statuses = () => Object.fromEntries(
+    (db.prepare(`SELECT id, status FROM buffered_thoughts ORDER BY id`).all() as { id: number; status: string }[])
+      .map(r => [r.id, r.status])
+  );
+
+  const begin = (agentId = 'architect') =>
+    beginSynthesis(db, agentId, (eventId, thoughts) => generateSynthesisPrompt(thoughts, eventId));
+
+  beforeEach(() => {
+    db = initDatabase(':memory:');
+    insertThought(db, 'architect', 'slack', '#ops', 'use Redis', 'P1');
+    insertThought(db, 'architect', 'slack', '#ops', 'actually, use Postgres', 'P1');
+    insertThought(db, 'strategist', 'slack', '#ops', 'ship Friday', 'P1');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('beginSynthesis()', () => {
+    it('should move pending thoughts to synthesizing under a new event', () => {
+      const batch = begin()!;
+
+      expect(batch.thoughts.map(t => t.id)).toEqual([1, 2]);
+      expect(statuses()).toEqual({ 1: 'synthesizing', 2: 'synthesizing', 3: 'pending' });
+      expect(getPendingCount(db, 'architect')).toBe(0);
+      expect(getSynthesisEvent(db, batch.eventId)).toMatchObject({
+        agent_id: 'architect',
+        status: 'awaiting',
+        thoughts_count: 2,
+        final_output: null,
+      });
+    });
+
+    it('should store the prompt, not treat it as output', () => {
+      const batch = begin()!;
+      const event = getSynthesisEvent(db, batch.eventId)!;
+
+      expect(event.prompt).toBe(batch.prompt);
+      expect(event.prompt).toContain(`synthesisId ${batch.eventId}`);
+      expect(event.prompt).toContain('#2');
+    });
+
+    it('should return null when nothing is pending', () => {
+      begin();
+      expect(begin()).toBeNull();
+    });
+  });
+
+  describe('completeSynthesis()', () => {
+    it('should record output and mark discarded thoughts', () => {
+      const { eventId } = begin()!;
+
+      const result = completeSynthesis(db, 'architect', { synthesisId: eventId, output: 'Use Postgres.', kept: [2], discarded: [1] });
+
+      expect(result).toEqual({ kept: 1, discarded: 1 });
+      expect(statuses()).toMatchObject({ 1: 'discarded', 2: 'synthesized' });
+      expect(getSynthesisEvent(db, eventId)).toMatchObject({
+        status: 'completed',
+        final_output: 'Use Postgres.',
+        kept_ids: '[2]',
+        discarded_ids: '[1]',
+      });
+    });
+
+    it('should treat unreported thoughts as folded in', () => {
+      const { eventId } = begin()!;
+
+      expect(completeSynthesis(db, 'architect', { synthesisId: eventId, output: 'done', kept: [], discarded: [] }))
+        .toEqual({ kept: 2, discarded: 0 });
+    });
+
+    it('should reject another agent, unknown events and double submits', () => {
+      const { eventId } = begin()!;
+      const submission = { synthesisId: eventId, output: 'done', kept: [], discarded: [] };
+
+      expect(completeSynthesis(db, 'strategist', submission)).toContain('belongs to architect');
+      expect(completeSynthesis(db, 'architect', { ...submission, synthesisId: 99 })).toContain('Unknown synthesisId');
+      expect(completeSynthesis(db, 'architect', submission)).toEqual({ kept: 2, discarded: 0 });
+      expect(completeSynthesis(db, 'architect', submission)).toContain('already completed');
+    });
+
+    it('should reject thoughts from outside the event', () => {
+      const { eventId } = begin()!;
+
+      expect(completeSynthesis(db, 'architect', { synthesisId: eventId, output: 'done', kept: [3], discarded: [] }))
+        .toContain('#3 is not part of');
+      expect(statuses()).toMatchObject({ 1: 'synthesizing', 2: 'synthesizing' });
+    });
+  });
+
+  describe('abandonSynthesis() and expireSyntheses()', () => {
+    it('should return undelivered thoughts to pending', () => {
+      const { eventId } = begin()!;
+
+      expect(abandonSynthesis(db, eventId)).toBe(2);
+      expect(getPendingThoughts(db, 'architect').map((t: BufferedThought) => t.synthesis_event_id)).toEqual([null, null]);
+      expect(getSynthesisEvent(db, eventId)?.status).toBe('failed');
+    });
+
+    it('should expire unanswered events past the timeout', () => {
+      const { eventId } = begin()!;
+
+      expect(expireSyntheses(db, 60000)).toEqual([]);
+      db.prepare(`UPDATE synthesis_events SET triggered_at = datetime('now', '-2 minutes') WHERE id = ?`).run(eventId);
+
+      expect(expireSyntheses(db, 60000)).toEqual([{ eventId, agentId: 'architect', count: 2 }]);
+      expect(getPendingCount(db, 'architect')).toBe(2);
+      expect(getSynthesisEvent(db, eventId)?.status).toBe('expired');
+    });
+
+    it('should leave completed events alone', () => {
+      const { eventId } = begin()!;
+      completeSynthesis(db, 'architect', { synthesisId: eventId, output: 'done', kept: [], discarded: [] });
+
+      expect(expireSyntheses(db, 0)).toEqual([]);
+      expect(abandonSynthesis(db, eventId)).toBe(0);
+      expect(getSynthesisEvent(db, eventId)?.status).toBe('completed');
+    });
+  });
+
+  describe('split synthesis', () => {
+    const split = () => beginSynthesis(db, 'architect', (eventId, thoughts) => ({
+      prompt: `step 1 of #${eventId}`,
+      chunks: [[thoughts[0].id], [thoughts[1].id]],
+    }))!;
+    const next = (p: { done: number; total: number; summaries: string[] }) => `after ${p.done}/${p.total}: ${p.summaries.join(' | ')}`;
+
+    it('should store the step plan with the event', () => {
+      const batch = split();
+
+      expect(batch.chunks).toEqual([[1], [2]]);
+      expect(getSynthesisEvent(db, batch.eventId)).toMatchObject({ prompt: `step 1 of #${batch.eventId}`, chunks: '[[1],[2]]' });
+    });
+
+    it('should collect step notes in order, then allow completion', () => {
+      const { eventId } = split();
+      const final = { synthesisId: eventId, output: 'Use Postgres.', kept: [], discarded: [] };
+
+      expect(completeSynthesis(db, 'architect', final)).toContain('submit chunk 1 first');
+      expect(submitChunkSummary(db, 'architect', eventId, 2, 'late', next)).toContain('expects chunk 1');
+      expect(submitChunkSummary(db, 'architect', eventId, 1, 'Redis', next)).toEqual({ prompt: 'after 1/2: Redis', done: 1, total: 2 });
+      expect(submitChunkSummary(db, 'architect', eventId, 2, 'no, Postgres', next)).toEqual({ prompt: 'after 2/2: Redis | no, Postgres', done: 2, total: 2 });
+      expect(getSynthesisEvent(db, eventId)).toMatchObject({ prompt: 'after 2/2: Redis | no, Postgres', summaries: '["Redis","no, Postgres"]' });
+
+      expect(submitChunkSummary(db, 'architect', eventId, 3, 'extra', next)).toContain('no condensing steps left');
+      expect(completeSynthesis(db, 'architect', final)).toEqual({ kept: 2, discarded: 0 });
+    });
+
+    it('should refuse steps for an unsplit event or another agent', () => {
+      const { eventId } = begin();
+
+      expect(submitChunkSummary(db, 'architect', eventId, 1, 'notes', next)).toContain('was not split');
+      expect(submitChunkSummary(db, 'strategist', eventId, 1, 'notes', next)).toContain('belongs to architect');
+    });
+  });
+});
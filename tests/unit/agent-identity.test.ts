@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { resolveAgentId, AgentIdentityConfig } from '../../src/core';
+
+describe('resolveAgentId()', () => {
+  const config: AgentIdentityConfig = {
+    defaultAgentId: 'main',
+    agentMap: {
+      'session-42': 'architect',
+      'telegram': 'support',
+    }
+  };
+
+  it('should prefer the agent ID from context', () => {
+    expect(resolveAgentId({ agentId: 'strategist', sessionKey: 'session-42' }, config)).toBe('strategist');
+  });
+
+  it('should use the configured mapping for a session key', () => {
+    expect(resolveAgentId({ sessionKey: 'session-42' }, config)).toBe('architect');
+  });
+
+  it('should parse agent:<id>:... session keys', () => {
+    expect(resolveAgentId({ sessionKey: 'agent:researcher:main' }, config)).toBe('researcher');
+  });
+
+  it('should fall back to the channel mapping', () => {
+    expect(resolveAgentId({ messageChannel: 'telegram' }, config)).toBe('support');
+  });
+
+  it('should fall back to the default agent', () => {
+    expect(resolveAgentId(undefined, config)).toBe('main');
+    expect(resolveAgentId({}, config)).toBe('main');
+    expect(resolveAgentId({ sessionKey: 'opaque' }, config)).toBe('main');
+  });
+
+  it('should ignore invalid agent IDs from context', () => {
+    expect(resolveAgentId({ agentId: '   ' }, config)).toBe('main');
+    expect(resolveAgentId({ agentId: 'a b; DROP TABLE' }, config)).toBe('main');
+  });
+});
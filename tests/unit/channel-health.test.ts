@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ChannelHealth, SystemState } from '../../src/core';
+
+describe('ChannelHealth', () => {
+  let health: ChannelHealth;
+  let state: SystemState;
+
+  beforeEach(() => {
+    health = new ChannelHealth({ degradedMs: 5000, criticalMs: 30000, drainMs: 3000, recoveryHoldMs: 30000 });
+    state = { globalForcedBuffering: false, simulatedLatencyMs: 0, systemHalted: false };
+  });
+
+  describe('per-channel isolation', () => {
+    it('should buffer only the degraded channel', () => {
+      health.record(12000, { channel: 'slack' });
+      health.record(300, { channel: 'telegram' });
+
+      expect(health.evaluate({ channel: 'slack' }, state).buffering).toBe(true);
+      expect(health.evaluate({ channel: 'telegram' }, state).buffering).toBe(false);
+    });
+
+    it('should normalise channel names', () => {
+      health.record(12000, { channel: ' Slack ' });
+
+      expect(health.evaluate({ channel: 'slack' }, state).buffering).toBe(true);
+      expect(health.getTracker('SLACK')?.getSampleCount()).toBe(1);
+    });
+
+    it('should fall back to untagged samples for unknown channels', () => {
+      health.record(9000);
+
+      expect(health.evaluate({ channel: 'discord' }, state).buffering).toBe(true);
+    });
+
+    it('should not let other channels leak into an unknown channel', () => {
+      health.record(12000, { channel: 'slack' });
+
+      expect(health.evaluate({ channel: 'discord' }, state).buffering).toBe(false);
+    });
+  });
+
+  describe('per-target tracking', () => {
+    it('should buffer only the degraded target', () => {
+      health.record(8000, { channel: 'slack', target: '#incidents' });
+      health.record(200, { channel: 'slack', target: '#ops' });
+
+      expect(health.getTracker('slack', '#incidents')?.getSampleCount()).toBe(1);
+      expect(health.evaluate({ channel: 'slack', target: '#incidents' }, state).buffering).toBe(true);
+      expect(health.evaluate({ channel: 'slack', target: '#ops' }, state).buffering).toBe(false);
+    });
+
+    it('should apply channel-wide degradation to every target', () => {
+      health.record(9000, { channel: 'slack' });
+      health.record(200, { channel: 'slack', target: '#ops' });
+
+      expect(health.evaluate({ channel: 'slack', target: '#ops' }, state).buffering).toBe(true);
+    });
+
+    it('should fall back to the channel for untracked targets', () => {
+      health.record(9000, { channel: 'slack' });
+
+      expect(health.evaluate({ channel: 'slack', target: '#random' }, state).buffering).toBe(true);
+    });
+  });
+
+  describe('overall status', () => {
+    it('should report the worst channel when no destination is given', () => {
+      health.record(40000, { channel: 'slack' });
+      health.record(100, { channel: 'telegram' });
+
+      const status = health.evaluate(undefined, state);
+      expect(status.buffering).toBe(true);
+      expect(status.mode).toBe('CRITICAL');
+    });
+
+    it('should apply halt to every destination', () => {
+      health.record(100, { channel: 'telegram' });
+
+      const status = health.evaluate({ channel: 'telegram' }, { ...state, systemHalted: true });
+      expect(status.reason).toBe('SYSTEM HALTED');
+    });
+  });
+
+  describe('snapshot()', () => {
+    it('should list a row per channel and target', () => {
+      health.record(12000, { channel: 'slack', target: '#ops' });
+      health.record(300, { channel: 'telegram' });
+      health.record(4000, { channel: 'slack' });
+
+      const rows = health.snapshot(state);
+      expect(rows.map(r => [r.channel, r.target])).toEqual([
+        ['slack', ''],
+        ['slack', '#ops'],
+        ['telegram', ''],
+      ]);
+      expect(rows[0].mode).toBe('HEALTHY');
+      expect(rows[1].mode).toBe('DEGRADED');
+      expect(rows[2].avgLatencyMs).toBe(300);
+    });
+
+    it('should include percentiles and trend', () => {
+      const now = Date.now();
+      health.record(100, { channel: 'slack' }, now - 2000);
+      health.record(900, { channel: 'slack' }, now - 1000);
+
+      expect(health.snapshot(state)[0]).toMatchObject({ p50LatencyMs: 100, p95LatencyMs: 900, p99LatencyMs: 900, trendMsPerSec: 800 });
+    });
+
+    it('should report the latest queue depth and its trend', () => {
+      const now = Date.now();
+      health.record(200, { channel: 'slack' }, now - 60000 + 1000);
+      health.recordQueueDepth(10, { channel: 'slack' }, now - 30000);
+      health.recordQueueDepth(25, { channel: 'slack' }, now - 1000);
+
+      const [row] = health.snapshot(state);
+      expect(row).toMatchObject({ queueDepth: 25, queueTrendPerMin: 31, mode: 'DEGRADED', reason: 'queue depth 25 > 20' });
+      expect(health.evaluate({ channel: 'slack' }, state).queueDepth).toBe(25);
+    });
+
+    it('should leave queue depth null for channels that never report it', () => {
+      health.record(200, { channel: 'telegram' });
+
+      expect(health.snapshot(state)[0]).toMatchObject({ queueDepth: null, queueTrendPerMin: 0 });
+    });
+
+    it('should omit the untagged row when it has no samples', () => {
+      expect(health.snapshot(state)).toEqual([]);
+    });
+  });
+});
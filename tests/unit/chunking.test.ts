@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import {
+  estimateTokens, planChunks, buildSynthesisPrompt, generateChunkPrompt, generateMergePrompt, resolveSynthesisBudget,
+} from '../../src/chunking';
+import { BufferedThought, formatThoughtLine, generateSynthesisPrompt } from '../../src/core';
+
+describe('chunked synthesis', () => {
+  const makeThought = (id: number, overrides: Partial<BufferedThought> = {}): BufferedThought => ({
+    id,
+    agent_id: 'main',
+    channel: 'slack',
+    target: '#ops',
+    content: `thought number ${id} `.repeat(20),
+    priority: 'P1',
+    created_at: `2026-02-07 12:${String(id).padStart(2, '0')}:00`,
+    status: 'synthesizing',
+    ...overrides
+  });
+
+  const backlog = (n: number) => Array.from({ length: n }, (_, i) => makeThought(i + 1));
+
+  describe('estimateTokens()', () => {
+    it('should count roughly four bytes per token', () => {
+      expect(estimateTokens('')).toBe(0);
+      expect(estimateTokens('abcd')).toBe(1);
+      expect(estimateTokens('abcde')).toBe(2);
+      expect(estimateTokens('日本語')).toBe(3);
+    });
+  });
+
+  describe('resolveSynthesisBudget()', () => {
+    it('should fall back to defaults for bad values', () => {
+      expect(resolveSynthesisBudget({ maxPromptTokens: -1, chunkBy: 'size' as never })).toEqual({ maxPromptTokens: 8000, chunkBy: 'time' });
+    });
+  });
+
+  describe('buildSynthesisPrompt()', () => {
+    it('should keep the single prompt when it fits', () => {
+      const thoughts = backlog(3);
+
+      expect(buildSynthesisPrompt(thoughts, 7, resolveSynthesisBudget())).toEqual({ prompt: generateSynthesisPrompt(thoughts, 7) });
+    });
+
+    it('should split into steps that each fit the budget', () => {
+      const budget = resolveSynthesisBudget({ maxPromptTokens: 600 });
+      const thoughts = backlog(12);
+      const built = buildSynthesisPrompt(thoughts, 7, budget);
+
+      expect(built.chunks!.length).toBeGreaterThan(1);
+      expect(built.chunks!.flat().sort((a, b) => a - b)).toEqual(thoughts.map(t => t.id));
+      expect(built.prompt).toContain(`SYNTHESIS STEP 1 of ${built.chunks!.length}`);
+      expect(built.prompt).toContain('chunk 1');
+
+      for (const [i, ids] of built.chunks!.entries()) {
+        const step = generateChunkPrompt(thoughts.filter(t => ids.includes(t.id)), i + 1, built.chunks!.length, 7, budget);
+        expect(estimateTokens(step)).toBeLessThanOrEqual(600);
+      }
+    });
+
+    it('should leave room for channel history and the template around the steps', () => {
+      const budget = resolveSynthesisBudget({ maxPromptTokens: 1200 });
+      const thoughts = backlog(12);
+      const channelHistory = `\n\n**Channel history:**\n${'- rick: keep it short please\n'.repeat(80)}`;
+      const fixed = estimateTokens(generateSynthesisPrompt(thoughts, 7, { channelHistory })) - estimateTokens(generateSynthesisPrompt(thoughts, 7));
+
+      const plain = buildSynthesisPrompt(thoughts, 7, budget);
+      const withHistory = buildSynthesisPrompt(thoughts, 7, budget, { channelHistory });
+
+      expect(withHistory.chunks!.length).toBeGreaterThan(plain.chunks!.length);
+      for (const ids of withHistory.chunks!) {
+        const lines = thoughts.filter(t => ids.includes(t.id)).map((t, i) => estimateTokens(formatThoughtLine(t, i, true)) + 1);
+        expect(lines.reduce((a, b) => a + b, 0) + fixed).toBeLessThanOrEqual(1200);
+      }
+    });
+
+    it('should keep P0 thoughts out of the steps', () => {
+      const thoughts = [...backlog(12), makeThought(50, { priority: 'P0', content: 'STOP the deploy' })];
+      const built = buildSynthesisPrompt(thoughts, 7, resolveSynthesisBudget({ maxPromptTokens: 600 }));
+
+      expect(built.chunks!.flat()).not.toContain(50);
+      expect(built.prompt).not.toContain('STOP the deploy');
+    });
+
+    it('should not split a backlog of only P0 thoughts', () => {
+      const thoughts = backlog(12).map(t => ({ ...t, priority: 'P0' as const }));
+
+      expect(buildSynthesisPrompt(thoughts, 7, resolveSynthesisBudget({ maxPromptTokens: 600 })).chunks).toBeUndefined();
+    });
+  });
+
+  describe('planChunks()', () => {
+    it('should order steps by time or by priority', () => {
+      const thoughts = [makeThought(1, { priority: 'P2' }), makeThought(2), makeThought(3, { priority: 'P2' }), makeThought(4)];
+      const budget = { maxPromptTokens: 300, chunkBy: 'time' as const };
+
+      expect(planChunks(thoughts, budget).flat().map(t => t.id)).toEqual([1, 2, 3, 4]);
+      expect(planChunks(thoughts, { ...budget, chunkBy: 'priority' }).flat().map(t => t.id)).toEqual([2, 4, 1, 3]);
+    });
+
+    it('should give an oversized thought its own truncated step', () => {
+      const budget = resolveSynthesisBudget({ maxPromptTokens: 400 });
+      const huge = makeThought(2, { content: 'x'.repeat(50000) });
+      const chunks = planChunks([makeThought(1), huge, makeThought(3)], budget);
+
+      expect(chunks.map(c => c.map(t => t.id))).toEqual([[1], [2], [3]]);
+      const step = generateChunkPrompt([huge], 2, 3, 7, budget);
+      expect(step).toContain('[truncated');
+      expect(estimateTokens(step)).toBeLessThanOrEqual(400);
+    });
+  });
+
+  describe('generateMergePrompt()', () => {
+    it('should carry P0 thoughts verbatim alongside the step notes', () => {
+      const rest = Array.from({ length: 39 }, (_, i) => makeThought(10 + i));
+      const prompt = generateMergePrompt(
+        [makeThought(9, { priority: 'P0', content: 'STOP the "deploy"' }), ...rest],
+        ['Redis chosen', 'ship Friday'],
+        7
+      );
+
+      expect(prompt).toContain('you drafted 40 messages');
+      expect(prompt).toContain('#9');
+      expect(prompt).toContain('[CRITICAL] "STOP the \\"deploy\\""');
+      expect(prompt).toContain('Step 1: "Redis chosen"\nStep 2: "ship Friday"');
+      expect(prompt).toContain('synthesisId 7');
+    });
+
+    it('should omit the critical section without P0 thoughts', () => {
+      expect(generateMergePrompt([makeThought(1)], ['notes'], 7)).not.toContain('Critical thoughts');
+    });
+
+    it('should render a configured template with the notes as its thoughts', () => {
+      const template = 'Back after {{outageDuration}}, {{agentId}}. {{count}} drafts:\n{{thoughts}}{{submit}}';
+      const prompt = generateMergePrompt(
+        [makeThought(9, { priority: 'P0', content: 'STOP' }), makeThought(10)],
+        ['Redis chosen'],
+        7,
+        { template }
+      );
+
+      expect(prompt).toMatch(/^Back after .+, main\. 2 drafts:\n\*\*Critical thoughts \(verbatim\):\*\*\n1\. #9 /);
+      expect(prompt).toContain('**Your notes from 1 condensing step(s):**\nStep 1: "Redis chosen"');
+      expect(prompt).toContain('synthesisId 7');
+      expect(prompt).not.toContain('NETWORK RECOVERED');
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CONTROL_KEYS, DEFAULT_SYSTEM_STATE, applyControlRecord, changedControlFlags, encodeControlValue,
+  formatStatusReport, stateFromControlRecords, DEFAULT_THRESHOLDS, SystemState, ControlRecord,
+} from '../../src/core';
+
+function row(key: string, value: string, extra: Partial<ControlRecord> = {}): ControlRecord {
+  return { key, value, set_by: 'oncall', reason: null, updated_at: '2026-01-01 12:00:00', ...extra };
+}
+
+describe('stateFromControlRecords()', () => {
+  it('should default everything off with no rows', () => {
+    expect(stateFromControlRecords([])).toEqual(DEFAULT_SYSTEM_STATE);
+  });
+
+  it('should restore a persisted halt with its audit trail', () => {
+    const state = stateFromControlRecords([row('halted', '1', { reason: 'runaway loop' })]);
+    expect(state.systemHalted).toBe(true);
+    expect(state.audit?.systemHalted).toEqual({ setBy: 'oncall', setAt: '2026-01-01 12:00:00', reason: 'runaway loop' });
+  });
+
+  it('should restore all three flags', () => {
+    const state = stateFromControlRecords([
+      row('forced_buffering', '1'),
+      row('simulated_latency_ms', '8000'),
+      row('halted', '0'),
+    ]);
+    expect(state.globalForcedBuffering).toBe(true);
+    expect(state.simulatedLatencyMs).toBe(8000);
+    expect(state.systemHalted).toBe(false);
+  });
+
+  it('should ignore unknown keys', () => {
+    expect(stateFromControlRecords([row('from_the_future', '1')])).toEqual(DEFAULT_SYSTEM_STATE);
+  });
+
+  it('should clamp bad latency values', () => {
+    expect(stateFromControlRecords([row('simulated_latency_ms', 'abc')]).simulatedLatencyMs).toBe(0);
+    expect(stateFromControlRecords([row('simulated_latency_ms', '-5')]).simulatedLatencyMs).toBe(0);
+  });
+
+  it('should record unknown for rows without a setter', () => {
+    const state = stateFromControlRecords([row('halted', '1', { set_by: null })]);
+    expect(state.audit?.systemHalted?.setBy).toBe('unknown');
+  });
+});
+
+describe('applyControlRecord()', () => {
+  it('should not mutate the input state', () => {
+    const before: SystemState = { ...DEFAULT_SYSTEM_STATE };
+    const after = applyControlRecord(before, row('halted', '1'));
+    expect(before.systemHalted).toBe(false);
+    expect(after.systemHalted).toBe(true);
+  });
+
+  it('should keep audit entries for other flags', () => {
+    const state = [row('halted', '1'), row('forced_buffering', '1', { set_by: 'cli:ops' })]
+      .reduce(applyControlRecord, { ...DEFAULT_SYSTEM_STATE });
+    expect(state.audit?.systemHalted?.setBy).toBe('oncall');
+    expect(state.audit?.globalForcedBuffering?.setBy).toBe('cli:ops');
+  });
+});
+
+describe('encodeControlValue()', () => {
+  it('should round-trip through applyControlRecord', () => {
+    const state: SystemState = { globalForcedBuffering: true, simulatedLatencyMs: 1234, systemHalted: true };
+    const rows = (Object.keys(CONTROL_KEYS) as (keyof typeof CONTROL_KEYS)[])
+      .map(flag => row(CONTROL_KEYS[flag], encodeControlValue(flag, state)));
+    const restored = stateFromControlRecords(rows);
+    expect(restored.globalForcedBuffering).toBe(true);
+    expect(restored.simulatedLatencyMs).toBe(1234);
+    expect(restored.systemHalted).toBe(true);
+  });
+});
+
+describe('changedControlFlags()', () => {
+  it('should list only flags whose value changed', () => {
+    const before = { ...DEFAULT_SYSTEM_STATE };
+    const after = { ...before, systemHalted: true, simulatedLatencyMs: 0 };
+    expect(changedControlFlags(before, after)).toEqual(['systemHalted']);
+  });
+});
+
+describe('formatStatusReport() controls', () => {
+  const now = Date.parse('2026-01-01T12:05:00Z');
+  const report = (state: SystemState) => formatStatusReport({
+    status: { buffering: false, reason: 'latency 0ms', latencyMs: 0, mode: 'HEALTHY', modeSince: now, timeInStateMs: 0 },
+    state,
+    thresholds: DEFAULT_THRESHOLDS,
+    channels: [],
+    agents: [],
+    lastSynthesisAt: null,
+  }, now);
+
+  it('should omit the controls section when nothing is set', () => {
+    expect(report(DEFAULT_SYSTEM_STATE)).not.toContain('Controls');
+  });
+
+  it('should show who set a halt, when and why', () => {
+    const text = report(stateFromControlRecords([row('halted', '1', { reason: 'runaway loop' })]));
+    expect(text).toContain('Halt: set by oncall 5m 0s ago — runaway loop');
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  DrainCoordinator,
+  CoordinatorDeps,
+  formatReleasedOutputs,
+  planDrainOrder,
+  resolveCoordinator,
+  toCandidate,
+} from '../../src/coordinator';
+import { generateSynthesisPrompt, BufferedThought } from '../../src/core';
+
+const makeThought = (overrides: Partial<BufferedThought> = {}): BufferedThought => ({
+  id: 1,
+  agent_id: 'architect',
+  channel: 'slack',
+  target: '#ops',
+  content: 'use Redis',
+  priority: 'P1',
+  created_at: '2026-02-07T12:00:00Z',
+  status: 'pending',
+  ...overrides
+});
+
+describe('resolveCoordinator()', () => {
+  it('should fall back on a bad gap and role order', () => {
+    const config = resolveCoordinator({ turnGapMs: -5, roleOrder: 'architect' as never });
+    expect(config.turnGapMs).toBe(30000);
+    expect(config.roleOrder).toEqual([]);
+    expect(config.enabled).toBe(true);
+  });
+});
+
+describe('planDrainOrder()', () => {
+  const candidate = (agentId: string, thoughts: Partial<BufferedThought>[]) =>
+    toCandidate(agentId, thoughts.map(t => makeThought({ agent_id: agentId, ...t })))!;
+
+  it('should put the most P0 thoughts first', () => {
+    const order = planDrainOrder([
+      candidate('architect', [{ priority: 'P1' }]),
+      candidate('strategist', [{ priority: 'P0' }, { priority: 'P0' }]),
+      candidate('support', [{ priority: 'P0' }]),
+    ]);
+    expect(order.map(c => c.agentId)).toEqual(['strategist', 'support', 'architect']);
+  });
+
+  it('should break P0 ties by role, then by oldest pending', () => {
+    const order = planDrainOrder([
+      candidate('architect', [{ created_at: '2026-02-07T12:05:00Z' }]),
+      candidate('support', [{ created_at: '2026-02-07T12:00:00Z' }]),
+      candidate('strategist', [{ created_at: '2026-02-07T12:10:00Z' }]),
+    ], ['strategist']);
+    expect(order.map(c => c.agentId)).toEqual(['strategist', 'support', 'architect']);
+  });
+
+  it('should skip agents with nothing pending', () => {
+    expect(toCandidate('architect', [])).toBeNull();
+  });
+});
+
+describe('DrainCoordinator', () => {
+  let pending: Record<string, BufferedThought[]>;
+  let drained: string[];
+  let deps: CoordinatorDeps;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    pending = {
+      architect: [makeThought({ id: 1, agent_id: 'architect' })],
+      strategist: [makeThought({ id: 2, agent_id: 'strategist', priority: 'P0' })],
+      support: [makeThought({ id: 3, agent_id: 'support', channel: 'discord' })],
+    };
+    drained = [];
+    deps = {
+      getPending: (agentId) => pending[agentId] ?? [],
+      drain: async (agentId) => {
+        drained.push(agentId);
+        return pending[agentId]?.length ?? 0;
+      },
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should let one agent at a time speak on a shared channel', async () => {
+    const coordinator = new DrainCoordinator(deps, resolveCoordinator());
+    expect(coordinator.start(['architect', 'strategist', 'support'])).toEqual(['strategist', 'architect', 'support']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    // support is alone on discord, so it need not wait
+    expect(drained).toEqual(['strategist', 'support']);
+    expect(coordinator.getOrder()).toEqual({ active: ['strategist', 'support'], waiting: ['architect'] });
+
+    expect(coordinator.acknowledge('strategist', 'shipping Friday')).toBe(true);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(drained).toEqual(['strategist', 'support', 'architect']);
+  });
+
+  it('should pass the turn on after the gap without an ack', async () => {
+    const coordinator = new DrainCoordinator(deps, resolveCoordinator({ turnGapMs: 1000 }));
+    coordinator.start(['architect', 'strategist']);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(drained).toEqual(['strategist']);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(drained).toEqual(['strategist', 'architect']);
+  });
+
+  it('should move on at once when an agent had nothing handed over', async () => {
+    const coordinator = new DrainCoordinator({ ...deps, drain: async (agentId) => { drained.push(agentId); return 0; } }, resolveCoordinator());
+    coordinator.start(['architect', 'strategist']);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(drained).toEqual(['strategist', 'architect']);
+    expect(coordinator.isRunning()).toBe(false);
+  });
+
+  it('should show later agents what earlier ones released on their channels', async () => {
+    const coordinator = new DrainCoordinator(deps, resolveCoordinator());
+    coordinator.start(['architect', 'strategist', 'support']);
+    await vi.advanceTimersByTimeAsync(0);
+    coordinator.acknowledge('support', 'ticket answered');
+    coordinator.acknowledge('strategist', 'shipping Friday');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(coordinator.releasedFor('architect')).toEqual([
+      { agentId: 'strategist', channels: ['slack'], output: 'shipping Friday' },
+    ]);
+  });
+
+  it('should not queue an agent twice and ignore stray acks', async () => {
+    const coordinator = new DrainCoordinator(deps, resolveCoordinator());
+    coordinator.start(['architect', 'strategist']);
+    expect(coordinator.start(['architect'])).toEqual([]);
+    expect(coordinator.acknowledge('support', 'hello')).toBe(false);
+  });
+
+  it('should stop handing out turns when cancelled', async () => {
+    const coordinator = new DrainCoordinator(deps, resolveCoordinator({ turnGapMs: 1000 }));
+    coordinator.start(['architect', 'strategist']);
+    await vi.advanceTimersByTimeAsync(0);
+    coordinator.cancel();
+    await vi.advanceTimersByTimeAsync(5000);
+
+    expect(drained).toEqual(['strategist']);
+    expect(coordinator.isRunning()).toBe(false);
+  });
+});
+
+describe('formatReleasedOutputs()', () => {
+  it('should be empty with nothing released', () => {
+    expect(formatReleasedOutputs([])).toBe('');
+  });
+
+  it('should land in the default prompt', () => {
+    const released = formatReleasedOutputs([{ agentId: 'strategist', channels: ['slack'], output: 'shipping Friday' }]);
+    const prompt = generateSynthesisPrompt([makeThought()], 7, { releasedOutputs: released });
+
+    expect(prompt).toContain('Already sent since recovery');
+    expect(prompt).toContain('- strategist [slack]: "shipping Friday"');
+  });
+});
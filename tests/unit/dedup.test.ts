@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import {
+  planDedup, resolveDedup, normalizeForSimilarity, shingles, jaccard, similarity, isRevision, describeDedup, numbersIn, DEFAULT_DEDUP,
+} from '../../src/dedup';
+import { IncomingThought } from '../../src/overflow';
+import { BufferedThought } from '../../src/core';
+
+describe('similarity', () => {
+  it('should normalise case and punctuation but keep numbers', () => {
+    expect(normalizeForSimilarity('  Retrying (attempt 12)… ')).toBe('retrying attempt 12');
+    expect(normalizeForSimilarity('Café!')).toBe('cafe');
+  });
+
+  it('should build character shingles', () => {
+    expect([...shingles('abcd', 3)]).toEqual(['abc', 'bcd']);
+    expect([...shingles('ab', 3)]).toEqual(['ab']);
+    expect(shingles('?!', 3).size).toBe(0);
+  });
+
+  it('should compute Jaccard over shingle sets', () => {
+    expect(jaccard(new Set(['a', 'b']), new Set(['b', 'c']))).toBeCloseTo(1 / 3);
+    expect(jaccard(new Set(), new Set())).toBe(1);
+    expect(jaccard(new Set(['a']), new Set())).toBe(0);
+  });
+
+  it('should score retries as identical and different decisions as not', () => {
+    expect(similarity('Deploy failed, retrying (attempt 2)', 'deploy failed - retrying (attempt 2)!')).toBe(1);
+    expect(similarity('The build is green, shipping now', 'the build is green; shipping it now')).toBeGreaterThan(0.8);
+    expect(similarity('use Redis for the cache', 'use Postgres for the cache')).toBeLessThan(DEFAULT_DEDUP.threshold);
+    expect(similarity('use redis', "don't use redis")).toBeLessThan(DEFAULT_DEDUP.threshold);
+  });
+
+  it('should recognise explicit revisions', () => {
+    expect(isRevision('Actually, use Postgres')).toBe(true);
+    expect(isRevision('scratch that — ship Monday')).toBe(true);
+    expect(isRevision('Ignore my previous message')).toBe(true);
+    expect(isRevision('Update: the fix is merged')).toBe(false);
+    expect(isRevision('update the runbook')).toBe(false);
+    expect(isRevision('I actually think so')).toBe(false);
+  });
+});
+
+describe('planDedup()', () => {
+  let nextId = 1;
+  const thought = (overrides: Partial<BufferedThought> = {}): BufferedThought => ({
+    id: nextId++,
+    agent_id: 'main',
+    channel: 'slack',
+    target: '#ops',
+    content: `thought ${nextId}`,
+    priority: 'P1',
+    created_at: `2026-02-07 12:00:${String(nextId).padStart(2, '0')}`,
+    status: 'pending',
+    ...overrides
+  });
+
+  const incoming = (overrides: Partial<IncomingThought> = {}): IncomingThought => ({
+    channel: 'slack',
+    target: '#ops',
+    content: 'new thought',
+    priority: 'P1',
+    ...overrides
+  });
+
+  const config = resolveDedup({ enabled: true });
+
+  it('should be off unless enabled', () => {
+    expect(DEFAULT_DEDUP.enabled).toBe(false);
+  });
+
+  it('should collapse into the most similar pending thought', () => {
+    const loose = thought({ content: 'deploy failed, retrying the job' });
+    const close = thought({ content: 'Deploy failed, retrying (attempt 1)' });
+
+    expect(planDedup(config, [loose, close], incoming({ content: 'deploy failed - retrying, attempt 1!' })))
+      .toEqual({ action: 'collapse', duplicateOf: close.id, similarity: 1 });
+  });
+
+  it('should never collapse thoughts whose numbers differ', () => {
+    const transfer = thought({ content: 'Transfer $100 to account 1234' });
+    const ticket = thought({ content: 'Ticket 123/456 is resolved' });
+
+    expect(planDedup(config, [transfer, ticket], incoming({ content: 'Transfer $900 to account 5678' }))).toEqual({ action: 'insert' });
+    expect(planDedup(config, [transfer, ticket], incoming({ content: 'Ticket 123/457 is resolved' }))).toEqual({ action: 'insert' });
+    expect(planDedup(config, [ticket], incoming({ content: 'ticket 123/456 is resolved!' })))
+      .toMatchObject({ action: 'collapse', duplicateOf: ticket.id });
+    expect(numbersIn('Deploy at 14:00')).toBe('14 00');
+  });
+
+  it('should only compare thoughts for the same destination', () => {
+    const elsewhere = thought({ content: 'retrying (attempt 1)', target: '#general' });
+
+    expect(planDedup(config, [elsewhere], incoming({ content: 'retrying (attempt 1)' }))).toEqual({ action: 'insert' });
+  });
+
+  it('should supersede the latest thought on a revision', () => {
+    const older = thought({ content: 'use Redis', created_at: '2026-02-07 12:00:01' });
+    const latest = thought({ content: 'use Memcached', created_at: '2026-02-07 12:00:05' });
+
+    expect(planDedup(config, [latest, older], incoming({ content: 'Actually, use Postgres' })))
+      .toEqual({ action: 'supersede', supersededIds: [latest.id] });
+  });
+
+  it('should not let a revision retire a more urgent thought', () => {
+    const urgent = thought({ content: 'prod is down, paging on-call', priority: 'P0' });
+
+    expect(planDedup(config, [urgent], incoming({ content: 'Actually, use Postgres', priority: 'P2' }))).toEqual({ action: 'insert' });
+    expect(planDedup(config, [urgent], incoming({ content: 'Actually, prod is back', priority: 'P0' })))
+      .toEqual({ action: 'supersede', supersededIds: [urgent.id] });
+  });
+
+  it('should insert a revision with nothing to revise', () => {
+    expect(planDedup(config, [], incoming({ content: 'Actually, use Postgres' }))).toEqual({ action: 'insert' });
+  });
+
+  it('should do nothing when disabled', () => {
+    const same = thought({ content: 'retrying' });
+
+    expect(planDedup(resolveDedup(), [same], incoming({ content: 'retrying' }))).toEqual({ action: 'insert' });
+    expect(planDedup(resolveDedup({ enabled: true, supersede: false }), [same], incoming({ content: 'actually no' }))).toEqual({ action: 'insert' });
+  });
+
+  it('should fall back to defaults for out-of-range settings', () => {
+    expect(resolveDedup({ threshold: 1.5, shingleSize: 0 })).toMatchObject({ threshold: 0.7, shingleSize: 3 });
+  });
+
+  it('should describe each decision', () => {
+    expect(describeDedup({ action: 'supersede', supersededIds: [3] })).toBe('supersedes #3');
+    expect(describeDedup({ action: 'collapse', duplicateOf: 4, similarity: 0.875 })).toBe('collapsed into #4 (similarity 0.88)');
+  });
+});
@@ -0,0 +1,220 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { DrainScheduler, computeJitter, DrainDeps } from '../../src/drain';
+import { BufferedThought, BufferStatus } from '../../src/core';
+
+describe('DrainScheduler', () => {
+  const makeThought = (agentId: string, content: string): BufferedThought => ({
+    id: 1,
+    agent_id: agentId,
+    channel: 'slack',
+    target: '#ops',
+    content,
+    priority: 'P1',
+    created_at: '2026-02-07T12:00:00Z',
+    status: 'pending'
+  });
+
+  const status = (buffering: boolean): BufferStatus => ({
+    buffering,
+    reason: buffering ? 'latency' : 'healthy',
+    latencyMs: 0,
+    mode: buffering ? 'DEGRADED' : 'HEALTHY',
+    modeSince: 0,
+    timeInStateMs: 0
+  });
+
+  let pending: Map<string, BufferedThought[]>;
+  let inflight: Map<number, { agentId: string; thoughts: BufferedThought[] }>;
+  let delivered: { agentId: string; prompt: string }[];
+  let healthy: boolean;
+  let deps: DrainDeps;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    pending = new Map([
+      ['architect', [makeThought('architect', 'use Redis')]],
+      ['strategist', [makeThought('strategist', 'ship Friday')]],
+    ]);
+    inflight = new Map();
+    delivered = [];
+    healthy = true;
+    deps = {
+      getPendingAgents: () => [...pending.keys()],
+      beginSynthesis: (agentId, buildPrompt) => {
+        const thoughts = pending.get(agentId);
+        if (!thoughts) return null;
+        const eventId = inflight.size + 1;
+        pending.delete(agentId);
+        inflight.set(eventId, { agentId, thoughts });
+        const built = buildPrompt(eventId, thoughts);
+        return { eventId, agentId, thoughts, prompt: typeof built === 'string' ? built : built.prompt };
+      },
+      deliver: (agentId, prompt) => {
+        delivered.push({ agentId, prompt });
+        return true;
+      },
+      abandonSynthesis: (eventId) => {
+        const batch = inflight.get(eventId)!;
+        inflight.delete(eventId);
+        pending.set(batch.agentId, batch.thoughts);
+      },
+      isHealthy: () => healthy,
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not drain without a recovery edge', async () => {
+    const scheduler = new DrainScheduler(deps, { maxJitterMs: 1000 });
+    scheduler.observe(status(false));
+    await vi.runAllTimersAsync();
+
+    expect(delivered).toHaveLength(0);
+  });
+
+  it('should drain every pending agent after recovery', async () => {
+    const scheduler = new DrainScheduler(deps, { maxJitterMs: 1000 });
+    scheduler.observe(status(true));
+    scheduler.observe(status(false));
+    await vi.runAllTimersAsync();
+
+    expect(delivered.map(d => d.agentId).sort()).toEqual(['architect', 'strategist']);
+    expect(delivered[0].prompt).toContain('NETWORK RECOVERED');
+    expect(pending.size).toBe(0);
+  });
+
+  it('should stagger agents by jitter', async () => {
+    const rolls = [0.9, 0.1];
+    const scheduler = new DrainScheduler(deps, { maxJitterMs: 1000, random: () => rolls.shift() ?? 0 });
+    scheduler.observe(status(true));
+    scheduler.observe(status(false));
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(delivered.map(d => d.agentId)).toEqual(['strategist']);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(delivered.map(d => d.agentId)).toEqual(['strategist', 'architect']);
+  });
+
+  it('should cancel scheduled drains when buffering resumes', async () => {
+    const scheduler = new DrainScheduler(deps, { maxJitterMs: 1000 });
+    scheduler.observe(status(true));
+    scheduler.observe(status(false));
+    expect(scheduler.isScheduled('architect')).toBe(true);
+
+    scheduler.observe(status(true));
+    await vi.runAllTimersAsync();
+
+    expect(scheduler.isScheduled('architect')).toBe(false);
+    expect(delivered).toHaveLength(0);
+  });
+
+  it('should skip an agent if health regressed during jitter', async () => {
+    const scheduler = new DrainScheduler(deps, { maxJitterMs: 1000 });
+    healthy = false;
+
+    expect(await scheduler.drainAgent('architect')).toBe(0);
+    expect(pending.has('architect')).toBe(true);
+  });
+
+  it('should hold only the agent that is not healthy', async () => {
+    const scheduler = new DrainScheduler({ ...deps, isHealthy: (agentId) => agentId !== 'architect' }, { maxJitterMs: 0 });
+
+    expect(await scheduler.drainAgent('architect')).toBe(0);
+    expect(await scheduler.drainAgent('strategist')).toBe(1);
+    expect(delivered.map(d => d.agentId)).toEqual(['strategist']);
+  });
+
+  it('should ask the agent to report back against the synthesis event', async () => {
+    const scheduler = new DrainScheduler(deps, { maxJitterMs: 0 });
+
+    expect(await scheduler.drainAgent('architect')).toBe(1);
+    expect(delivered[0].prompt).toContain('submit_synthesis');
+    expect(delivered[0].prompt).toContain('synthesisId 1');
+    expect(inflight.get(1)?.agentId).toBe('architect');
+  });
+
+  it('should deliver the first step of a split synthesis', async () => {
+    const scheduler = new DrainScheduler(deps, {
+      maxJitterMs: 0,
+      buildPrompt: (eventId, thoughts) => ({ prompt: `step 1 for #${eventId}`, chunks: [thoughts.map(t => t.id)] }),
+    });
+
+    await scheduler.drainAgent('architect');
+    expect(delivered[0].prompt).toBe('step 1 for #1');
+  });
+
+  it('should wait for an async beginSynthesis', async () => {
+    const begin = deps.beginSynthesis;
+    const scheduler = new DrainScheduler({
+      ...deps,
+      beginSynthesis: async (agentId, buildPrompt) => begin(agentId, (id, thoughts) => buildPrompt(id, thoughts, '\n\nhistory')),
+    }, { maxJitterMs: 0 });
+
+    expect(await scheduler.drainAgent('architect')).toBe(1);
+    expect(delivered[0].prompt).toContain('history');
+  });
+
+  it('should leave thoughts alone when beginSynthesis rejects', async () => {
+    const warn = vi.fn();
+    const scheduler = new DrainScheduler(
+      { ...deps, beginSynthesis: async () => { throw new Error('history down'); }, logger: { info: () => {}, warn } },
+      { maxJitterMs: 0 }
+    );
+
+    expect(await scheduler.drainAgent('architect')).toBe(0);
+    expect(pending.has('architect')).toBe(true);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('history down'));
+  });
+
+  it('should keep thoughts pending when delivery fails', async () => {
+    const scheduler = new DrainScheduler({ ...deps, deliver: () => false }, { maxJitterMs: 0 });
+
+    expect(await scheduler.drainAgent('architect')).toBe(0);
+    expect(pending.has('architect')).toBe(true);
+  });
+
+  it('should keep thoughts pending when delivery throws', async () => {
+    const warn = vi.fn();
+    const scheduler = new DrainScheduler(
+      { ...deps, deliver: () => { throw new Error('boom'); }, logger: { info: () => {}, warn } },
+      { maxJitterMs: 0 }
+    );
+
+    expect(await scheduler.drainAgent('architect')).toBe(0);
+    expect(pending.has('architect')).toBe(true);
+    expect(inflight.size).toBe(0);
+    expect(warn).toHaveBeenCalled();
+  });
+
+  it('should hand the round to a coordinator instead of jittering', async () => {
+    const coordinator = { start: vi.fn((agents: string[]) => agents), cancel: vi.fn() };
+    const scheduler = new DrainScheduler(deps, { maxJitterMs: 1000, coordinator });
+    scheduler.observe(status(true));
+    scheduler.observe(status(false));
+    await vi.runAllTimersAsync();
+
+    expect(coordinator.start).toHaveBeenCalledWith(['architect', 'strategist']);
+    expect(scheduler.isScheduled('architect')).toBe(false);
+    expect(delivered).toHaveLength(0);
+
+    scheduler.observe(status(true));
+    expect(coordinator.cancel).toHaveBeenCalled();
+  });
+});
+
+describe('computeJitter()', () => {
+  it('should scale random into [0, max)', () => {
+    expect(computeJitter(1000, () => 0)).toBe(0);
+    expect(computeJitter(1000, () => 0.5)).toBe(500);
+    expect(computeJitter(1000, () => 0.999)).toBe(999);
+  });
+
+  it('should return 0 for non-positive or invalid max', () => {
+    expect(computeJitter(0)).toBe(0);
+    expect(computeJitter(-5)).toBe(0);
+    expect(computeJitter(NaN)).toBe(0);
+  });
+});
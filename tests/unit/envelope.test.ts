@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseSynthesisReply, resolveOutputMode } from '../../src/envelope';
+import { generateSynthesisPrompt, BufferedThought } from '../../src/core';
+
+const pending = [1, 2, 3];
+
+describe('parseSynthesisReply()', () => {
+  it('should read a well-formed envelope', () => {
+    const reply = JSON.stringify({
+      message: 'Use Redis. ',
+      kept_ids: [1, 2],
+      discarded_ids: [{ id: 3, reason: 'superseded by #2' }],
+    });
+
+    expect(parseSynthesisReply(reply, pending)).toEqual({
+      format: 'json',
+      message: 'Use Redis.',
+      kept: [1, 2],
+      discarded: [3],
+      reasons: { 3: 'superseded by #2' },
+      unaccounted: [],
+    });
+  });
+
+  it('should tolerate a code fence and bare discarded IDs', () => {
+    const reply = '```json\n{"message": "Use Redis.", "kept_ids": [1], "discarded_ids": [2]}\n```';
+    const parsed = parseSynthesisReply(reply, pending);
+
+    expect(parsed).toMatchObject({ format: 'json', kept: [1], discarded: [2], reasons: { 2: '' }, unaccounted: [3] });
+  });
+
+  it('should find the object inside surrounding prose', () => {
+    const parsed = parseSynthesisReply('Here you go: {"message": "ok", "kept_ids": [1]} Thanks!', pending);
+    expect(parsed.format).toBe('json');
+  });
+
+  it('should fall back to free text when the reply is not JSON', () => {
+    const parsed = parseSynthesisReply('Use Redis.', pending);
+    expect(parsed).toMatchObject({ format: 'text', message: 'Use Redis.' });
+    expect(parsed.format === 'text' && parsed.error).toContain('not JSON');
+  });
+
+  it('should fall back when the message is missing', () => {
+    const parsed = parseSynthesisReply('{"kept_ids": [1]}', pending);
+    expect(parsed.format === 'text' && parsed.error).toContain('message');
+  });
+
+  it('should fall back on an ID that was not in the synthesis', () => {
+    const parsed = parseSynthesisReply('{"message": "ok", "kept_ids": [9]}', pending);
+    expect(parsed.format === 'text' && parsed.error).toContain('#9');
+  });
+
+  it('should fall back on an ID both kept and discarded', () => {
+    const parsed = parseSynthesisReply('{"message": "ok", "kept_ids": [1], "discarded_ids": [{"id": 1, "reason": "?"}]}', pending);
+    expect(parsed.format === 'text' && parsed.error).toContain('both kept and discarded');
+  });
+
+  it('should fall back on malformed ID lists', () => {
+    expect(parseSynthesisReply('{"message": "ok", "kept_ids": "1,2"}', pending).format).toBe('text');
+    expect(parseSynthesisReply('{"message": "ok", "discarded_ids": [{"reason": "no id"}]}', pending).format).toBe('text');
+  });
+});
+
+describe('resolveOutputMode()', () => {
+  it('should default to text', () => {
+    expect(resolveOutputMode(undefined)).toBe('text');
+    expect(resolveOutputMode('yaml')).toBe('text');
+    expect(resolveOutputMode('json')).toBe('json');
+  });
+});
+
+describe('generateSynthesisPrompt() in JSON mode', () => {
+  const thought: BufferedThought = {
+    id: 4, agent_id: 'main', channel: 'slack', target: '#ops', content: 'Use Redis',
+    priority: 'P1', created_at: '2026-02-07T12:00:00Z', status: 'synthesizing',
+  };
+
+  it('should ask for the envelope', () => {
+    const prompt = generateSynthesisPrompt([thought], 5, { outputMode: 'json' });
+
+    expect(prompt).toContain('synthesisId 5');
+    expect(prompt).toContain('"kept_ids"');
+    expect(prompt).toContain('"discarded_ids": [{"id"');
+  });
+
+  it('should keep free-text instructions by default', () => {
+    expect(generateSynthesisPrompt([thought], 5)).not.toContain('kept_ids');
+  });
+});
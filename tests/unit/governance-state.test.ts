@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GovernanceStateMachine, classifyLatency, classifyQueueDepth, resolveThresholds } from '../../src/core';
+
+describe('GovernanceStateMachine', () => {
+  const t0 = 1_000_000;
+  let machine: GovernanceStateMachine;
+
+  beforeEach(() => {
+    machine = new GovernanceStateMachine(
+      { degradedMs: 5000, criticalMs: 30000, drainMs: 3000, recoveryHoldMs: 10000 },
+      t0
+    );
+  });
+
+  describe('escalation', () => {
+    it('should start HEALTHY', () => {
+      expect(machine.getMode()).toBe('HEALTHY');
+      expect(machine.getSince()).toBe(t0);
+    });
+
+    it('should enter DEGRADED above the degraded threshold', () => {
+      expect(machine.evaluate(6000, t0 + 1000)).toBe('DEGRADED');
+      expect(machine.getSince()).toBe(t0 + 1000);
+    });
+
+    it('should jump straight to CRITICAL above the critical threshold', () => {
+      expect(machine.evaluate(40000, t0 + 1000)).toBe('CRITICAL');
+    });
+
+    it('should escalate from DEGRADED to CRITICAL', () => {
+      machine.evaluate(6000, t0);
+      expect(machine.evaluate(31000, t0 + 1000)).toBe('CRITICAL');
+    });
+  });
+
+  describe('hysteresis', () => {
+    it('should not flap back to HEALTHY on a single good sample', () => {
+      machine.evaluate(6000, t0);
+      expect(machine.evaluate(1000, t0 + 1000)).toBe('DEGRADED');
+    });
+
+    it('should stay DEGRADED while latency sits between drain and degraded thresholds', () => {
+      machine.evaluate(6000, t0);
+      expect(machine.evaluate(4000, t0 + 60000)).toBe('DEGRADED');
+    });
+
+    it('should recover after latency stays below drain threshold for the hold period', () => {
+      machine.evaluate(6000, t0);
+      machine.evaluate(1000, t0 + 1000);
+      expect(machine.evaluate(1000, t0 + 10999)).toBe('DEGRADED');
+      expect(machine.evaluate(1000, t0 + 11000)).toBe('HEALTHY');
+    });
+
+    it('should restart the hold period when latency climbs above drain threshold', () => {
+      machine.evaluate(6000, t0);
+      machine.evaluate(1000, t0 + 1000);
+      machine.evaluate(4000, t0 + 5000);
+      machine.evaluate(1000, t0 + 6000);
+      expect(machine.evaluate(1000, t0 + 12000)).toBe('DEGRADED');
+      expect(machine.evaluate(1000, t0 + 16000)).toBe('HEALTHY');
+    });
+
+    it('should step CRITICAL down to DEGRADED below the degraded threshold', () => {
+      machine.evaluate(40000, t0);
+      expect(machine.evaluate(20000, t0 + 1000)).toBe('CRITICAL');
+      expect(machine.evaluate(4000, t0 + 2000)).toBe('DEGRADED');
+    });
+
+    it('should step CRITICAL down to DEGRADED on a sample below the drain threshold', () => {
+      machine.evaluate(40000, t0);
+      expect(machine.evaluate(1000, t0 + 1000)).toBe('DEGRADED');
+      expect(machine.evaluate(1000, t0 + 10999)).toBe('DEGRADED');
+      expect(machine.evaluate(1000, t0 + 11000)).toBe('HEALTHY');
+    });
+  });
+
+  describe('time in state', () => {
+    it('should report time since last transition', () => {
+      machine.evaluate(6000, t0 + 1000);
+      machine.evaluate(7000, t0 + 5000);
+      expect(machine.getTimeInState(t0 + 6000)).toBe(5000);
+    });
+
+    it('should reset to HEALTHY', () => {
+      machine.evaluate(40000, t0);
+      machine.reset(t0 + 100);
+      expect(machine.getMode()).toBe('HEALTHY');
+      expect(machine.getSince()).toBe(t0 + 100);
+    });
+  });
+  describe('queue depth', () => {
+    it('should escalate on depth alone', () => {
+      expect(machine.evaluate(100, t0 + 1000, 25)).toBe('DEGRADED');
+      expect(machine.evaluate(100, t0 + 2000, 44)).toBe('CRITICAL');
+    });
+
+    it('should step down from CRITICAL only when depth drops too', () => {
+      machine.evaluate(100, t0, 44);
+
+      expect(machine.evaluate(4000, t0 + 1000, 30)).toBe('CRITICAL');
+      expect(machine.evaluate(4000, t0 + 2000, 10)).toBe('DEGRADED');
+    });
+
+    it('should hold recovery until the queue has drained', () => {
+      machine.evaluate(6000, t0);
+      machine.evaluate(100, t0 + 1000, 12);
+
+      expect(machine.evaluate(100, t0 + 20000, 12)).toBe('DEGRADED');
+      machine.evaluate(100, t0 + 21000, 3);
+      expect(machine.evaluate(100, t0 + 31000, 2)).toBe('HEALTHY');
+    });
+  });
+});
+
+describe('classifyLatency()', () => {
+  const thresholds = resolveThresholds({ degradedMs: 5000, criticalMs: 30000 });
+
+  it('should classify by strict greater-than', () => {
+    expect(classifyLatency(5000, thresholds)).toBe('HEALTHY');
+    expect(classifyLatency(5001, thresholds)).toBe('DEGRADED');
+    expect(classifyLatency(30000, thresholds)).toBe('DEGRADED');
+    expect(classifyLatency(30001, thresholds)).toBe('CRITICAL');
+  });
+});
+
+describe('resolveThresholds()', () => {
+  it('should treat a number as the degraded threshold', () => {
+    const resolved = resolveThresholds(8000);
+    expect(resolved.degradedMs).toBe(8000);
+    expect(resolved.criticalMs).toBe(30000);
+  });
+
+  it('should keep critical >= degraded >= drain', () => {
+    const resolved = resolveThresholds({ degradedMs: 40000, drainMs: 50000 });
+    expect(resolved.criticalMs).toBe(40000);
+    expect(resolved.drainMs).toBe(40000);
+  });
+});
+
+describe('classifyQueueDepth()', () => {
+  it('should use strict > at each depth threshold', () => {
+    const thresholds = resolveThresholds({ queueDegradedDepth: 20, queueCriticalDepth: 40 });
+    expect(classifyQueueDepth(20, thresholds)).toBe('HEALTHY');
+    expect(classifyQueueDepth(21, thresholds)).toBe('DEGRADED');
+    expect(classifyQueueDepth(41, thresholds)).toBe('CRITICAL');
+  });
+
+  it('should keep queue critical >= degraded >= drain', () => {
+    const resolved = resolveThresholds({ queueDegradedDepth: 50, queueDrainDepth: 60 });
+    expect(resolved.queueCriticalDepth).toBe(50);
+    expect(resolved.queueDrainDepth).toBe(50);
+  });
+});
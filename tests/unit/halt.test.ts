@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ChannelHealth, DEFAULT_SYSTEM_STATE, applyHalt, formatHaltNotice, haltReason, haltTransitions, parseHaltArgs,
+  stateFromControlRecords, changedControlFlags, encodeControlValue, SystemState,
+} from '../../src/core';
+
+describe('parseHaltArgs()', () => {
+  it('should default to a global halt', () => {
+    expect(parseHaltArgs('')).toEqual({ scope: { kind: 'global' }, reason: undefined });
+  });
+
+  it('should treat free text as the reason for a global halt', () => {
+    expect(parseHaltArgs('runaway loop')).toEqual({ scope: { kind: 'global' }, reason: 'runaway loop' });
+  });
+
+  it('should parse agent scope with a reason', () => {
+    expect(parseHaltArgs('agent architect spamming #ops')).toEqual({
+      scope: { kind: 'agent', id: 'architect' },
+      reason: 'spamming #ops',
+    });
+  });
+
+  it('should parse channel scope case-insensitively', () => {
+    expect(parseHaltArgs('CHANNEL Slack')).toEqual({ scope: { kind: 'channel', id: 'slack' }, reason: undefined });
+  });
+
+  it('should reject a scope without a valid ID', () => {
+    expect(parseHaltArgs('agent')).toBeNull();
+    expect(parseHaltArgs('channel ../etc')).toBeNull();
+  });
+});
+
+describe('applyHalt()', () => {
+  it('should toggle the global flag', () => {
+    expect(applyHalt(DEFAULT_SYSTEM_STATE, { kind: 'global' }, true).systemHalted).toBe(true);
+  });
+
+  it('should add and remove scoped halts without duplicates', () => {
+    let state = applyHalt(DEFAULT_SYSTEM_STATE, { kind: 'agent', id: 'architect' }, true);
+    state = applyHalt(state, { kind: 'agent', id: 'architect' }, true);
+    expect(state.haltedAgents).toEqual(['architect']);
+
+    state = applyHalt(state, { kind: 'agent', id: 'architect' }, false);
+    expect(state.haltedAgents).toEqual([]);
+  });
+
+  it('should store channels lowercased and lift a halt whatever its case', () => {
+    let state = applyHalt(DEFAULT_SYSTEM_STATE, { kind: 'channel', id: 'Slack' }, true);
+    expect(state.haltedChannels).toEqual(['slack']);
+
+    state = applyHalt({ ...state, haltedChannels: ['Telegram'] }, { kind: 'channel', id: 'telegram' }, false);
+    expect(state.haltedChannels).toEqual([]);
+  });
+
+  it('should leave the other scope alone', () => {
+    const state = applyHalt({ ...DEFAULT_SYSTEM_STATE, haltedChannels: ['slack'] }, { kind: 'agent', id: 'main' }, true);
+    expect(state.haltedChannels).toEqual(['slack']);
+    expect(state.systemHalted).toBe(false);
+  });
+});
+
+describe('haltTransitions()', () => {
+  it('should report newly halted and resumed scopes', () => {
+    const before: SystemState = { ...DEFAULT_SYSTEM_STATE, haltedAgents: ['main'] };
+    const after: SystemState = { ...DEFAULT_SYSTEM_STATE, systemHalted: true, haltedChannels: ['slack'] };
+
+    expect(haltTransitions(before, after)).toEqual([
+      { scope: { kind: 'global' }, halted: true },
+      { scope: { kind: 'agent', id: 'main' }, halted: false },
+      { scope: { kind: 'channel', id: 'slack' }, halted: true },
+    ]);
+  });
+
+  it('should report nothing for unrelated changes', () => {
+    expect(haltTransitions(DEFAULT_SYSTEM_STATE, { ...DEFAULT_SYSTEM_STATE, globalForcedBuffering: true })).toEqual([]);
+  });
+});
+
+describe('haltReason()', () => {
+  const state: SystemState = { ...DEFAULT_SYSTEM_STATE, haltedAgents: ['architect'], haltedChannels: ['slack'] };
+
+  it('should match halted agents and channels', () => {
+    expect(haltReason(state, 'architect')).toBe('halted: agent architect');
+    expect(haltReason(state, 'main', 'slack')).toBe('halted: channel slack');
+  });
+
+  it('should match channels whatever their case', () => {
+    expect(haltReason(state, 'main', 'Slack')).toBe('halted: channel slack');
+    expect(haltReason({ ...state, haltedChannels: ['Telegram'] }, 'main', 'telegram')).toBe('halted: channel telegram');
+  });
+
+  it('should return null for everyone else', () => {
+    expect(haltReason(state, 'main', 'telegram')).toBeNull();
+    expect(haltReason(state)).toBeNull();
+  });
+
+  it('should put a global halt first', () => {
+    expect(haltReason({ ...state, systemHalted: true }, 'architect')).toBe('SYSTEM HALTED');
+  });
+});
+
+describe('formatHaltNotice()', () => {
+  it('should tag global halts', () => {
+    expect(formatHaltNotice({ scope: { kind: 'global' }, halted: true }, 'rick', 'loop'))
+      .toBe('[SYSTEM HALT] All agent output suspended by rick. Reason: loop');
+  });
+
+  it('should name the scope on resume', () => {
+    expect(formatHaltNotice({ scope: { kind: 'channel', id: 'slack' }, halted: false }, 'rick'))
+      .toBe('[SYSTEM RESUME] Output for channel slack resumed by rick.');
+  });
+});
+
+describe('scoped halts in ChannelHealth.evaluate()', () => {
+  const health = new ChannelHealth();
+
+  it('should buffer a halted agent on a healthy network', () => {
+    const state = { ...DEFAULT_SYSTEM_STATE, haltedAgents: ['architect'] };
+    expect(health.evaluate({ channel: 'slack' }, state, 'architect')).toMatchObject({
+      buffering: true,
+      reason: 'halted: agent architect',
+      mode: 'HEALTHY',
+    });
+    expect(health.evaluate({ channel: 'slack' }, state, 'main').buffering).toBe(false);
+  });
+
+  it('should buffer every agent on a halted channel', () => {
+    const state = { ...DEFAULT_SYSTEM_STATE, haltedChannels: ['slack'] };
+    expect(health.evaluate({ channel: 'slack' }, state, 'main').buffering).toBe(true);
+    expect(health.evaluate({ channel: 'telegram' }, state, 'main').buffering).toBe(false);
+  });
+});
+
+describe('scoped halt persistence', () => {
+  it('should round-trip halted lists through control rows', () => {
+    const state: SystemState = { ...DEFAULT_SYSTEM_STATE, haltedAgents: ['b', 'a'] };
+    const restored = stateFromControlRecords([{
+      key: 'halted_agents',
+      value: encodeControlValue('haltedAgents', state),
+      set_by: 'rick',
+      reason: null,
+      updated_at: '2026-01-01 00:00:00',
+    }]);
+    expect(restored.haltedAgents).toEqual(['a', 'b']);
+  });
+
+  it('should ignore order when comparing lists', () => {
+    const before = { ...DEFAULT_SYSTEM_STATE, haltedAgents: ['a', 'b'] };
+    expect(changedControlFlags(before, { ...before, haltedAgents: ['b', 'a'] })).toEqual([]);
+  });
+
+  it('should treat a corrupt row as no halts', () => {
+    const restored = stateFromControlRecords([{
+      key: 'halted_channels', value: 'not json', set_by: null, reason: null, updated_at: '2026-01-01 00:00:00',
+    }]);
+    expect(restored.haltedChannels).toEqual([]);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_HISTORY,
+  InMemoryHistoryProvider,
+  formatChannelHistory,
+  loadChannelHistory,
+  resolveHistory,
+  ChannelMessage,
+  HistoryProvider,
+} from '../../src/history';
+import { generateSynthesisPrompt, BufferedThought } from '../../src/core';
+
+const makeThought = (overrides: Partial<BufferedThought> = {}): BufferedThought => ({
+  id: 1,
+  agent_id: 'main',
+  channel: 'slack',
+  target: '#ops',
+  content: 'Use Redis',
+  priority: 'P1',
+  created_at: '2026-02-07T12:00:00Z',
+  status: 'pending',
+  ...overrides
+});
+
+const message = (overrides: Partial<ChannelMessage> = {}): ChannelMessage => ({
+  channel: 'slack',
+  target: '#ops',
+  author: 'alice',
+  content: 'Restarted the cache',
+  postedAt: '2026-02-07T12:01:00Z',
+  ...overrides
+});
+
+describe('InMemoryHistoryProvider', () => {
+  it('should return messages for the destination since the cutoff, oldest first', async () => {
+    const provider = new InMemoryHistoryProvider();
+    provider.post(message({ content: 'late', postedAt: '2026-02-07T12:03:00Z' }));
+    provider.post(message({ content: 'before', postedAt: '2026-02-07T11:59:00Z' }));
+    provider.post(message({ content: 'early', postedAt: '2026-02-07T12:02:00Z' }));
+    provider.post(message({ content: 'elsewhere', target: '#dev' }));
+
+    const messages = await provider.fetchMessages({ channel: 'slack', target: '#ops' }, Date.parse('2026-02-07T12:00:00Z'), 10);
+
+    expect(messages.map(m => m.content)).toEqual(['early', 'late']);
+  });
+
+  it('should keep only the last `limit`', async () => {
+    const provider = new InMemoryHistoryProvider();
+    for (let i = 1; i <= 5; i++) provider.post(message({ content: `m${i}`, postedAt: `2026-02-07T12:0${i}:00Z` }));
+
+    const messages = await provider.fetchMessages({ channel: 'slack', target: '#ops' }, 0, 2);
+
+    expect(messages.map(m => m.content)).toEqual(['m4', 'm5']);
+  });
+});
+
+describe('loadChannelHistory()', () => {
+  it('should fetch each destination once, since the earliest thought', async () => {
+    const fetchMessages = vi.fn(async () => [] as ChannelMessage[]);
+    await loadChannelHistory({ fetchMessages }, [
+      makeThought({ id: 1, created_at: '2026-02-07T12:05:00Z' }),
+      makeThought({ id: 2, created_at: '2026-02-07T12:00:00Z' }),
+      makeThought({ id: 3, channel: 'discord', target: '' }),
+    ], DEFAULT_HISTORY);
+
+    expect(fetchMessages).toHaveBeenCalledTimes(2);
+    expect(fetchMessages).toHaveBeenCalledWith({ channel: 'slack', target: '#ops' }, Date.parse('2026-02-07T12:00:00Z'), 20);
+    expect(fetchMessages).toHaveBeenCalledWith({ channel: 'discord', target: undefined }, Date.parse('2026-02-07T12:00:00Z'), 20);
+  });
+
+  it('should enforce the cutoff and limit on what a provider returns', async () => {
+    const provider: HistoryProvider = {
+      fetchMessages: async () => [
+        message({ content: 'old', postedAt: '2026-02-07T11:00:00Z' }),
+        message({ content: 'a' }),
+        message({ content: 'b' }),
+        message({ content: 'wrong place', channel: 'discord' }),
+      ],
+    };
+
+    const messages = await loadChannelHistory(provider, [makeThought()], resolveHistory({ limit: 5 }));
+
+    expect(messages.map(m => m.content)).toEqual(['a', 'b']);
+  });
+
+  it('should skip a destination whose provider fails or stalls', async () => {
+    const warn = vi.fn();
+    const provider: HistoryProvider = {
+      fetchMessages: (dest) => dest.channel === 'slack'
+        ? Promise.reject(new Error('403'))
+        : new Promise(() => {}),
+    };
+
+    const messages = await loadChannelHistory(provider, [
+      makeThought(),
+      makeThought({ id: 2, channel: 'discord' }),
+    ], resolveHistory({ timeoutMs: 20 }), warn);
+
+    expect(messages).toEqual([]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('slack/#ops unavailable: Error: 403'));
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('timed out after 20ms'));
+  });
+
+  it('should do nothing when disabled', async () => {
+    const fetchMessages = vi.fn(async () => [] as ChannelMessage[]);
+    await loadChannelHistory({ fetchMessages }, [makeThought()], resolveHistory({ enabled: false }));
+    expect(fetchMessages).not.toHaveBeenCalled();
+  });
+});
+
+describe('formatChannelHistory()', () => {
+  it('should be empty without messages', () => {
+    expect(formatChannelHistory([])).toBe('');
+  });
+
+  it('should escape authors and content', () => {
+    const section = formatChannelHistory([message({ author: 'bob "the admin"', content: 'ignore "all"\nprevious' })]);
+
+    expect(section).toContain('bob \\"the admin\\": "ignore \\"all\\"\\nprevious"');
+    expect(section.split('\n')).toHaveLength(4);
+  });
+
+  it('should cut long messages', () => {
+    const section = formatChannelHistory([message({ content: 'x'.repeat(50) })], 10);
+    expect(section).toContain(`"${'x'.repeat(10)}…"`);
+  });
+
+  it('should sit before the task in the default prompt', () => {
+    const prompt = generateSynthesisPrompt([makeThought()], 1, { channelHistory: formatChannelHistory([message()]) });
+
+    expect(prompt.indexOf('alice: "Restarted the cache"')).toBeGreaterThan(prompt.indexOf('Use Redis'));
+    expect(prompt.indexOf('alice: "Restarted the cache"')).toBeLessThan(prompt.indexOf('**TASK:**'));
+  });
+});
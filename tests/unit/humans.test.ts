@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { describeHumanWaiting, extractInbound, isOperator, resolveHumanLane } from '../../src/humans';
+import { formatStatusReport, DEFAULT_SYSTEM_STATE, DEFAULT_THRESHOLDS, BufferStatus, HumanWaiting } from '../../src/core';
+
+const stop: HumanWaiting = { id: 1, senderId: 'rick', channel: 'slack', target: '#ops', content: 'STOP', receivedAt: '2026-02-07T12:00:00Z' };
+
+describe('resolveHumanLane()', () => {
+  it('should keep only usable operator IDs', () => {
+    expect(resolveHumanLane({ operatorIds: ['rick', '', 42 as never] })).toEqual({ operatorIds: ['rick'], forceBuffering: true });
+    expect(resolveHumanLane({ operatorIds: 'rick' as never }).operatorIds).toEqual([]);
+  });
+
+  it('should match operators exactly', () => {
+    const lane = resolveHumanLane({ operatorIds: ['rick'] });
+    expect(isOperator(lane, 'rick')).toBe(true);
+    expect(isOperator(lane, 'Rick')).toBe(false);
+  });
+});
+
+describe('extractInbound()', () => {
+  it('should read a message_received event and its context', () => {
+    expect(extractInbound({ from: 'rick', content: 'STOP' }, { channelId: 'slack', conversationId: '#ops' }))
+      .toEqual({ senderId: 'rick', content: 'STOP', channel: 'slack', target: '#ops' });
+  });
+
+  it('should accept the fields on the event itself', () => {
+    expect(extractInbound({ senderId: 'rick', text: 'STOP', channel: 'telegram' }))
+      .toEqual({ senderId: 'rick', content: 'STOP', channel: 'telegram', target: '' });
+  });
+
+  it('should skip events without a sender or text', () => {
+    expect(extractInbound({ content: 'STOP' })).toBeNull();
+    expect(extractInbound({ from: 'rick', content: '   ' })).toBeNull();
+    expect(extractInbound(null)).toBeNull();
+  });
+});
+
+describe('describeHumanWaiting()', () => {
+  it('should name the oldest message and count the rest', () => {
+    expect(describeHumanWaiting([])).toBeNull();
+    expect(describeHumanWaiting([stop, { ...stop, id: 2 }])).toBe('human waiting since 2026-02-07T12:00:00Z: rick (+1 more)');
+  });
+
+  it('should lead the status report', () => {
+    const status: BufferStatus = {
+      buffering: true, reason: 'human waiting', latencyMs: 0, mode: 'HEALTHY', modeSince: 0, timeInStateMs: 0,
+    };
+    const report = formatStatusReport({
+      status, state: { ...DEFAULT_SYSTEM_STATE }, thresholds: DEFAULT_THRESHOLDS, channels: [], agents: [], lastSynthesisAt: null, humans: [stop],
+    }, Date.parse('2026-02-07T12:03:00Z'));
+
+    expect(report).toContain('**🙋 Human waiting since 2026-02-07T12:00:00Z (3m 0s):**\n  • #1 rick on slack #ops: "STOP"');
+    expect(report.indexOf('Human waiting')).toBeLessThan(report.indexOf('Queue Health'));
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createSendInterceptor, extractSend, InterceptedSend } from '../../src/interceptor';
+import { BufferStatus } from '../../src/core';
+
+describe('extractSend()', () => {
+  it('should read the generic message tool', () => {
+    const send = extractSend('message', { action: 'send', channel: 'telegram', target: '12345', message: 'hi' });
+    expect(send).toEqual({ channel: 'telegram', target: '12345', content: 'hi', priority: 'P1' });
+  });
+
+  it('should take the platform from a prefixed tool name', () => {
+    const send = extractSend('slack:postMessage', { channel: 'C0123', text: 'deploying' });
+    expect(send?.channel).toBe('slack');
+    expect(send?.target).toBe('C0123');
+  });
+
+  it('should pass through non-send actions', () => {
+    expect(extractSend('message', { action: 'react', emoji: '🦫', message: 'x' })).toBeNull();
+  });
+
+  it('should pass through calls without content', () => {
+    expect(extractSend('message', { action: 'send', channel: 'slack' })).toBeNull();
+    expect(extractSend('message', { message: '   ' })).toBeNull();
+    expect(extractSend('message', null)).toBeNull();
+  });
+
+  it('should validate priority', () => {
+    expect(extractSend('sendMessage', { text: 'x', priority: 'P0' })?.priority).toBe('P0');
+    expect(extractSend('sendMessage', { text: 'x', priority: 'urgent' })?.priority).toBe('P1');
+  });
+});
+
+describe('createSendInterceptor()', () => {
+  const status = (buffering: boolean): BufferStatus => ({
+    buffering,
+    reason: buffering ? 'latency 9000ms > 5000ms' : 'healthy',
+    latencyMs: buffering ? 9000 : 100,
+    mode: buffering ? 'DEGRADED' : 'HEALTHY',
+    modeSince: 0,
+    timeInStateMs: 0
+  });
+
+  let buffering: boolean;
+  let stored: { agentId: string; send: InterceptedSend }[];
+  let execute: ReturnType<typeof vi.fn>;
+  let interceptor: ReturnType<typeof createSendInterceptor>;
+
+  beforeEach(() => {
+    buffering = false;
+    stored = [];
+    execute = vi.fn(async () => ({ content: [{ type: 'text', text: '{"ok":true,"sent":true}' }] }));
+    interceptor = createSendInterceptor({
+      shouldBuffer: () => status(buffering),
+      bufferThought: (agentId, send) => {
+        stored.push({ agentId, send });
+        return stored.length;
+      },
+      getAgentId: () => 'main',
+    });
+  });
+
+  it('should pass through when healthy', async () => {
+    const wrapped = interceptor.wrap('message', execute);
+    const result = await wrapped('call-1', { action: 'send', channel: 'slack', message: 'hello' });
+
+    expect(execute).toHaveBeenCalledOnce();
+    expect(result.content[0].text).toContain('sent');
+    expect(stored).toHaveLength(0);
+  });
+
+  it('should persist and mock success when degraded', async () => {
+    buffering = true;
+    const wrapped = interceptor.wrap('message', execute);
+    const result = await wrapped('call-1', { action: 'send', channel: 'slack', target: '#ops', message: 'use Redis' });
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(stored).toEqual([{ agentId: 'main', send: { channel: 'slack', target: '#ops', content: 'use Redis', priority: 'P1' } }]);
+
+    const payload = JSON.parse(result.content[0].text);
+    expect(payload.success).toBe(true);
+    expect(payload.status).toBe('buffered');
+    expect(payload.id).toBe(1);
+  });
+
+  it('should pass through non-send calls even when degraded', async () => {
+    buffering = true;
+    const wrapped = interceptor.wrap('message', execute);
+    await wrapped('call-1', { action: 'read', channel: 'slack' });
+
+    expect(execute).toHaveBeenCalledOnce();
+  });
+
+  it('should pass through when storage is unavailable', async () => {
+    buffering = true;
+    const warn = vi.fn();
+    const failing = createSendInterceptor({
+      shouldBuffer: () => status(true),
+      bufferThought: () => -1,
+      getAgentId: () => 'main',
+      logger: { info: () => {}, warn },
+    });
+    await failing.wrap('message', execute)('call-1', { message: 'hello' });
+
+    expect(execute).toHaveBeenCalledOnce();
+    expect(warn).toHaveBeenCalled();
+  });
+
+  it('should hold the send and report a full buffer', async () => {
+    const full = createSendInterceptor({
+      shouldBuffer: () => status(true),
+      bufferThought: () => ({ rejected: 'buffer full (50/50)' }),
+      getAgentId: () => 'main',
+    });
+    const result = await full.wrap('message', execute)('call-1', { message: 'hello' });
+
+    expect(execute).not.toHaveBeenCalled();
+    const payload = JSON.parse(result.content[0].text);
+    expect(payload.status).toBe('rejected');
+    expect(payload.reason).toBe('buffer full (50/50)');
+  });
+
+  it('should store the reason and tell a rate-limited agent it was too fast', async () => {
+    const reasons: string[] = [];
+    const limited = createSendInterceptor({
+      shouldBuffer: () => ({ ...status(false), buffering: true, reason: 'rate_limited' }),
+      bufferThought: (_agentId, _send, reason) => reasons.push(reason),
+      getAgentId: () => 'main',
+    });
+    const result = await limited.wrap('message', execute)('call-1', { message: 'hello' });
+
+    expect(reasons).toEqual(['rate_limited']);
+    const payload = JSON.parse(result.content[0].text);
+    expect(payload).toMatchObject({ status: 'buffered', reason: 'rate_limited' });
+    expect(payload.note).toContain('Sending too fast');
+  });
+});
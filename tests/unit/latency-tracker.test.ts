@@ -82,6 +82,61 @@ describe('LatencyTracker', () => {
     });
   });
 
+  describe('statistics', () => {
+    const ramp = (values: number[], stepMs = 1000) => {
+      const now = Date.now();
+      values.forEach((v, i) => tracker._injectSample(now - (values.length - 1 - i) * stepMs, v));
+    };
+
+    it('should return nearest-rank percentiles', () => {
+      for (let i = 1; i <= 100; i++) tracker.record(i * 10);
+
+      expect(tracker.getPercentile(50)).toBe(500);
+      expect(tracker.getPercentile(95)).toBe(950);
+      expect(tracker.getPercentile(99)).toBe(990);
+      expect(tracker.getPercentile(100)).toBe(1000);
+      expect(tracker.getPercentile(95, 60000, 7)).toBe(950);
+      expect(new LatencyTracker().getPercentile(95, 60000, 7)).toBe(7);
+    });
+
+    it('should weight recent samples in the EWMA', () => {
+      ramp([100, 100, 1000]);
+
+      expect(tracker.getEwma(60000, 0.5)).toBe(550);
+      expect(tracker.getEwma(60000, 1)).toBe(1000);
+    });
+
+    it('should fit the slope in ms per second', () => {
+      ramp([1000, 1200, 1400, 1600], 2000);
+      expect(tracker.getSlope()).toBeCloseTo(100);
+
+      tracker.clear();
+      ramp([1600, 1400, 1200, 1000], 2000);
+      expect(tracker.getSlope()).toBeCloseTo(-100);
+    });
+
+    it('should order injected samples by time', () => {
+      const now = Date.now();
+      tracker._injectSample(now - 1000, 2000);
+      tracker._injectSample(now - 3000, 1000);
+
+      expect(tracker.getSlope()).toBeCloseTo(500);
+    });
+
+    it('should report a flat or empty window as no trend', () => {
+      expect(tracker.getSlope()).toBe(0);
+      tracker.record(100);
+      expect(tracker.getSlope()).toBe(0);
+    });
+
+    it('should summarise the window', () => {
+      ramp([100, 200, 300]);
+
+      expect(tracker.getStats()).toMatchObject({ samples: 3, meanMs: 200, p50Ms: 200, maxMs: 300 });
+      expect(tracker.getStats().slopeMsPerSec).toBeCloseTo(100);
+    });
+  });
+
   describe('clear()', () => {
     it('should remove all samples', () => {
       tracker.record(100);
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { LoopDetector, describeLoop, detectLoop, resolveLoopDetection, SendRecord } from '../../src/loops';
+
+const config = resolveLoopDetection({ enabled: true, maxExchanges: 4, maxChain: 6, windowMs: 60000 });
+
+/** One send per agent, ten seconds apart, to slack #ops */
+const sends = (...agents: string[]): SendRecord[] =>
+  agents.map((agentId, i) => ({ agentId, channel: 'slack', target: '#ops', at: i * 10000 }));
+
+describe('resolveLoopDetection()', () => {
+  it('should not go below A→B→A or accept a bad window', () => {
+    const resolved = resolveLoopDetection({ maxExchanges: 1, maxChain: NaN, windowMs: 0 });
+    expect(resolved).toMatchObject({ maxExchanges: 3, maxChain: 10, windowMs: 300000 });
+  });
+});
+
+describe('detectLoop()', () => {
+  it('should spot two agents taking turns', () => {
+    expect(detectLoop(sends('architect', 'strategist', 'architect'), config)).toBeNull();
+
+    expect(detectLoop(sends('architect', 'strategist', 'architect', 'strategist'), config)).toEqual({
+      kind: 'ping_pong',
+      agents: ['architect', 'strategist'],
+      channel: 'slack',
+      target: '#ops',
+      turns: 4,
+      spanMs: 30000,
+    });
+  });
+
+  it('should count only the tail played out by the last two speakers', () => {
+    const loop = detectLoop(sends('support', 'architect', 'strategist', 'architect', 'strategist'), config);
+    expect(loop).toMatchObject({ kind: 'ping_pong', turns: 4, spanMs: 30000 });
+  });
+
+  it('should spot a reply chain among several agents', () => {
+    const loop = detectLoop(sends('architect', 'strategist', 'support', 'architect', 'support', 'strategist'), config);
+    expect(loop).toMatchObject({ kind: 'reply_chain', agents: ['architect', 'strategist', 'support'], turns: 6 });
+  });
+
+  it('should not call an agent talking twice a reply', () => {
+    expect(detectLoop(sends('architect', 'strategist', 'strategist', 'architect', 'strategist'), config)).toBeNull();
+  });
+});
+
+describe('LoopDetector', () => {
+  it('should report once, then count afresh', () => {
+    const detector = new LoopDetector(config);
+    const results = sends('architect', 'strategist', 'architect', 'strategist', 'architect').map(s => detector.record(s));
+
+    expect(results.map(r => r?.kind ?? null)).toEqual([null, null, null, 'ping_pong', null]);
+  });
+
+  it('should keep destinations apart', () => {
+    const detector = new LoopDetector(config);
+    for (const send of sends('architect', 'strategist', 'architect')) detector.record(send);
+
+    expect(detector.record({ agentId: 'strategist', channel: 'slack', target: '#general', at: 30000 })).toBeNull();
+  });
+
+  it('should let independent posts alternate below the thresholds', () => {
+    const detector = new LoopDetector(resolveLoopDetection({ enabled: true }));
+    const statuses = sends('architect', 'strategist', 'architect', 'strategist', 'architect');
+
+    expect(statuses.map(s => detector.record(s))).toEqual([null, null, null, null, null]);
+  });
+
+  it('should forget sends older than the window', () => {
+    const detector = new LoopDetector(config);
+    for (const send of sends('architect', 'strategist', 'architect')) detector.record(send);
+
+    expect(detector.record({ agentId: 'strategist', channel: 'slack', target: '#ops', at: 70000 })).toBeNull();
+  });
+
+  it('should do nothing when disabled', () => {
+    const detector = new LoopDetector({ ...config, enabled: false });
+    expect(sends('architect', 'strategist', 'architect', 'strategist').map(s => detector.record(s))).toEqual([null, null, null, null]);
+  });
+});
+
+describe('describeLoop()', () => {
+  it('should name who, where and how fast', () => {
+    const loop = detectLoop(sends('architect', 'strategist', 'architect', 'strategist'), config)!;
+    expect(describeLoop(loop)).toBe('architect ↔ strategist on slack #ops: 4 turns in 30s');
+  });
+});
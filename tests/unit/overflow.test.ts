@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { planOverflow, resolveOverflowPolicy, normalizeContent, describeOverflow, IncomingThought } from '../../src/overflow';
+import { BufferedThought } from '../../src/core';
+
+describe('planOverflow()', () => {
+  let nextId = 1;
+  const thought = (overrides: Partial<BufferedThought> = {}): BufferedThought => ({
+    id: nextId++,
+    agent_id: 'main',
+    channel: 'slack',
+    target: '#ops',
+    content: `thought ${nextId}`,
+    priority: 'P1',
+    created_at: `2026-02-07 12:00:${String(nextId).padStart(2, '0')}`,
+    status: 'pending',
+    ...overrides
+  });
+
+  const incoming = (overrides: Partial<IncomingThought> = {}): IncomingThought => ({
+    channel: 'slack',
+    target: '#ops',
+    content: 'new thought',
+    priority: 'P1',
+    ...overrides
+  });
+
+  it('should accept while below the limit, whatever the policy', () => {
+    expect(planOverflow('reject', [thought()], incoming(), 2)).toEqual({ action: 'accept' });
+  });
+
+  it('should force synthesis when full', () => {
+    expect(planOverflow('force_synthesis', [thought(), thought()], incoming(), 2)).toEqual({ action: 'force_synthesis' });
+  });
+
+  it('should reject with a reason when full', () => {
+    expect(planOverflow('reject', [thought(), thought()], incoming(), 2))
+      .toEqual({ action: 'reject', reason: 'buffer full (2/2)' });
+  });
+
+  describe('drop_oldest_p2', () => {
+    it('should drop the oldest P2 first', () => {
+      const oldP1 = thought({ priority: 'P1' });
+      const oldP2 = thought({ priority: 'P2' });
+      const newP2 = thought({ priority: 'P2' });
+
+      expect(planOverflow('drop_oldest_p2', [oldP1, newP2, oldP2], incoming(), 3))
+        .toEqual({ action: 'drop', dropIds: [oldP2.id] });
+    });
+
+    it('should fall back to the oldest P1 for a P1 or P0 thought', () => {
+      const first = thought();
+      const pending = [first, thought(), thought({ priority: 'P0' })];
+
+      expect(planOverflow('drop_oldest_p2', pending, incoming({ priority: 'P0' }), 3))
+        .toEqual({ action: 'drop', dropIds: [first.id] });
+    });
+
+    it('should never drop P0 or higher-priority thoughts', () => {
+      expect(planOverflow('drop_oldest_p2', [thought({ priority: 'P0' })], incoming(), 1).action).toBe('reject');
+      expect(planOverflow('drop_oldest_p2', [thought({ priority: 'P1' })], incoming({ priority: 'P2' }), 1).action).toBe('reject');
+    });
+  });
+
+  describe('collapse_duplicates', () => {
+    it('should collapse a repeat of a pending message', () => {
+      const original = thought({ content: 'Restart the   gateway' });
+
+      expect(planOverflow('collapse_duplicates', [original], incoming({ content: 'restart the gateway ' }), 1))
+        .toEqual({ action: 'collapse', duplicateOf: original.id });
+    });
+
+    it('should not treat the same text to another target as a repeat', () => {
+      const original = thought({ content: 'hello', target: '#general' });
+
+      expect(planOverflow('collapse_duplicates', [original], incoming({ content: 'hello' }), 1).action).toBe('reject');
+    });
+
+    it('should make room by folding repeats into their first copy', () => {
+      const first = thought({ content: 'retrying' });
+      const other = thought({ content: 'something else' });
+      const again = thought({ content: 'Retrying' });
+
+      expect(planOverflow('collapse_duplicates', [again, first, other], incoming(), 3))
+        .toEqual({ action: 'dedupe', dropIds: [again.id] });
+    });
+  });
+});
+
+describe('resolveOverflowPolicy()', () => {
+  it('should accept known policies and default to force_synthesis', () => {
+    expect(resolveOverflowPolicy('reject')).toBe('reject');
+    expect(resolveOverflowPolicy('yolo')).toBe('force_synthesis');
+    expect(resolveOverflowPolicy(undefined)).toBe('force_synthesis');
+  });
+});
+
+describe('normalizeContent()', () => {
+  it('should ignore case and whitespace', () => {
+    expect(normalizeContent('  Use\n\nRedis ')).toBe('use redis');
+  });
+});
+
+describe('describeOverflow()', () => {
+  it('should name what got dropped', () => {
+    expect(describeOverflow({ action: 'drop', dropIds: [3, 4] })).toBe('dropped #3, #4');
+    expect(describeOverflow({ action: 'reject', reason: 'buffer full (2/2)' })).toBe('rejected: buffer full (2/2)');
+  });
+});
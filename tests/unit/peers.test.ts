@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { collectPeerBuffers, formatPeerThoughts, redactContent, resolvePeerConfig } from '../../src/peers';
+import { generateSynthesisPrompt, BufferedThought } from '../../src/core';
+
+const makeThought = (overrides: Partial<BufferedThought> = {}): BufferedThought => ({
+  id: 1,
+  agent_id: 'architect',
+  channel: 'slack',
+  target: '#ops',
+  content: 'use Redis',
+  priority: 'P1',
+  created_at: '2026-02-07T12:00:00Z',
+  status: 'pending',
+  ...overrides
+});
+
+const buffers: Record<string, BufferedThought[]> = {
+  architect: [
+    makeThought({ id: 1, content: 'use Redis' }),
+    makeThought({ id: 2, content: 'cache TTL of 5m', created_at: '2026-02-07T12:01:00Z' }),
+  ],
+  strategist: [makeThought({ id: 3, agent_id: 'strategist', content: 'ship Friday', priority: 'P0' })],
+  support: [makeThought({ id: 4, agent_id: 'support', content: 'customer is waiting' })],
+};
+const getThoughts = (agentId: string) => buffers[agentId] ?? [];
+
+describe('resolvePeerConfig()', () => {
+  it('should fall back on unknown redaction and report bad patterns', () => {
+    const config = resolvePeerConfig({ redaction: 'blur' as never, redactPatterns: ['sk-[a-z0-9]+', '(unclosed'] });
+
+    expect(config.redaction).toBe('truncate');
+    expect(config.patterns).toHaveLength(1);
+    expect(config.errors[0]).toContain('"(unclosed"');
+  });
+});
+
+describe('redactContent()', () => {
+  it('should scrub patterns before truncating', () => {
+    const config = resolvePeerConfig({ maxChars: 12, redactPatterns: ['sk-[a-z0-9]+'] });
+    expect(redactContent('key sk-abc123def is live', config)).toBe('key [redacte…');
+  });
+
+  it('should keep everything under full redaction', () => {
+    const config = resolvePeerConfig({ redaction: 'full', maxChars: 3 });
+    expect(redactContent('use Redis', config)).toBe('use Redis');
+  });
+
+  it('should drop the text under metadata redaction', () => {
+    expect(redactContent('use Redis', resolvePeerConfig({ redaction: 'metadata' }))).toBeUndefined();
+  });
+});
+
+describe('collectPeerBuffers()', () => {
+  const agents = ['support', 'architect', 'strategist'];
+
+  it('should list every other agent, newest thoughts first', () => {
+    const peers = collectPeerBuffers('support', agents, getThoughts, resolvePeerConfig());
+
+    expect(peers.map(p => p.agentId)).toEqual(['architect', 'strategist']);
+    expect(peers[0]).toMatchObject({ pending: 2, thoughts: [{ id: 2, summary: 'cache TTL of 5m' }, { id: 1, summary: 'use Redis' }] });
+  });
+
+  it('should cap thoughts per agent but report the full count', () => {
+    const peers = collectPeerBuffers('support', agents, getThoughts, resolvePeerConfig({ maxPerAgent: 1 }));
+    expect(peers[0]).toMatchObject({ pending: 2, thoughts: [{ id: 2 }] });
+  });
+
+  it('should never show hidden agents', () => {
+    const peers = collectPeerBuffers('architect', agents, getThoughts, resolvePeerConfig({ hiddenAgents: ['support'] }));
+    expect(peers.map(p => p.agentId)).toEqual(['strategist']);
+  });
+
+  it('should omit summaries under metadata redaction', () => {
+    const [peer] = collectPeerBuffers('support', ['architect'], getThoughts, resolvePeerConfig({ redaction: 'metadata' }));
+    expect(peer.thoughts[0]).not.toHaveProperty('summary');
+  });
+
+  it('should return nothing when disabled', () => {
+    expect(collectPeerBuffers('support', agents, getThoughts, resolvePeerConfig({ enabled: false }))).toEqual([]);
+  });
+});
+
+describe('formatPeerThoughts()', () => {
+  it('should be empty with no peers', () => {
+    expect(formatPeerThoughts([])).toBe('');
+  });
+
+  it('should escape summaries and flag critical thoughts', () => {
+    const section = formatPeerThoughts(collectPeerBuffers('support', ['strategist'], () => [
+      makeThought({ agent_id: 'strategist', content: 'say "stop"', priority: 'P0' }),
+    ], resolvePeerConfig()));
+
+    expect(section).toContain('- strategist [slack #ops] [CRITICAL] "say \\"stop\\""');
+  });
+
+  it('should land in the default prompt before the task', () => {
+    const peerThoughts = formatPeerThoughts(collectPeerBuffers('support', ['architect'], getThoughts, resolvePeerConfig()));
+    const prompt = generateSynthesisPrompt([makeThought({ agent_id: 'support', content: 'we should cache' })], 1, { peerThoughts });
+
+    expect(prompt).toContain('Other agents are already holding');
+    expect(prompt.indexOf('architect [slack #ops]')).toBeLessThan(prompt.indexOf('**TASK:**'));
+  });
+});
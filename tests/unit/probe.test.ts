@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ProbeScheduler, ProbeDeps, ProbeOptions } from '../../src/probe';
+import { Destination } from '../../src/core';
+
+describe('ProbeScheduler', () => {
+  let recorded: { latencyMs: number; dest: Destination }[];
+  let halted: boolean;
+  let deps: ProbeDeps;
+  const options: ProbeOptions = {
+    targets: [{ channel: 'slack', target: '#ops' }, { channel: 'telegram' }],
+    intervalMs: 1000,
+    timeoutMs: 500,
+    maxIntervalMs: 8000,
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    recorded = [];
+    halted = false;
+    deps = {
+      probe: async (target) => target.channel === 'slack' ? 120 : 40,
+      record: (latencyMs, dest) => { recorded.push({ latencyMs, dest }); },
+      isHalted: () => halted,
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should record every target each round', async () => {
+    const results = await new ProbeScheduler(deps, options).tick();
+
+    expect(results.every(r => r.ok)).toBe(true);
+    expect(recorded).toEqual([
+      { latencyMs: 120, dest: { channel: 'slack', target: '#ops' } },
+      { latencyMs: 40, dest: { channel: 'telegram', target: undefined } },
+    ]);
+  });
+
+  it('should record a failed probe as the timeout', async () => {
+    const warn = vi.fn();
+    const scheduler = new ProbeScheduler({
+      ...deps,
+      probe: async (target) => { if (target.channel === 'slack') throw new Error('ECONNREFUSED'); return 40; },
+      logger: { info: () => {}, warn },
+    }, options);
+
+    const results = await scheduler.tick();
+
+    expect(results[0]).toMatchObject({ ok: false, latencyMs: 500 });
+    expect(recorded[0].latencyMs).toBe(500);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('slack/#ops failed'));
+  });
+
+  it('should keep probing when recording a result throws', async () => {
+    const warn = vi.fn();
+    let rounds = 0;
+    const scheduler = new ProbeScheduler({
+      ...deps,
+      record: () => { rounds++; throw new Error('SQLITE_BUSY'); },
+      logger: { info: () => {}, warn },
+    }, options);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(1000);
+    scheduler.stop();
+
+    expect(rounds).toBe(4);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('slack/#ops could not be recorded: Error: SQLITE_BUSY'));
+  });
+
+  it('should cap a slow probe at the timeout', async () => {
+    await new ProbeScheduler({ ...deps, probe: async () => 9000 }, options).tick();
+
+    expect(recorded.map(r => r.latencyMs)).toEqual([500, 500]);
+  });
+
+  it('should probe on an interval until stopped', async () => {
+    const scheduler = new ProbeScheduler(deps, options);
+    scheduler.start();
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(recorded).toHaveLength(2);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(recorded).toHaveLength(6);
+
+    scheduler.stop();
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(recorded).toHaveLength(6);
+    expect(scheduler.isRunning()).toBe(false);
+  });
+
+  it('should not let a round from before a restart schedule another', async () => {
+    const slow: ProbeDeps = { ...deps, probe: () => new Promise(resolve => setTimeout(() => resolve(100), 300)) };
+    const scheduler = new ProbeScheduler(slow, { ...options, targets: [{ channel: 'slack' }] });
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(100);
+
+    // The first round is still waiting on its probe
+    scheduler.stop();
+    scheduler.start();
+    await vi.advanceTimersByTimeAsync(4900);
+
+    // Both first rounds land (300ms, 400ms), then only the new run goes on: 1700ms, 3000ms, 4300ms
+    expect(recorded).toHaveLength(5);
+    scheduler.stop();
+  });
+
+  it('should back off while halted and reset on resume', async () => {
+    const scheduler = new ProbeScheduler(deps, options);
+    halted = true;
+
+    for (let i = 0; i < 5; i++) await scheduler.tick();
+
+    expect(recorded).toHaveLength(0);
+    expect(scheduler.getIntervalMs()).toBe(8000);
+
+    halted = false;
+    await scheduler.tick();
+
+    expect(recorded).toHaveLength(2);
+    expect(scheduler.getIntervalMs()).toBe(1000);
+  });
+
+  it('should not start without targets', () => {
+    const scheduler = new ProbeScheduler(deps, { ...options, targets: [] });
+    scheduler.start();
+
+    expect(scheduler.isRunning()).toBe(false);
+  });
+});
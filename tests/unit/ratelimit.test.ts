@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter, TokenBucket, formatBucketLevel, resolveRateLimit, validateBucket } from '../../src/ratelimit';
+import { formatStatusReport, DEFAULT_SYSTEM_STATE, DEFAULT_THRESHOLDS, BufferStatus } from '../../src/core';
+
+const T0 = 1_000_000;
+
+describe('resolveRateLimit()', () => {
+  it('should keep good buckets and report bad ones', () => {
+    const { config, errors } = resolveRateLimit({
+      perAgent: { capacity: 0, refillPerMinute: 5 },
+      channels: { slack: { capacity: 5, refillPerMinute: 5 }, telegram: { capacity: 5 } as never },
+    });
+
+    expect(config.perAgent).toEqual({ capacity: 10, refillPerMinute: 10 });
+    expect(config.channels).toEqual({ slack: { capacity: 5, refillPerMinute: 5 } });
+    expect(errors).toEqual([
+      'perAgent: capacity must be at least 1',
+      'channels.telegram: refillPerMinute must be positive',
+    ]);
+  });
+
+  it('should reject anything that is not a bucket', () => {
+    expect(validateBucket(null)).toContain('expected');
+    expect(validateBucket({ capacity: 1, refillPerMinute: 1 })).toBeNull();
+  });
+});
+
+describe('TokenBucket', () => {
+  it('should allow a burst, then refill over time', () => {
+    const bucket = new TokenBucket({ capacity: 2, refillPerMinute: 6 }, T0);
+
+    expect(bucket.take(T0)).toBe(true);
+    expect(bucket.take(T0)).toBe(true);
+    expect(bucket.take(T0)).toBe(false);
+    expect(bucket.take(T0 + 9999)).toBe(false);
+    expect(bucket.take(T0 + 10000)).toBe(true);
+  });
+
+  it('should never fill past capacity', () => {
+    const bucket = new TokenBucket({ capacity: 2, refillPerMinute: 60 }, T0);
+    expect(bucket.level(T0 + 3600000)).toBe(2);
+  });
+});
+
+describe('RateLimiter', () => {
+  const limiter = (overrides = {}) => new RateLimiter(resolveRateLimit({
+    enabled: true,
+    perAgent: { capacity: 2, refillPerMinute: 1 },
+    perChannel: { capacity: 3, refillPerMinute: 1 },
+    ...overrides,
+  }).config);
+
+  it('should hold back an agent past its bucket', () => {
+    const rl = limiter();
+    expect(rl.take('architect', 'slack', 'P1', T0)).toBeNull();
+    expect(rl.take('architect', 'slack', 'P1', T0)).toBeNull();
+    expect(rl.take('architect', 'slack', 'P1', T0)).toBe('agent architect over 1/min');
+  });
+
+  it('should hold back a channel shared by several agents', () => {
+    const rl = limiter();
+    rl.take('architect', 'slack', 'P1', T0);
+    rl.take('strategist', 'slack', 'P1', T0);
+    rl.take('support', 'slack', 'P1', T0);
+
+    expect(rl.take('main', 'slack', 'P1', T0)).toBe('channel slack over 1/min');
+    // The refused send spent nothing
+    expect(rl.levels(T0).find(l => l.id === 'main')).toMatchObject({ tokens: 2 });
+  });
+
+  it('should let P0 through an empty bucket unless told otherwise', () => {
+    const rl = limiter();
+    rl.take('architect', 'slack', 'P1', T0);
+    rl.take('architect', 'slack', 'P1', T0);
+    expect(rl.take('architect', 'slack', 'P0', T0)).toBeNull();
+
+    const strict = limiter({ exemptP0: false });
+    strict.take('architect', 'slack', 'P1', T0);
+    strict.take('architect', 'slack', 'P1', T0);
+    expect(strict.take('architect', 'slack', 'P0', T0)).not.toBeNull();
+  });
+
+  it('should use per-agent overrides', () => {
+    const rl = limiter({ agents: { support: { capacity: 1, refillPerMinute: 1 } } });
+    rl.take('support', 'slack', 'P1', T0);
+    expect(rl.take('support', 'slack', 'P1', T0)).not.toBeNull();
+    expect(rl.available('support', ['slack'], T0 + 60000)).toBe(true);
+  });
+
+  it('should be off unless enabled', () => {
+    expect(resolveRateLimit().config.enabled).toBe(false);
+  });
+
+  it('should let everything through when disabled', () => {
+    const rl = limiter({ enabled: false, perAgent: { capacity: 1, refillPerMinute: 1 } });
+    rl.take('architect', 'slack', 'P1', T0);
+    expect(rl.take('architect', 'slack', 'P1', T0)).toBeNull();
+    expect(rl.levels(T0)).toEqual([]);
+  });
+});
+
+describe('formatBucketLevel()', () => {
+  const status: BufferStatus = {
+    buffering: false, reason: 'healthy', latencyMs: 0, mode: 'HEALTHY', modeSince: 0, timeInStateMs: 0,
+  };
+
+  it('should appear in the status report only when given', () => {
+    const rl = new RateLimiter(resolveRateLimit({ enabled: true, perAgent: { capacity: 1, refillPerMinute: 2 } }).config);
+    rl.take('architect', 'slack', 'P1', T0);
+    const report = { status, state: { ...DEFAULT_SYSTEM_STATE }, thresholds: DEFAULT_THRESHOLDS, channels: [], agents: [], lastSynthesisAt: null };
+
+    expect(formatBucketLevel(rl.levels(T0)[0])).toBe('  • **agent architect**: 🪣 0/1 tokens, +2/min');
+    expect(formatStatusReport({ ...report, rateLimits: rl.levels(T0) }, T0)).toContain('**Rate Limits:**\n  • **agent architect**');
+    expect(formatStatusReport(report, T0)).not.toContain('Rate Limits');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { LatencyTracker, shouldBuffer, SystemState } from '../../src/core';
+import { LatencyTracker, shouldBuffer, SystemState, GovernanceStateMachine, resolvePrediction, predictLatency } from '../../src/core';
 
 describe('shouldBuffer()', () => {
   let tracker: LatencyTracker;
@@ -119,4 +119,124 @@ describe('shouldBuffer()', () => {
       expect(result.reason).toBe('manual override');
     });
   });
+
+  describe('governance modes', () => {
+    it('should report HEALTHY when not buffering', () => {
+      tracker.record(1000);
+      const result = shouldBuffer(tracker, 5000, defaultState);
+
+      expect(result.mode).toBe('HEALTHY');
+    });
+
+    it('should report CRITICAL above the critical threshold', () => {
+      tracker.record(45000);
+      const result = shouldBuffer(tracker, { degradedMs: 5000, criticalMs: 30000 }, defaultState);
+
+      expect(result.buffering).toBe(true);
+      expect(result.mode).toBe('CRITICAL');
+      expect(result.reason).toContain('critical');
+    });
+
+    it('should keep buffering inside the hysteresis band', () => {
+      const governor = new GovernanceStateMachine({ degradedMs: 5000, drainMs: 3000, recoveryHoldMs: 60000 });
+      tracker.record(6000);
+      shouldBuffer(tracker, 5000, defaultState, governor);
+
+      tracker.clear();
+      tracker.record(1000);
+      const result = shouldBuffer(tracker, 5000, defaultState, governor);
+
+      expect(result.buffering).toBe(true);
+      expect(result.mode).toBe('DEGRADED');
+      expect(result.reason).toContain('recovering');
+    });
+
+    it('should carry time in state from the governor', () => {
+      const governor = new GovernanceStateMachine({}, Date.now() - 5000);
+      const result = shouldBuffer(tracker, 5000, defaultState, governor);
+
+      expect(result.modeSince).toBe(governor.getSince());
+      expect(result.timeInStateMs).toBeGreaterThanOrEqual(5000);
+    });
+  });
+
+  describe('prediction', () => {
+    const prediction = resolvePrediction({ enabled: true, horizonMs: 30000, minSamples: 5, alpha: 1 });
+
+    // One sample per second, oldest first
+    const ramp = (values: number[]) => {
+      const now = Date.now();
+      values.forEach((v, i) => tracker._injectSample(now - (values.length - 1 - i) * 1000, v));
+    };
+
+    it('should enter DEGRADED when the trend crosses the threshold', () => {
+      ramp([2000, 2100, 2200, 2300, 2400]);
+      const result = shouldBuffer(tracker, 5000, defaultState, new GovernanceStateMachine(), prediction);
+
+      expect(result.buffering).toBe(true);
+      expect(result.mode).toBe('DEGRADED');
+      expect(result.latencyMs).toBe(2400);
+      expect(result.reason).toBe('predicted 5400ms within 30s > 5000ms (trend +100ms/s, ewma 2400ms)');
+    });
+
+    it('should do nothing when disabled', () => {
+      ramp([2000, 2100, 2200, 2300, 2400]);
+
+      expect(shouldBuffer(tracker, 5000, defaultState).buffering).toBe(false);
+      expect(shouldBuffer(tracker, 5000, defaultState, undefined, resolvePrediction()).buffering).toBe(false);
+    });
+
+    it('should ignore a short or falling window', () => {
+      ramp([2000, 3000, 4000]);
+      expect(shouldBuffer(tracker, 5000, defaultState, undefined, prediction).buffering).toBe(false);
+
+      tracker.clear();
+      ramp([4800, 4000, 3000, 2000, 1000]);
+      expect(predictLatency(tracker, prediction)).toBeNull();
+    });
+
+    it('should not escalate to CRITICAL on a forecast alone', () => {
+      ramp([1000, 2000, 3000, 4000, 5000]);
+      const result = shouldBuffer(tracker, { degradedMs: 5000, criticalMs: 30000 }, defaultState, undefined, prediction);
+
+      expect(predictLatency(tracker, prediction)!.projectedMs).toBeGreaterThan(30000);
+      expect(result.mode).toBe('DEGRADED');
+    });
+
+    it('should report real latency once it crosses', () => {
+      ramp([3000, 4000, 5000, 6000, 7000]);
+
+      expect(shouldBuffer(tracker, 5000, defaultState, undefined, prediction).reason).toBe('latency 7000ms > 5000ms');
+    });
+  });
+
+  describe('queue depth', () => {
+    it('should buffer on depth even when latency is fine', () => {
+      tracker.record(1000);
+      const result = shouldBuffer(tracker, 5000, defaultState, undefined, undefined, 25);
+
+      expect(result).toMatchObject({ buffering: true, mode: 'DEGRADED', reason: 'queue depth 25 > 20', queueDepth: 25 });
+    });
+
+    it('should mark critical depth', () => {
+      const result = shouldBuffer(tracker, 5000, defaultState, undefined, undefined, 44);
+
+      expect(result.mode).toBe('CRITICAL');
+      expect(result.reason).toBe('queue depth 44 > 40 (critical)');
+    });
+
+    it('should name the queue while recovering', () => {
+      const governor = new GovernanceStateMachine({ recoveryHoldMs: 60000 });
+      shouldBuffer(tracker, 5000, defaultState, governor, undefined, 30);
+      const result = shouldBuffer(tracker, 5000, defaultState, governor, undefined, 8);
+
+      expect(result.buffering).toBe(true);
+      expect(result.reason).toContain('queue 8');
+      expect(result.reason).toContain('queue ≤ 5');
+    });
+
+    it('should leave queueDepth off when nobody reports it', () => {
+      expect(shouldBuffer(tracker, 5000, defaultState)).not.toHaveProperty('queueDepth');
+    });
+  });
 });
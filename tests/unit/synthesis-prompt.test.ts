@@ -139,6 +139,44 @@ describe('generateSynthesisPrompt()', () => {
     });
   });
 
+  describe('collapsed duplicates', () => {
+    it('should mark repeats and count every draft', () => {
+      const result = generateSynthesisPrompt([
+        makeThought({ id: 1, content: 'retrying', duplicate_count: 3 }),
+        makeThought({ id: 2, content: 'use Redis' }),
+      ]);
+
+      expect(result).toContain('"retrying" (×4)');
+      expect(result).toContain('"use Redis"\n');
+      expect(result).toContain('you drafted 5 messages');
+      expect(result).toContain('3 near-duplicate(s) collapsed');
+    });
+
+    it('should add nothing when nothing was collapsed', () => {
+      const result = generateSynthesisPrompt([makeThought({ duplicate_count: 0 })]);
+
+      expect(result).not.toContain('×');
+      expect(result).not.toContain('near-duplicate');
+    });
+  });
+
+  describe('two-phase synthesis', () => {
+    it('should cite thought IDs and ask for submit_synthesis', () => {
+      const result = generateSynthesisPrompt([makeThought({ id: 42 })], 7);
+
+      expect(result).toContain('1. #42 [');
+      expect(result).toContain('submit_synthesis');
+      expect(result).toContain('synthesisId 7');
+    });
+
+    it('should leave the plain prompt unchanged without an ID', () => {
+      const result = generateSynthesisPrompt([makeThought({ id: 42 })]);
+
+      expect(result).not.toContain('#42');
+      expect(result).not.toContain('submit_synthesis');
+    });
+  });
+
   describe('prompt structure', () => {
     it('should include all required sections', () => {
       const thought = makeThought({ content: 'Test' });
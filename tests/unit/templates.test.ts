@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SYNTHESIS_TEMPLATE,
+  renderTemplate,
+  resolveTemplates,
+  selectTemplate,
+  validateTemplate,
+} from '../../src/templates';
+import { generateSynthesisPrompt, BufferedThought } from '../../src/core';
+
+const makeThought = (overrides: Partial<BufferedThought> = {}): BufferedThought => ({
+  id: 1,
+  agent_id: 'strategist',
+  channel: 'slack',
+  target: '#ops',
+  content: 'Test thought',
+  priority: 'P1',
+  created_at: '2026-02-07T12:00:00Z',
+  status: 'pending',
+  ...overrides
+});
+
+describe('validateTemplate()', () => {
+  it('should accept the default template', () => {
+    expect(validateTemplate(DEFAULT_SYNTHESIS_TEMPLATE)).toBeNull();
+  });
+
+  it('should reject non-strings and blank templates', () => {
+    expect(validateTemplate(42)).toContain('non-empty string');
+    expect(validateTemplate('   ')).toContain('non-empty string');
+  });
+
+  it('should name unknown variables', () => {
+    expect(validateTemplate('{{thoughts}} {{mood}}{{submit}}')).toContain('unknown variable(s) {{mood}}');
+  });
+
+  it('should require thoughts and submit', () => {
+    expect(validateTemplate('Review {{count}} messages')).toContain('{{thoughts}}, {{submit}}');
+  });
+
+  it('should reject unbalanced braces', () => {
+    expect(validateTemplate('{{thoughts}} {{submit} }}')).toContain('unbalanced');
+  });
+});
+
+describe('resolveTemplates()', () => {
+  it('should fall back to the default with no config', () => {
+    const { templates, errors } = resolveTemplates();
+    expect(templates.default).toBe(DEFAULT_SYNTHESIS_TEMPLATE);
+    expect(errors).toEqual([]);
+  });
+
+  it('should drop invalid overrides and report each one', () => {
+    const { templates, errors } = resolveTemplates({
+      default: '{{thoughts}}',
+      agents: { strategist: 'Keep decisions.\n{{thoughts}}{{submit}}', support: '{{tone}}' },
+    });
+
+    expect(templates.default).toBe(DEFAULT_SYNTHESIS_TEMPLATE);
+    expect(Object.keys(templates.agents)).toEqual(['strategist']);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^default: /);
+    expect(errors[1]).toMatch(/^agents\.support: /);
+  });
+});
+
+describe('selectTemplate()', () => {
+  const { templates } = resolveTemplates({
+    agents: { strategist: 'agent {{thoughts}}{{submit}}' },
+    channels: { discord: 'channel {{thoughts}}{{submit}}' },
+  });
+
+  it('should prefer the agent override over the channel override', () => {
+    expect(selectTemplate(templates, 'strategist', 'discord')).toMatch(/^agent/);
+  });
+
+  it('should use the channel override for other agents', () => {
+    expect(selectTemplate(templates, 'support', 'discord')).toMatch(/^channel/);
+  });
+
+  it('should match channels whatever their case', () => {
+    const { templates: mixed } = resolveTemplates({ channels: { Slack: 'channel {{thoughts}}{{submit}}' } });
+    expect(selectTemplate(mixed, 'support', 'slack')).toMatch(/^channel/);
+    expect(selectTemplate(templates, 'support', 'Discord')).toMatch(/^channel/);
+  });
+
+  it('should use the default otherwise', () => {
+    expect(selectTemplate(templates, 'support', 'slack')).toBe(DEFAULT_SYNTHESIS_TEMPLATE);
+    expect(selectTemplate(templates)).toBe(DEFAULT_SYNTHESIS_TEMPLATE);
+  });
+});
+
+describe('renderTemplate()', () => {
+  it('should not expand placeholders inside substituted text', () => {
+    expect(renderTemplate('{{thoughts}}!', { thoughts: 'say {{count}}', count: '3' })).toBe('say {{count}}!');
+  });
+});
+
+describe('generateSynthesisPrompt() with templates', () => {
+  it('should keep the built-in wording by default', () => {
+    const prompt = generateSynthesisPrompt([makeThought({ priority: 'P0', content: 'Stop' })], 7);
+
+    expect(prompt).toBe(`**SYSTEM: NETWORK RECOVERED**
+
+While congested, you drafted 1 messages:
+
+1. #1 [2026-02-07T12:00:00Z] [CRITICAL] "Stop"
+
+
+**Note:** 1 CRITICAL thought(s) — preserve unless clearly obsolete.
+
+**TASK:** Review against current channel state.
+- Discard obsolete/superseded thoughts
+- Synthesize remaining into ONE coherent message
+- Do not apologize or mention delays
+
+**THEN:** Call \`submit_synthesis\` with synthesisId 7, the message you sent, and the #IDs you kept and discarded. Thoughts not reported back are returned to the buffer.`);
+  });
+
+  it('should fill every variable', () => {
+    const template = '{{agentId}}|{{channel}}|{{count}}|{{thoughtCount}}|{{p0Count}}|{{outageDuration}}\n{{thoughts}}{{submit}}';
+    const prompt = generateSynthesisPrompt([
+      makeThought({ id: 1, priority: 'P0', duplicate_count: 2 }),
+      makeThought({ id: 2, created_at: '2026-02-07T12:01:30Z' }),
+    ], 3, { template, now: Date.parse('2026-02-07T12:05:00Z') });
+
+    expect(prompt.split('\n')[0]).toBe('strategist|slack|4|2|1|5m 0s');
+    expect(prompt).toContain('synthesisId 3');
+  });
+
+  it('should not name a channel for a mixed batch', () => {
+    const prompt = generateSynthesisPrompt([makeThought(), makeThought({ id: 2, channel: 'discord' })], 1, {
+      template: '{{channel}} {{thoughts}}{{submit}}',
+    });
+    expect(prompt).toMatch(/^several channels /);
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { validatePriority, validateThought, validateLatency } from '../../src/core';
+import { validatePriority, validateThought, validateLatency, validateAgentId, validateSubmission } from '../../src/core';
 
 describe('validatePriority()', () => {
   it('should accept P0', () => {
@@ -92,3 +92,53 @@ describe('validateLatency()', () => {
     expect(validateLatency(999999999)).toBe(999999999);
   });
 });
+
+describe('validateAgentId()', () => {
+  it('should accept simple IDs', () => {
+    expect(validateAgentId('main')).toBe('main');
+    expect(validateAgentId('agent-2.beta_x')).toBe('agent-2.beta_x');
+  });
+
+  it('should trim whitespace', () => {
+    expect(validateAgentId('  architect ')).toBe('architect');
+  });
+
+  it('should reject non-string, empty and unsafe IDs', () => {
+    expect(validateAgentId(undefined)).toBeNull();
+    expect(validateAgentId(42)).toBeNull();
+    expect(validateAgentId('')).toBeNull();
+    expect(validateAgentId('two words')).toBeNull();
+    expect(validateAgentId('a'.repeat(65))).toBeNull();
+  });
+});
+
+describe('validateSubmission()', () => {
+  it('should accept a full submission', () => {
+    expect(validateSubmission({ synthesisId: 3, output: 'Use Postgres.', kept: [2], discarded: [1] }))
+      .toEqual({ synthesisId: 3, output: 'Use Postgres.', kept: [2], discarded: [1] });
+  });
+
+  it('should default kept and discarded to empty', () => {
+    expect(validateSubmission({ synthesisId: '3', output: 'ok' }))
+      .toEqual({ synthesisId: 3, output: 'ok', kept: [], discarded: [] });
+  });
+
+  it('should reject a bad synthesisId or empty output', () => {
+    expect(validateSubmission({ output: 'ok' })).toContain('synthesisId');
+    expect(validateSubmission({ synthesisId: 1.5, output: 'ok' })).toContain('synthesisId');
+    expect(validateSubmission({ synthesisId: 1, output: '  ' })).toContain('output');
+    expect(validateSubmission(undefined)).toContain('synthesisId');
+  });
+
+  it('should reject malformed or overlapping ID lists', () => {
+    expect(validateSubmission({ synthesisId: 1, output: 'ok', kept: '2' })).toContain('arrays');
+    expect(validateSubmission({ synthesisId: 1, output: 'ok', kept: [0] })).toContain('arrays');
+    expect(validateSubmission({ synthesisId: 1, output: 'ok', kept: [2], discarded: [2] })).toContain('both');
+  });
+
+  it('should accept a chunk number for condensing steps', () => {
+    expect(validateSubmission({ synthesisId: 1, output: 'notes', chunk: 2 })).toMatchObject({ chunk: 2 });
+    expect(validateSubmission({ synthesisId: 1, output: 'notes', chunk: 0 })).toContain('chunk');
+    expect(validateSubmission({ synthesisId: 1, output: 'notes' })).not.toHaveProperty('chunk');
+  });
+});